@@ -0,0 +1,48 @@
+// Tests for history-merge.ts: histories written by two tabs on the same day must both survive a cross-tab merge.
+// Run with `npm run test:history-merge`.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { transformWithEsbuild } from 'vite';
+
+const sourcePath = new URL('./history-merge.ts', import.meta.url).pathname;
+const { code } = await transformWithEsbuild(await readFile(sourcePath, 'utf8'), sourcePath);
+const { mergeMatchingGameHistory, mergeQuizHistory, mergeSpeedChallengeBests } = await import(`data:text/javascript,${encodeURIComponent(code)}`);
+
+// Same shape as SYNC_VALUE_MERGERS in index.tsx: the incoming value is the base and local additions are merged in
+const mergeFromOtherTab = merge => (local, incoming) => merge(incoming, local);
+
+test('keeps same-day matching games from both tabs', () => {
+    const fromTabA = { date: '2026-10-19T09:00:00.000Z', source: 'currentGrade', pairCount: 6, mismatches: 2, durationMs: 40000 };
+    const fromTabB = { date: '2026-10-19T09:05:00.000Z', source: 'currentGrade', pairCount: 6, mismatches: 1, durationMs: 35000 };
+    const merge = mergeFromOtherTab(mergeMatchingGameHistory);
+
+    assert.deepEqual(merge([fromTabA], [fromTabB]), [fromTabA, fromTabB]);
+    assert.deepEqual(merge([fromTabB], [fromTabA]), [fromTabA, fromTabB]);
+});
+
+test('keeps same-day speed challenge bests from both tabs, highest first', () => {
+    const fromTabA = { date: '2026-10-19T09:00:00.000Z', points: 120, correct: 10, answered: 12, maxCombo: 6 };
+    const fromTabB = { date: '2026-10-19T09:05:00.000Z', points: 200, correct: 15, answered: 16, maxCombo: 9 };
+    const merge = mergeFromOtherTab((current, incoming) => mergeSpeedChallengeBests(current, incoming, 5));
+
+    assert.deepEqual(merge({ 1: [fromTabA] }, { 1: [fromTabB] }), { 1: [fromTabB, fromTabA] });
+    assert.deepEqual(merge({ 1: [fromTabB] }, { 1: [fromTabA] }), { 1: [fromTabB, fromTabA] });
+});
+
+test('keeps day-only records from before schema v3 that differ in any field', () => {
+    const earlier = { date: '2026-10-19', points: 80, correct: 8, answered: 9, maxCombo: 4 };
+    const later = { date: '2026-10-19', points: 150, correct: 12, answered: 13, maxCombo: 7 };
+    const merged = mergeSpeedChallengeBests({ 1: [earlier] }, { 1: [later] }, 5);
+
+    assert.deepEqual(merged, { 1: [later, earlier] });
+});
+
+test('does not duplicate a record both tabs already hold', () => {
+    const shared = { date: '2026-10-19T09:00:00.000Z', score: 8, total: 10 };
+    const added = { date: '2026-10-19T09:30:00.000Z', score: 9, total: 10 };
+    const merge = mergeFromOtherTab(mergeQuizHistory);
+
+    assert.deepEqual(merge([shared, added], [shared]), [shared, added]);
+});
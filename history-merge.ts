@@ -0,0 +1,41 @@
+// Merging of append-only learning histories, shared by backup import and cross-tab sync.
+// Kept free of imports so `npm run test:history-merge` can load it outside the app.
+
+const mergeByKey = <T,>(current: T[], incoming: T[], getKey: (item: T) => string) => {
+    const seen = new Set(current.map(getKey));
+    return [...current, ...incoming.filter(item => !seen.has(getKey(item)))];
+};
+
+const byDate = (a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date);
+
+// The same day can appear on both sides when the data shares an origin, so keep the larger count instead of adding
+export const mergeLearnedWordsHistory = (current: { date: string; count: number }[], incoming: { date: string; count: number }[]) => {
+    const learnedCounts = new Map<string, number>();
+    [...current, ...incoming].forEach(item => {
+        learnedCounts.set(item.date, Math.max(learnedCounts.get(item.date) || 0, item.count));
+    });
+    return Array.from(learnedCounts, ([date, count]) => ({ date, count })).sort(byDate);
+};
+
+export const mergeQuizHistory = <T extends { date: string; score: number; total: number }>(current: T[], incoming: T[]) => (
+    mergeByKey(current, incoming, entry => `${entry.date}|${entry.score}|${entry.total}`).sort(byDate)
+);
+
+// Records are keyed by every field, since records saved before schema v3 (or by an older app on another device) hold only the day
+export const mergeMatchingGameHistory = <T extends { date: string; source: string; pairCount: number; mismatches: number; durationMs: number }>(current: T[], incoming: T[]) => (
+    mergeByKey(current, incoming, record => `${record.date}|${record.source}|${record.pairCount}|${record.mismatches}|${record.durationMs}`).sort(byDate)
+);
+
+export const mergeSpeedChallengeBests = <T extends { date: string; points: number; correct: number; answered: number; maxCombo: number }>(
+    current: Record<string, T[]>,
+    incoming: Record<string, T[]>,
+    bestsPerGrade: number,
+) => {
+    const mergedBests: Record<string, T[]> = { ...current };
+    Object.entries(incoming).forEach(([grade, records]) => {
+        mergedBests[grade] = mergeByKey(mergedBests[grade] || [], records, record => `${record.date}|${record.points}|${record.correct}|${record.answered}|${record.maxCombo}`)
+            .sort((a, b) => b.points - a.points)
+            .slice(0, bestsPerGrade);
+    });
+    return mergedBests;
+};
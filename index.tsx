@@ -4,6 +4,7 @@ import ReactDOM from 'react-dom/client';
 import * as pdfjsLib from 'pdfjs-dist';
 import * as XLSX from 'xlsx'; // For XLSX and CSV
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { mergeLearnedWordsHistory, mergeQuizHistory, mergeMatchingGameHistory, mergeSpeedChallengeBests } from './history-merge.ts';
 
 // pdf.js worker setup
 if (typeof window !== 'undefined') {
@@ -160,13 +161,18 @@ const SpeechProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) =>
 };
 
 // --- Toast Notification System ---
+interface ToastAction {
+    label: string;
+    onClick: () => void;
+}
 interface ToastMessage {
     id: number;
     message: string;
     type: 'success' | 'error' | 'warning' | 'info';
+    action?: ToastAction;
 }
 interface ToastContextType {
-    addToast: (message: string, type: ToastMessage['type']) => void;
+    addToast: (message: string, type: ToastMessage['type'], action?: ToastAction) => void;
 }
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
 
@@ -182,10 +188,11 @@ const ToastProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
     const [toasts, setToasts] = useState<ToastMessage[]>([]);
     const toastIdRef = useRef(0);
 
-    const addToast = useCallback((message: string, type: ToastMessage['type']) => {
+    const addToast = useCallback((message: string, type: ToastMessage['type'], action?: ToastAction) => {
         const id = toastIdRef.current++;
-        setToasts(prevToasts => [...prevToasts, { id, message, type }]);
-        const duration = type === 'error' || type === 'warning' ? 7000 : 5000;
+        setToasts(prevToasts => [...prevToasts, { id, message, type, action }]);
+        // Toasts with an action stay longer so there is time to click it
+        const duration = action || type === 'error' || type === 'warning' ? 7000 : 5000;
         setTimeout(() => {
             removeToast(id);
         }, duration);
@@ -200,7 +207,7 @@ const ToastProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
             {children}
             <div className="fixed top-5 right-5 z-[100] w-full max-w-xs sm:max-w-sm space-y-3">
                 {toasts.map(toast => (
-                    <Toast key={toast.id} message={toast.message} type={toast.type} onClose={() => removeToast(toast.id)} />
+                    <Toast key={toast.id} message={toast.message} type={toast.type} action={toast.action} onClose={() => removeToast(toast.id)} />
                 ))}
             </div>
         </ToastContext.Provider>
@@ -210,9 +217,10 @@ const ToastProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
 interface ToastProps {
     message: string;
     type: ToastMessage['type'];
+    action?: ToastAction;
     onClose: () => void;
 }
-const Toast: React.FC<ToastProps> = ({ message, type, onClose }) => {
+const Toast: React.FC<ToastProps> = ({ message, type, action, onClose }) => {
     const [isExiting, setIsExiting] = useState(false);
 
     const bgColor = useMemo(() => {
@@ -240,6 +248,11 @@ const Toast: React.FC<ToastProps> = ({ message, type, onClose }) => {
         setTimeout(onClose, 300); 
     };
 
+    const handleAction = () => {
+        action?.onClick();
+        handleClose();
+    };
+
     return (
         <div 
             role="alert" 
@@ -250,6 +263,11 @@ const Toast: React.FC<ToastProps> = ({ message, type, onClose }) => {
                 {icon && <span className="mr-2 text-lg">{icon}</span>}
                 <p className="text-sm">{message}</p>
             </div>
+            {action && (
+                <button onClick={handleAction} className="ml-3 px-2 py-1 rounded-md bg-white/20 hover:bg-white/30 text-sm font-semibold whitespace-nowrap focus:outline-none focus:ring-2 focus:ring-white/50">
+                    {action.label}
+                </button>
+            )}
             <button onClick={handleClose} aria-label="Close notification" className="ml-4 p-1 rounded-md hover:bg-black/20 focus:outline-none focus:ring-2 focus:ring-white/50 text-xl leading-none">&times;</button>
         </div>
     );
@@ -270,12 +288,23 @@ const GlobalSpinner: React.FC<{ isLoading: boolean }> = ({ isLoading }) => {
 };
 
 
+// Flashcard direction: which side of the card is shown first
+type CardDirection = 'enToKo' | 'koToEn';
+type CardDirectionMode = CardDirection | 'mixed';
+
+const CARD_DIRECTION_MODE_LABELS: Record<CardDirectionMode, string> = {
+    enToKo: '영어 → 뜻',
+    koToEn: '뜻 → 영어',
+    mixed: '섞어서',
+};
+
 // Define types for user settings
 interface UserSettings {
     grade: string;
     textbook: string; 
     dailyGoal: number;
     username: string;
+    cardDirection: CardDirectionMode; // Default flashcard direction for new sessions
 }
 
 // Define props for screen components
@@ -288,10 +317,13 @@ interface ScreenProps {
     openSettingsModal: () => void; // Added for opening settings modal
 }
 
-type AppScreen = 'loginSetup' | 'dashboard' | 'learnWords' | 'quiz' | 'allWords' | 'stats' | 'manageWords';
+type AppScreen = 'loginSetup' | 'dashboard' | 'learnWords' | 'review' | 'quiz' | 'wrongNotes' | 'matchingGame' | 'allWords' | 'stats' | 'manageWords' | 'printTest';
+
+// Custom words use random UUIDs ("custom:<old id>" when migrated from schema v1); built-in words are namespaced by their pack ("<packId>:<n>")
+type WordId = string;
 
 interface Word {
-    id: number | string; 
+    id: WordId;
     term: string; 
     pronunciation?: string; 
     partOfSpeech: string; 
@@ -303,386 +335,314 @@ interface Word {
 }
 
 interface WordStat {
-    id: number | string;
+    id: WordId;
     isMastered: boolean;
     lastReviewed: string | null; 
     quizIncorrectCount: number;
+    // Spaced repetition (SM-2) scheduling state
+    easeFactor: number;
+    interval: number; // days until the next review
+    repetitions: number; // consecutive successful recalls
+    lapses: number;
+    dueDate: string | null; // YYYY-MM-DD, null for words never studied
+    directionStats: Record<CardDirection, DirectionStat>;
+    confusedWordIds: WordId[]; // Words picked instead of this one in quizzes, most recent first
+    wrongNote: WrongNote | null; // Set while the word is in the wrong-answer notebook
+    matchingMismatchCount: number; // Wrong pairings in the matching game
+}
+
+// One missed quiz question, kept in the wrong-answer notebook (오답노트)
+interface WrongAnswerRecord {
+    date: string; // ISO timestamp
+    mode: QuizMode;
+    prompt: string;
+    chosenAnswer: string;
+}
+
+interface WrongNote {
+    misses: WrongAnswerRecord[]; // Most recent first
+    correctStreak: number; // Consecutive correct quiz answers since the last miss
+}
+
+// Flashcard results for one direction of a word
+interface DirectionStat {
+    reviewCount: number;
+    failedCount: number; // Reviews graded as a failed recall ("다시")
+    lastReviewed: string | null;
 }
 
+// Quiz question types
+type QuizMode = 'meaning' | 'spelling' | 'dictation' | 'cloze';
+
+const QUIZ_MODE_LABELS: Record<QuizMode, string> = {
+    meaning: '뜻 고르기',
+    spelling: '철자 쓰기',
+    dictation: '받아쓰기',
+    cloze: '빈칸 채우기',
+};
+
+// Where quiz questions are drawn from
+type QuizSource = 'currentGrade' | 'customWords' | 'wrongNote' | 'wrongWords' | 'masteredWords' | 'grades';
+
+const QUIZ_SOURCE_LABELS: Record<QuizSource, string> = {
+    currentGrade: '현재 학년',
+    customWords: '나의 단어',
+    wrongNote: '오답노트',
+    wrongWords: '틀렸던 단어 (전체)',
+    masteredWords: '완료한 단어 다시 확인',
+    grades: '학년 직접 선택',
+};
+
+const GRADE_LABELS: Record<string, string> = {
+    middle1: '중1',
+    middle2: '중2',
+    middle3: '중3',
+};
+
+const QUIZ_LENGTH_OPTIONS = [5, 10, 20, 30];
+
+interface QuizConfig {
+    source: QuizSource;
+    grades: string[]; // Used when source is 'grades'
+    questionCount: number; // 0 = every word in the pool
+    mode: QuizMode;
+    timeLimitSeconds?: number; // Set for a speed challenge, which always uses meaning questions
+}
+
+// Speed challenge scoring: each correct answer is worth base points times the combo multiplier
+const SPEED_CHALLENGE_SECONDS = 60;
+const SPEED_CHALLENGE_BASE_POINTS = 10;
+const SPEED_CHALLENGE_BESTS_PER_GRADE = 5;
+
+const getComboMultiplier = (combo: number) => Math.min(4, 1 + Math.floor(combo / 3));
+
+// How a cloze blank is answered
+type ClozeAnswerStyle = 'choice' | 'typing';
+
+const CLOZE_ANSWER_STYLE_LABELS: Record<ClozeAnswerStyle, string> = {
+    choice: '보기에서 고르기',
+    typing: '직접 쓰기',
+};
+
+// What is read aloud in dictation mode
+type DictationTarget = 'term' | 'sentence';
 
-const sampleWords: Word[] = [
-    // OCR Page 1 Words (1-60) -> gradeLevel: "middle1"
-    { id: 1, term: "person", partOfSpeech: "명사", meaning: "사람", exampleSentence: "This is a person.", exampleSentenceMeaning: "이것은 사람입니다.", gradeLevel: "middle1" },
-    { id: 2, term: "life", partOfSpeech: "명사", meaning: "삶, 생명", exampleSentence: "This is a life.", exampleSentenceMeaning: "이것은 삶입니다.", gradeLevel: "middle1" },
-    { id: 3, term: "job", partOfSpeech: "명사", meaning: "일, 직업", exampleSentence: "This is a job.", exampleSentenceMeaning: "이것은 일입니다.", gradeLevel: "middle1" },
-    { id: 4, term: "country", partOfSpeech: "명사", meaning: "국가, 시골", exampleSentence: "This is a country.", exampleSentenceMeaning: "이것은 국가입니다.", gradeLevel: "middle1" },
-    { id: 5, term: "earth", partOfSpeech: "명사", meaning: "지구, 흙", exampleSentence: "This is an earth.", exampleSentenceMeaning: "이것은 지구입니다.", gradeLevel: "middle1" },
-    { id: 6, term: "problem", partOfSpeech: "명사", meaning: "문제", exampleSentence: "This is a problem.", exampleSentenceMeaning: "이것은 문제입니다.", gradeLevel: "middle1" },
-    { id: 7, term: "way", partOfSpeech: "명사", meaning: "길, 방법", exampleSentence: "This is a way.", exampleSentenceMeaning: "이것은 길입니다.", gradeLevel: "middle1" },
-    { id: 8, term: "language", partOfSpeech: "명사", meaning: "언어", exampleSentence: "This is a language.", exampleSentenceMeaning: "이것은 언어입니다.", gradeLevel: "middle1" },
-    { id: 9, term: "story", partOfSpeech: "명사", meaning: "이야기, 충", exampleSentence: "This is a story.", exampleSentenceMeaning: "이것은 이야기입니다.", gradeLevel: "middle1" },
-    { id: 10, term: "lot", partOfSpeech: "명사", meaning: "운, 운세", exampleSentence: "This is a lot.", exampleSentenceMeaning: "이것은 운입니다.", gradeLevel: "middle1" },
-    { id: 11, term: "name", partOfSpeech: "명사", meaning: "이름", exampleSentence: "This is a name.", exampleSentenceMeaning: "이것은 이름입니다.", gradeLevel: "middle1" },
-    { id: 12, term: "hand", partOfSpeech: "명사", meaning: "손, 건네다", exampleSentence: "This is a hand.", exampleSentenceMeaning: "이것은 손입니다.", gradeLevel: "middle1" },
-    { id: 13, term: "place", partOfSpeech: "명사", meaning: "장소", exampleSentence: "This is a place.", exampleSentenceMeaning: "이것은 장소입니다.", gradeLevel: "middle1" },
-    { id: 14, term: "practice", partOfSpeech: "명사", meaning: "연습, 실천", exampleSentence: "This is a practice.", exampleSentenceMeaning: "이것은 연습입니다.", gradeLevel: "middle1" },
-    { id: 15, term: "work", partOfSpeech: "명사", meaning: "일, 작품", exampleSentence: "This is a work.", exampleSentenceMeaning: "이것은 일입니다.", gradeLevel: "middle1" },
-    { id: 16, term: "use", partOfSpeech: "동사", meaning: "사용하다", exampleSentence: "I like to use.", exampleSentenceMeaning: "나는 사용하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 17, term: "kind", partOfSpeech: "형용사", meaning: "친절한, 종류", exampleSentence: "It is very kind.", exampleSentenceMeaning: "그것은 매우 친절한합니다.", gradeLevel: "middle1" },
-    { id: 18, term: "fun", partOfSpeech: "명사", meaning: "재미", exampleSentence: "This is fun.", exampleSentenceMeaning: "이것은 재미입니다.", gradeLevel: "middle1" },
-    { id: 19, term: "future", partOfSpeech: "명사", meaning: "미래", exampleSentence: "This is the future.", exampleSentenceMeaning: "이것은 미래입니다.", gradeLevel: "middle1" },
-    { id: 20, term: "have", partOfSpeech: "동사", meaning: "가지다", exampleSentence: "I like to have.", exampleSentenceMeaning: "나는 가지는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 21, term: "make", partOfSpeech: "동사", meaning: "만들다", exampleSentence: "I like to make.", exampleSentenceMeaning: "나는 만드는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 22, term: "let", partOfSpeech: "동사", meaning: "~하게 해주다", exampleSentence: "I like to let.", exampleSentenceMeaning: "나는 ~하게 해주는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 23, term: "get", partOfSpeech: "동사", meaning: "얻다, 취하다", exampleSentence: "I like to get.", exampleSentenceMeaning: "나는 얻는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 24, term: "take", partOfSpeech: "동사", meaning: "가져가다", exampleSentence: "I like to take.", exampleSentenceMeaning: "나는 가져가는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 25, term: "different", partOfSpeech: "형용사", meaning: "다른, 다양한", exampleSentence: "It is very different.", exampleSentenceMeaning: "그것은 매우 다른합니다.", gradeLevel: "middle1" },
-    { id: 26, term: "important", partOfSpeech: "형용사", meaning: "중요한", exampleSentence: "It is very important.", exampleSentenceMeaning: "그것은 매우 중요한합니다.", gradeLevel: "middle1" },
-    { id: 27, term: "right", partOfSpeech: "형용사", meaning: "옳은, 권리", exampleSentence: "It is very right.", exampleSentenceMeaning: "그것은 매우 옳은합니다.", gradeLevel: "middle1" },
-    { id: 28, term: "sure", partOfSpeech: "형용사", meaning: "확실한", exampleSentence: "It is very sure.", exampleSentenceMeaning: "그것은 매우 확실한합니다.", gradeLevel: "middle1" },
-    { id: 29, term: "well", partOfSpeech: "부사", meaning: "잘, 우물", exampleSentence: "He works well.", exampleSentenceMeaning: "그는 잘 일해요.", gradeLevel: "middle1" },
-    { id: 30, term: "hard", partOfSpeech: "형용사", meaning: "딱딱한, 열심히", exampleSentence: "It is very hard.", exampleSentenceMeaning: "그것은 매우 딱딱한합니다.", gradeLevel: "middle1" },
-    { id: 31, term: "clothes", partOfSpeech: "명사", meaning: "천, 옷감", exampleSentence: "These are clothes.", exampleSentenceMeaning: "이것들은 천입니다.", gradeLevel: "middle1" },
-    { id: 32, term: "movie", partOfSpeech: "명사", meaning: "영화", exampleSentence: "This is a movie.", exampleSentenceMeaning: "이것은 영화입니다.", gradeLevel: "middle1" },
-    { id: 33, term: "activity", partOfSpeech: "명사", meaning: "활동", exampleSentence: "This is an activity.", exampleSentenceMeaning: "이것은 활동입니다.", gradeLevel: "middle1" },
-    { id: 34, term: "example", partOfSpeech: "명사", meaning: "예, 사례", exampleSentence: "This is an example.", exampleSentenceMeaning: "이것은 예입니다.", gradeLevel: "middle1" },
-    { id: 35, term: "dialogue", partOfSpeech: "명사", meaning: "대화", exampleSentence: "This is a dialogue.", exampleSentenceMeaning: "이것은 대화입니다.", gradeLevel: "middle1" },
-    { id: 36, term: "letter", partOfSpeech: "명사", meaning: "편지", exampleSentence: "This is a letter.", exampleSentenceMeaning: "이것은 편지입니다.", gradeLevel: "middle1" },
-    { id: 37, term: "fire", partOfSpeech: "명사", meaning: "불, 해고하다", exampleSentence: "This is a fire.", exampleSentenceMeaning: "이것은 불입니다.", gradeLevel: "middle1" },
-    { id: 38, term: "minute", partOfSpeech: "명사", meaning: "분", exampleSentence: "This is a minute.", exampleSentenceMeaning: "이것은 분입니다.", gradeLevel: "middle1" },
-    { id: 39, term: "part", partOfSpeech: "명사", meaning: "부분, 일부", exampleSentence: "This is a part.", exampleSentenceMeaning: "이것은 부분입니다.", gradeLevel: "middle1" },
-    { id: 40, term: "plan", partOfSpeech: "명사", meaning: "계획", exampleSentence: "This is a plan.", exampleSentenceMeaning: "이것은 계획입니다.", gradeLevel: "middle1" },
-    { id: 41, term: "plant", partOfSpeech: "명사", meaning: "식물, 심다", exampleSentence: "This is a plant.", exampleSentenceMeaning: "이것은 식물입니다.", gradeLevel: "middle1" },
-    { id: 42, term: "park", partOfSpeech: "명사", meaning: "공원, 주차하다", exampleSentence: "This is a park.", exampleSentenceMeaning: "이것은 공원입니다.", gradeLevel: "middle1" },
-    { id: 43, term: "call", partOfSpeech: "동사", meaning: "부르다, 전화하다", exampleSentence: "I like to call.", exampleSentenceMeaning: "나는 부르는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 44, term: "try", partOfSpeech: "동사", meaning: "노력하다", exampleSentence: "I like to try.", exampleSentenceMeaning: "나는 노력하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 45, term: "need", partOfSpeech: "동사", meaning: "필요로 하다", exampleSentence: "I like to need.", exampleSentenceMeaning: "나는 필요로 하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 46, term: "keep", partOfSpeech: "동사", meaning: "지키다, 유지하다", exampleSentence: "I like to keep.", exampleSentenceMeaning: "나는 지키는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 47, term: "listen", partOfSpeech: "동사", meaning: "듣다", exampleSentence: "I like to listen.", exampleSentenceMeaning: "나는 듣는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 48, term: "find", partOfSpeech: "동사", meaning: "찾다, 발견하다", exampleSentence: "I like to find.", exampleSentenceMeaning: "나는 찾는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 49, term: "learn", partOfSpeech: "동사", meaning: "배우다", exampleSentence: "I like to learn.", exampleSentenceMeaning: "나는 배우는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 50, term: "live", partOfSpeech: "동사", meaning: "살다", exampleSentence: "I like to live.", exampleSentenceMeaning: "나는 사는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 51, term: "mean", partOfSpeech: "동사", meaning: "의미하다", exampleSentence: "I like to mean.", exampleSentenceMeaning: "나는 의미하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 52, term: "last", partOfSpeech: "동사", meaning: "지속하다", exampleSentence: "I like to last.", exampleSentenceMeaning: "나는 지속하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 53, term: "any", partOfSpeech: "형용사", meaning: "어떤", exampleSentence: "It is very any.", exampleSentenceMeaning: "그것은 매우 어떤합니다.", gradeLevel: "middle1" },
-    { id: 54, term: "each", partOfSpeech: "형용사", meaning: "각각의", exampleSentence: "It is very each.", exampleSentenceMeaning: "그것은 매우 각각의합니다.", gradeLevel: "middle1" },
-    { id: 55, term: "other", partOfSpeech: "형용사", meaning: "다른", exampleSentence: "It is very other.", exampleSentenceMeaning: "그것은 매우 다른합니다.", gradeLevel: "middle1" },
-    { id: 56, term: "another", partOfSpeech: "형용사", meaning: "또 다른", exampleSentence: "It is very another.", exampleSentenceMeaning: "그것은 매우 또 다른합니다.", gradeLevel: "middle1" },
-    { id: 57, term: "same", partOfSpeech: "형용사", meaning: "같은", exampleSentence: "It is very same.", exampleSentenceMeaning: "그것은 매우 같은합니다.", gradeLevel: "middle1" },
-    { id: 58, term: "too", partOfSpeech: "부사", meaning: "또한, 너무", exampleSentence: "He works too.", exampleSentenceMeaning: "그는 또한 일해요.", gradeLevel: "middle1" },
-    { id: 59, term: "also", partOfSpeech: "부사", meaning: "또한", exampleSentence: "He works also.", exampleSentenceMeaning: "그는 또한 일해요.", gradeLevel: "middle1" },
-    { id: 60, term: "really", partOfSpeech: "부사", meaning: "정말로", exampleSentence: "He works really.", exampleSentenceMeaning: "그는 정말로 일해요.", gradeLevel: "middle1" },
-    { id: 61, term: "bird", partOfSpeech: "명사", meaning: "새", exampleSentence: "This is a bird.", exampleSentenceMeaning: "이것은 새입니다.", gradeLevel: "middle1" },
-    { id: 62, term: "restaurant", partOfSpeech: "명사", meaning: "식당", exampleSentence: "This is a restaurant.", exampleSentenceMeaning: "이것은 식당입니다.", gradeLevel: "middle1" },
-    { id: 63, term: "trip", partOfSpeech: "명사", meaning: "여행, 출장", exampleSentence: "This is a trip.", exampleSentenceMeaning: "이것은 여행입니다.", gradeLevel: "middle1" },
-    { id: 64, term: "vacation", partOfSpeech: "명사", meaning: "휴가, 방학", exampleSentence: "This is a vacation.", exampleSentenceMeaning: "이것은 휴가입니다.", gradeLevel: "middle1" },
-    { id: 65, term: "space", partOfSpeech: "명사", meaning: "공간, 우주", exampleSentence: "This is a space.", exampleSentenceMeaning: "이것은 공간입니다.", gradeLevel: "middle1" },
-    { id: 66, term: "street", partOfSpeech: "명사", meaning: "거리", exampleSentence: "This is a street.", exampleSentenceMeaning: "이것은 거리입니다.", gradeLevel: "middle1" },
-    { id: 67, term: "side", partOfSpeech: "명사", meaning: "측, 입장", exampleSentence: "This is a side.", exampleSentenceMeaning: "이것은 측입니다.", gradeLevel: "middle1" },
-    { id: 68, term: "paper", partOfSpeech: "명사", meaning: "종이", exampleSentence: "This is a paper.", exampleSentenceMeaning: "이것은 종이입니다.", gradeLevel: "middle1" },
-    { id: 69, term: "newspaper", partOfSpeech: "명사", meaning: "신문", exampleSentence: "This is a newspaper.", exampleSentenceMeaning: "이것은 신문입니다.", gradeLevel: "middle1" },
-    { id: 70, term: "face", partOfSpeech: "명사", meaning: "얼굴, 마주하다", exampleSentence: "This is a face.", exampleSentenceMeaning: "이것은 얼굴입니다.", gradeLevel: "middle1" },
-    { id: 71, term: "mind", partOfSpeech: "명사", meaning: "마음, 꺼리다", exampleSentence: "This is a mind.", exampleSentenceMeaning: "이것은 마음입니다.", gradeLevel: "middle1" },
-    { id: 72, term: "change", partOfSpeech: "동사", meaning: "변화하다", exampleSentence: "I like to change.", exampleSentenceMeaning: "나는 변화하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 73, term: "visit", partOfSpeech: "동사", meaning: "방문하다", exampleSentence: "I like to visit.", exampleSentenceMeaning: "나는 방문하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 74, term: "start", partOfSpeech: "동사", meaning: "시작하다", exampleSentence: "I like to start.", exampleSentenceMeaning: "나는 시작하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 75, term: "watch", partOfSpeech: "동사", meaning: "주시하다", exampleSentence: "I like to watch.", exampleSentenceMeaning: "나는 주시하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 76, term: "light", partOfSpeech: "명사", meaning: "빛, 가벼운", exampleSentence: "This is a light.", exampleSentenceMeaning: "이것은 빛입니다.", gradeLevel: "middle1" },
-    { id: 77, term: "present", partOfSpeech: "명사", meaning: "현재, 선물", exampleSentence: "This is a present.", exampleSentenceMeaning: "이것은 현재입니다.", gradeLevel: "middle1" },
-    { id: 78, term: "middle", partOfSpeech: "명사", meaning: "중간의", exampleSentence: "This is the middle.", exampleSentenceMeaning: "이것은 중간의입니다.", gradeLevel: "middle1" },
-    { id: 79, term: "favorite", partOfSpeech: "형용사", meaning: "좋아하는", exampleSentence: "It is very favorite.", exampleSentenceMeaning: "그것은 매우 좋아하는합니다.", gradeLevel: "middle1" },
-    { id: 80, term: "enjoy", partOfSpeech: "동사", meaning: "즐기다", exampleSentence: "I like to enjoy.", exampleSentenceMeaning: "나는 즐기는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 81, term: "win", partOfSpeech: "동사", meaning: "이기다, 획득하다", exampleSentence: "I like to win.", exampleSentenceMeaning: "나는 이기는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 82, term: "understand", partOfSpeech: "동사", meaning: "이해하다", exampleSentence: "I like to understand.", exampleSentenceMeaning: "나는 이해하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 83, term: "warm", partOfSpeech: "형용사", meaning: "따뜻한", exampleSentence: "It is very warm.", exampleSentenceMeaning: "그것은 매우 따뜻한합니다.", gradeLevel: "middle1" },
-    { id: 84, term: "clean", partOfSpeech: "동사", meaning: "청소하다", exampleSentence: "I like to clean.", exampleSentenceMeaning: "나는 청소하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 85, term: "own", partOfSpeech: "형용사", meaning: "자신의, 소유하다", exampleSentence: "It is very own.", exampleSentenceMeaning: "그것은 매우 자신의합니다.", gradeLevel: "middle1" },
-    { id: 86, term: "interesting", partOfSpeech: "형용사", meaning: "흥미로운", exampleSentence: "It is very interesting.", exampleSentenceMeaning: "그것은 매우 흥미로운합니다.", gradeLevel: "middle1" },
-    { id: 87, term: "famous", partOfSpeech: "형용사", meaning: "유명한", exampleSentence: "It is very famous.", exampleSentenceMeaning: "그것은 매우 유명한합니다.", gradeLevel: "middle1" },
-    { id: 88, term: "special", partOfSpeech: "형용사", meaning: "특별한", exampleSentence: "It is very special.", exampleSentenceMeaning: "그것은 매우 특별한합니다.", gradeLevel: "middle1" },
-    { id: 89, term: "fast", partOfSpeech: "형용사", meaning: "빠른", exampleSentence: "It is very fast.", exampleSentenceMeaning: "그것은 매우 빠른합니다.", gradeLevel: "middle1" },
-    { id: 90, term: "only", partOfSpeech: "부사", meaning: "오직, 유일한", exampleSentence: "He works only.", exampleSentenceMeaning: "그는 오직 일해요.", gradeLevel: "middle1" },
-    { id: 91, term: "nature", partOfSpeech: "명사", meaning: "자연, 본성", exampleSentence: "This is nature.", exampleSentenceMeaning: "이것은 자연입니다.", gradeLevel: "middle1" },
-    { id: 92, term: "state", partOfSpeech: "명사", meaning: "상태, 진술하다", exampleSentence: "This is a state.", exampleSentenceMeaning: "이것은 상태입니다.", gradeLevel: "middle1" },
-    { id: 93, term: "island", partOfSpeech: "명사", meaning: "섬", exampleSentence: "This is an island.", exampleSentenceMeaning: "이것은 섬입니다.", gradeLevel: "middle1" },
-    { id: 94, term: "group", partOfSpeech: "명사", meaning: "무리, 무리 짓다", exampleSentence: "This is a group.", exampleSentenceMeaning: "이것은 무리입니다.", gradeLevel: "middle1" },
-    { id: 95, term: "soldier", partOfSpeech: "명사", meaning: "군인", exampleSentence: "This is a soldier.", exampleSentenceMeaning: "이것은 군인입니다.", gradeLevel: "middle1" },
-    { id: 96, term: "habit", partOfSpeech: "명사", meaning: "습관", exampleSentence: "This is a habit.", exampleSentenceMeaning: "이것은 습관입니다.", gradeLevel: "middle1" },
-    { id: 97, term: "culture", partOfSpeech: "명사", meaning: "문화", exampleSentence: "This is a culture.", exampleSentenceMeaning: "이것은 문화입니다.", gradeLevel: "middle1" },
-    { id: 98, term: "history", partOfSpeech: "명사", meaning: "역사", exampleSentence: "This is history.", exampleSentenceMeaning: "이것은 역사입니다.", gradeLevel: "middle1" },
-    { id: 99, term: "information", partOfSpeech: "명사", meaning: "정보", exampleSentence: "This is information.", exampleSentenceMeaning: "이것은 정보입니다.", gradeLevel: "middle1" },
-    { id: 100, term: "advertisement", partOfSpeech: "명사", meaning: "광고", exampleSentence: "This is an advertisement.", exampleSentenceMeaning: "이것은 광고입니다.", gradeLevel: "middle1" },
-    { id: 101, term: "science", partOfSpeech: "명사", meaning: "과학", exampleSentence: "This is science.", exampleSentenceMeaning: "이것은 과학입니다.", gradeLevel: "middle1" },
-    { id: 102, term: "war", partOfSpeech: "명사", meaning: "전쟁", exampleSentence: "This is a war.", exampleSentenceMeaning: "이것은 전쟁입니다.", gradeLevel: "middle1" },
-    { id: 103, term: "store", partOfSpeech: "명사", meaning: "상점, 저장하다", exampleSentence: "This is a store.", exampleSentenceMeaning: "이것은 상점입니다.", gradeLevel: "middle1" },
-    { id: 104, term: "sound", partOfSpeech: "명사", meaning: "소리, 들리다", exampleSentence: "This is a sound.", exampleSentenceMeaning: "이것은 소리입니다.", gradeLevel: "middle1" },
-    { id: 105, term: "point", partOfSpeech: "명사", meaning: "핵심, 가리키다", exampleSentence: "This is a point.", exampleSentenceMeaning: "이것은 핵심입니다.", gradeLevel: "middle1" },
-    { id: 106, term: "land", partOfSpeech: "동사", meaning: "착륙하다", exampleSentence: "I like to land.", exampleSentenceMeaning: "나는 착륙하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 107, term: "turn", partOfSpeech: "동사", meaning: "차례, 회전하다", exampleSentence: "I like to turn.", exampleSentenceMeaning: "나는 차례는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 108, term: "fly", partOfSpeech: "동사", meaning: "날다, 파리", exampleSentence: "I like to fly.", exampleSentenceMeaning: "나는 나는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 109, term: "begin", partOfSpeech: "동사", meaning: "시작하다", exampleSentence: "I like to begin.", exampleSentenceMeaning: "나는 시작하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 110, term: "grow", partOfSpeech: "동사", meaning: "자라다", exampleSentence: "I like to grow.", exampleSentenceMeaning: "나는 자라는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 111, term: "believe", partOfSpeech: "동사", meaning: "믿다", exampleSentence: "I like to believe.", exampleSentenceMeaning: "나는 믿는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 112, term: "worry", partOfSpeech: "동사", meaning: "걱정하다", exampleSentence: "I like to worry.", exampleSentenceMeaning: "나는 걱정하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 113, term: "save", partOfSpeech: "동사", meaning: "구하다, 저장하다", exampleSentence: "I like to save.", exampleSentenceMeaning: "나는 구하는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 114, term: "please", partOfSpeech: "동사", meaning: "만족시키다", exampleSentence: "I like to please.", exampleSentenceMeaning: "나는 만족시키는 것을 좋아해요.", gradeLevel: "middle1" },
-    { id: 115, term: "easy", partOfSpeech: "형용사", meaning: "쉬운", exampleSentence: "It is very easy.", exampleSentenceMeaning: "그것은 매우 쉬운합니다.", gradeLevel: "middle1" },
-    { id: 116, term: "poor", partOfSpeech: "형용사", meaning: "가난한, 어설픈", exampleSentence: "It is very poor.", exampleSentenceMeaning: "그것은 매우 가난한합니다.", gradeLevel: "middle1" },
-    { id: 117, term: "such", partOfSpeech: "형용사", meaning: "그러한, 그렇게", exampleSentence: "It is very such.", exampleSentenceMeaning: "그것은 매우 그러한합니다.", gradeLevel: "middle1" },
-    { id: 118, term: "just", partOfSpeech: "부사", meaning: "단지, 정당한", exampleSentence: "He works just.", exampleSentenceMeaning: "그는 단지 일해요.", gradeLevel: "middle1" },
-    { id: 119, term: "back", partOfSpeech: "명사", meaning: "뒤, 등", exampleSentence: "This is the back.", exampleSentenceMeaning: "이것은 뒤입니다.", gradeLevel: "middle1" },
-    { id: 120, term: "always", partOfSpeech: "부사", meaning: "항상", exampleSentence: "He works always.", exampleSentenceMeaning: "그는 항상 일해요.", gradeLevel: "middle1" },
-    { id: 121, term: "village", partOfSpeech: "명사", meaning: "마을", exampleSentence: "This is a village.", exampleSentenceMeaning: "이것은 마을입니다.", gradeLevel: "middle2" },
-    { id: 122, term: "forest", partOfSpeech: "명사", meaning: "숲", exampleSentence: "This is a forest.", exampleSentenceMeaning: "이것은 숲입니다.", gradeLevel: "middle2" },
-    { id: 123, term: "leaf", partOfSpeech: "명사", meaning: "나뭇잎", exampleSentence: "This is a leaf.", exampleSentenceMeaning: "이것은 나뭇잎입니다.", gradeLevel: "middle2" },
-    { id: 124, term: "vegetable", partOfSpeech: "명사", meaning: "채소", exampleSentence: "This is a vegetable.", exampleSentenceMeaning: "이것은 채소입니다.", gradeLevel: "middle2" },
-    { id: 125, term: "office", partOfSpeech: "명사", meaning: "사무실", exampleSentence: "This is an office.", exampleSentenceMeaning: "이것은 사무실입니다.", gradeLevel: "middle2" },
-    { id: 126, term: "machine", partOfSpeech: "명사", meaning: "기계", exampleSentence: "This is a machine.", exampleSentenceMeaning: "이것은 기계입니다.", gradeLevel: "middle2" },
-    { id: 127, term: "area", partOfSpeech: "명사", meaning: "지역, 영역", exampleSentence: "This is an area.", exampleSentenceMeaning: "이것은 지역입니다.", gradeLevel: "middle2" },
-    { id: 128, term: "piece", partOfSpeech: "명사", meaning: "조각", exampleSentence: "This is a piece.", exampleSentenceMeaning: "이것은 조각입니다.", gradeLevel: "middle2" },
-    { id: 129, term: "grace", partOfSpeech: "명사", meaning: "은혜, 은총", exampleSentence: "This is a grace.", exampleSentenceMeaning: "이것은 은혜입니다.", gradeLevel: "middle2" },
-    { id: 130, term: "spring", partOfSpeech: "명사", meaning: "봄, 샘물, 튀다", exampleSentence: "This is a spring.", exampleSentenceMeaning: "이것은 봄입니다.", gradeLevel: "middle2" },
-    { id: 131, term: "rock", partOfSpeech: "명사", meaning: "바위, 흔들다", exampleSentence: "This is a rock.", exampleSentenceMeaning: "이것은 바위입니다.", gradeLevel: "middle2" },
-    { id: 132, term: "line", partOfSpeech: "명사", meaning: "선", exampleSentence: "This is a line.", exampleSentenceMeaning: "이것은 선입니다.", gradeLevel: "middle2" },
-    { id: 133, term: "exercise", partOfSpeech: "동사", meaning: "운동하다", exampleSentence: "I like to exercise.", exampleSentenceMeaning: "나는 운동하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 134, term: "end", partOfSpeech: "명사", meaning: "끝, 목적", exampleSentence: "This is the end.", exampleSentenceMeaning: "이것은 끝입니다.", gradeLevel: "middle2" },
-    { id: 135, term: "cook", partOfSpeech: "동사", meaning: "요리하다", exampleSentence: "I like to cook.", exampleSentenceMeaning: "나는 요리하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 136, term: "fall", partOfSpeech: "동사", meaning: "떨어지다, 가을", exampleSentence: "I like to fall.", exampleSentenceMeaning: "나는 떨어지는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 137, term: "front", partOfSpeech: "명사", meaning: "앞, 전면", exampleSentence: "This is the front.", exampleSentenceMeaning: "이것은 앞입니다.", gradeLevel: "middle2" },
-    { id: 138, term: "second", partOfSpeech: "명사", meaning: "두 번째, 초", exampleSentence: "This is a second.", exampleSentenceMeaning: "이것은 두 번째입니다.", gradeLevel: "middle2" },
-    { id: 139, term: "cold", partOfSpeech: "형용사", meaning: "추운, 감기", exampleSentence: "It is very cold.", exampleSentenceMeaning: "그것은 매우 추운합니다.", gradeLevel: "middle2" },
-    { id: 140, term: "happen", partOfSpeech: "동사", meaning: "일어나다", exampleSentence: "I like to happen.", exampleSentenceMeaning: "나는 일어나는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 141, term: "leave", partOfSpeech: "동사", meaning: "떠나다, 방치하다", exampleSentence: "I like to leave.", exampleSentenceMeaning: "나는 떠나는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 142, term: "remember", partOfSpeech: "동사", meaning: "기억하다", exampleSentence: "I like to remember.", exampleSentenceMeaning: "나는 기억하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 143, term: "wear", partOfSpeech: "동사", meaning: "입다, 닳다", exampleSentence: "I like to wear.", exampleSentenceMeaning: "나는 입는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 144, term: "move", partOfSpeech: "동사", meaning: "움직이다", exampleSentence: "I like to move.", exampleSentenceMeaning: "나는 움직이는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 145, term: "send", partOfSpeech: "동사", meaning: "보내다", exampleSentence: "I like to send.", exampleSentenceMeaning: "나는 보내는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 146, term: "large", partOfSpeech: "형용사", meaning: "큰, 거대한", exampleSentence: "It is very large.", exampleSentenceMeaning: "그것은 매우 큰합니다.", gradeLevel: "middle2" },
-    { id: 147, term: "hot", partOfSpeech: "형용사", meaning: "뜨거운, 매운", exampleSentence: "It is very hot.", exampleSentenceMeaning: "그것은 매우 뜨거운합니다.", gradeLevel: "middle2" },
-    { id: 148, term: "early", partOfSpeech: "부사", meaning: "일찍", exampleSentence: "He works early.", exampleSentenceMeaning: "그는 일찍 일해요.", gradeLevel: "middle2" },
-    { id: 149, term: "often", partOfSpeech: "부사", meaning: "종종, 자주", exampleSentence: "He works often.", exampleSentenceMeaning: "그는 종종 일해요.", gradeLevel: "middle2" },
-    { id: 150, term: "sometimes", partOfSpeech: "부사", meaning: "때때로", exampleSentence: "He works sometimes.", exampleSentenceMeaning: "그는 때때로 일해요.", gradeLevel: "middle2" },
-    { id: 151, term: "neighbor", partOfSpeech: "명사", meaning: "이웃, 동네", exampleSentence: "This is a neighbor.", exampleSentenceMeaning: "이것은 이웃입니다.", gradeLevel: "middle2" },
-    { id: 152, term: "pet", partOfSpeech: "명사", meaning: "애완동물", exampleSentence: "This is a pet.", exampleSentenceMeaning: "이것은 애완동물입니다.", gradeLevel: "middle2" },
-    { id: 153, term: "bottle", partOfSpeech: "명사", meaning: "병", exampleSentence: "This is a bottle.", exampleSentenceMeaning: "이것은 병입니다.", gradeLevel: "middle2" },
-    { id: 154, term: "art", partOfSpeech: "명사", meaning: "예술, 기술", exampleSentence: "This is an art.", exampleSentenceMeaning: "이것은 예술입니다.", gradeLevel: "middle2" },
-    { id: 155, term: "poem", partOfSpeech: "명사", meaning: "시", exampleSentence: "This is a poem.", exampleSentenceMeaning: "이것은 시입니다.", gradeLevel: "middle2" },
-    { id: 156, term: "subject", partOfSpeech: "명사", meaning: "과목, 주제", exampleSentence: "This is a subject.", exampleSentenceMeaning: "이것은 과목입니다.", gradeLevel: "middle2" },
-    { id: 157, term: "weekend", partOfSpeech: "명사", meaning: "주말", exampleSentence: "This is a weekend.", exampleSentenceMeaning: "이것은 주말입니다.", gradeLevel: "middle2" },
-    { id: 158, term: "price", partOfSpeech: "명사", meaning: "가격", exampleSentence: "This is a price.", exampleSentenceMeaning: "이것은 가격입니다.", gradeLevel: "middle2" },
-    { id: 159, term: "custom", partOfSpeech: "명사", meaning: "관습", exampleSentence: "This is a custom.", exampleSentenceMeaning: "이것은 관습입니다.", gradeLevel: "middle2" },
-    { id: 160, term: "fact", partOfSpeech: "명사", meaning: "사실", exampleSentence: "This is a fact.", exampleSentenceMeaning: "이것은 사실입니다.", gradeLevel: "middle2" },
-    { id: 161, term: "rule", partOfSpeech: "명사", meaning: "규칙, 통치하다", exampleSentence: "This is a rule.", exampleSentenceMeaning: "이것은 규칙입니다.", gradeLevel: "middle2" },
-    { id: 162, term: "break", partOfSpeech: "동사", meaning: "깨다, 휴식", exampleSentence: "I like to break.", exampleSentenceMeaning: "나는 깨는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 163, term: "check", partOfSpeech: "동사", meaning: "확인하다", exampleSentence: "I like to check.", exampleSentenceMeaning: "나는 확인하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 164, term: "stay", partOfSpeech: "동사", meaning: "머물다", exampleSentence: "I like to stay.", exampleSentenceMeaning: "나는 머무는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 165, term: "bring", partOfSpeech: "동사", meaning: "가져오다", exampleSentence: "I like to bring.", exampleSentenceMeaning: "나는 가져오는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 166, term: "build", partOfSpeech: "동사", meaning: "짓다, 축적하다", exampleSentence: "I like to build.", exampleSentenceMeaning: "나는 짓는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 167, term: "join", partOfSpeech: "동사", meaning: "합류하다", exampleSentence: "I like to join.", exampleSentenceMeaning: "나는 합류하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 168, term: "lose", partOfSpeech: "동사", meaning: "지다, 길을 잃다", exampleSentence: "I like to lose.", exampleSentenceMeaning: "나는 지는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 169, term: "die", partOfSpeech: "동사", meaning: "죽다", exampleSentence: "I like to die.", exampleSentenceMeaning: "나는 죽는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 170, term: "half", partOfSpeech: "명사", meaning: "절반의", exampleSentence: "This is a half.", exampleSentenceMeaning: "이것은 절반의입니다.", gradeLevel: "middle2" },
-    { id: 171, term: "few", partOfSpeech: "형용사", meaning: "거의 없는", exampleSentence: "It is very few.", exampleSentenceMeaning: "그것은 매우 거의 없는합니다.", gradeLevel: "middle2" },
-    { id: 172, term: "both", partOfSpeech: "형용사", meaning: "둘 다", exampleSentence: "It is very both.", exampleSentenceMeaning: "그것은 매우 둘 다합니다.", gradeLevel: "middle2" },
-    { id: 173, term: "sick", partOfSpeech: "형용사", meaning: "아픈", exampleSentence: "It is very sick.", exampleSentenceMeaning: "그것은 매우 아픈합니다.", gradeLevel: "middle2" },
-    { id: 174, term: "busy", partOfSpeech: "형용사", meaning: "바쁜", exampleSentence: "It is very busy.", exampleSentenceMeaning: "그것은 매우 바쁜합니다.", gradeLevel: "middle2" },
-    { id: 175, term: "real", partOfSpeech: "형용사", meaning: "실제의, 진정한", exampleSentence: "It is very real.", exampleSentenceMeaning: "그것은 매우 실제의합니다.", gradeLevel: "middle2" },
-    { id: 176, term: "wrong", partOfSpeech: "형용사", meaning: "잘못된", exampleSentence: "It is very wrong.", exampleSentenceMeaning: "그것은 매우 잘못된합니다.", gradeLevel: "middle2" },
-    { id: 177, term: "most", partOfSpeech: "형용사", meaning: "대부분의", exampleSentence: "It is very most.", exampleSentenceMeaning: "그것은 매우 대부분의합니다.", gradeLevel: "middle2" },
-    { id: 178, term: "late", partOfSpeech: "형용사", meaning: "늦은", exampleSentence: "It is very late.", exampleSentenceMeaning: "그것은 매우 늦은합니다.", gradeLevel: "middle2" },
-    { id: 179, term: "together", partOfSpeech: "부사", meaning: "함께", exampleSentence: "He works together.", exampleSentenceMeaning: "그는 함께 일해요.", gradeLevel: "middle2" },
-    { id: 180, term: "even", partOfSpeech: "부사", meaning: "심지어, 평평한", exampleSentence: "He works even.", exampleSentenceMeaning: "그는 심지어 일해요.", gradeLevel: "middle2" },
-    { id: 181, term: "health", partOfSpeech: "명사", meaning: "건강", exampleSentence: "This is health.", exampleSentenceMeaning: "이것은 건강입니다.", gradeLevel: "middle2" },
-    { id: 182, term: "holiday", partOfSpeech: "명사", meaning: "휴일", exampleSentence: "This is a holiday.", exampleSentenceMeaning: "이것은 휴일입니다.", gradeLevel: "middle2" },
-    { id: 183, term: "gift", partOfSpeech: "명사", meaning: "선물, 재능", exampleSentence: "This is a gift.", exampleSentenceMeaning: "이것은 선물입니다.", gradeLevel: "middle2" },
-    { id: 184, term: "field", partOfSpeech: "명사", meaning: "분야, 들판", exampleSentence: "This is a field.", exampleSentenceMeaning: "이것은 분야입니다.", gradeLevel: "middle2" },
-    { id: 185, term: "site", partOfSpeech: "명사", meaning: "위치, 유적", exampleSentence: "This is a site.", exampleSentenceMeaning: "이것은 위치입니다.", gradeLevel: "middle2" },
-    { id: 186, term: "goal", partOfSpeech: "명사", meaning: "목표", exampleSentence: "This is a goal.", exampleSentenceMeaning: "이것은 목표입니다.", gradeLevel: "middle2" },
-    { id: 187, term: "effect", partOfSpeech: "명사", meaning: "효과", exampleSentence: "This is an effect.", exampleSentenceMeaning: "이것은 효과입니다.", gradeLevel: "middle2" },
-    { id: 188, term: "sign", partOfSpeech: "명사", meaning: "신호, 징조", exampleSentence: "This is a sign.", exampleSentenceMeaning: "이것은 신호입니다.", gradeLevel: "middle2" },
-    { id: 189, term: "report", partOfSpeech: "동사", meaning: "보고하다", exampleSentence: "I like to report.", exampleSentenceMeaning: "나는 보고하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 190, term: "order", partOfSpeech: "명사", meaning: "주문, 명령, 질서", exampleSentence: "This is an order.", exampleSentenceMeaning: "이것은 주문입니다.", gradeLevel: "middle2" },
-    { id: 191, term: "experience", partOfSpeech: "동사", meaning: "경험하다", exampleSentence: "I like to experience.", exampleSentenceMeaning: "나는 경험하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 192, term: "result", partOfSpeech: "명사", meaning: "결과", exampleSentence: "This is a result.", exampleSentenceMeaning: "이것은 결과입니다.", gradeLevel: "middle2" },
-    { id: 193, term: "ride", partOfSpeech: "동사", meaning: "타다, 주행하다", exampleSentence: "I like to ride.", exampleSentenceMeaning: "나는 타는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 194, term: "wish", partOfSpeech: "동사", meaning: "소망하다", exampleSentence: "I like to wish.", exampleSentenceMeaning: "나는 소망하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 195, term: "human", partOfSpeech: "명사", meaning: "인간", exampleSentence: "This is a human.", exampleSentenceMeaning: "이것은 인간입니다.", gradeLevel: "middle2" },
-    { id: 196, term: "past", partOfSpeech: "명사", meaning: "과거, 지난", exampleSentence: "This is the past.", exampleSentenceMeaning: "이것은 과거입니다.", gradeLevel: "middle2" },
-    { id: 197, term: "carry", partOfSpeech: "동사", meaning: "휴대하다, 옮기다", exampleSentence: "I like to carry.", exampleSentenceMeaning: "나는 휴대하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 198, term: "draw", partOfSpeech: "동사", meaning: "그리다, 당기다", exampleSentence: "I like to draw.", exampleSentenceMeaning: "나는 그리는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 199, term: "spend", partOfSpeech: "동사", meaning: "쓰다, 보내다", exampleSentence: "I like to spend.", exampleSentenceMeaning: "나는 쓰는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 200, term: "wait", partOfSpeech: "동사", meaning: "기다리다", exampleSentence: "I like to wait.", exampleSentenceMeaning: "나는 기다리는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 201, term: "decide", partOfSpeech: "동사", meaning: "결정하다", exampleSentence: "I like to decide.", exampleSentenceMeaning: "나는 결정하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 202, term: "choose", partOfSpeech: "동사", meaning: "고르다", exampleSentence: "I like to choose.", exampleSentenceMeaning: "나는 고르는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 203, term: "true", partOfSpeech: "형용사", meaning: "진실한", exampleSentence: "It is very true.", exampleSentenceMeaning: "그것은 매우 진실한합니다.", gradeLevel: "middle2" },
-    { id: 204, term: "popular", partOfSpeech: "형용사", meaning: "인기 있는", exampleSentence: "It is very popular.", exampleSentenceMeaning: "그것은 매우 인기 있는합니다.", gradeLevel: "middle2" },
-    { id: 205, term: "difficult", partOfSpeech: "형용사", meaning: "어려운", exampleSentence: "It is very difficult.", exampleSentenceMeaning: "그것은 매우 어려운합니다.", gradeLevel: "middle2" },
-    { id: 206, term: "foreign", partOfSpeech: "형용사", meaning: "외국의", exampleSentence: "It is very foreign.", exampleSentenceMeaning: "그것은 매우 외국의합니다.", gradeLevel: "middle2" },
-    { id: 207, term: "able", partOfSpeech: "형용사", meaning: "능력 있는", exampleSentence: "It is very able.", exampleSentenceMeaning: "그것은 매우 능력 있는합니다.", gradeLevel: "middle2" },
-    { id: 208, term: "full", partOfSpeech: "형용사", meaning: "가득 찬", exampleSentence: "It is very full.", exampleSentenceMeaning: "그것은 매우 가득 찬합니다.", gradeLevel: "middle2" },
-    { id: 209, term: "usually", partOfSpeech: "부사", meaning: "대게", exampleSentence: "He works usually.", exampleSentenceMeaning: "그는 대게 일해요.", gradeLevel: "middle2" },
-    { id: 210, term: "never", partOfSpeech: "부사", meaning: "결코 ~아닌", exampleSentence: "He works never.", exampleSentenceMeaning: "그는 결코 ~아닌 일해요.", gradeLevel: "middle2" },
-    { id: 211, term: "brain", partOfSpeech: "명사", meaning: "두뇌", exampleSentence: "This is a brain.", exampleSentenceMeaning: "이것은 두뇌입니다.", gradeLevel: "middle2" },
-    { id: 212, term: "voice", partOfSpeech: "명사", meaning: "목소리", exampleSentence: "This is a voice.", exampleSentenceMeaning: "이것은 목소리입니다.", gradeLevel: "middle2" },
-    { id: 213, term: "opinion", partOfSpeech: "명사", meaning: "의견", exampleSentence: `This is an opinion.`, exampleSentenceMeaning: "이것은 의견입니다.", gradeLevel: "middle2" },
-    { id: 214, term: "age", partOfSpeech: "명사", meaning: "나이, 노화", exampleSentence: "This is an age.", exampleSentenceMeaning: "이것은 나이입니다.", gradeLevel: "middle2" },
-    { id: 215, term: "century", partOfSpeech: "명사", meaning: "세기, 100년", exampleSentence: "This is a century.", exampleSentenceMeaning: "이것은 세기입니다.", gradeLevel: "middle2" },
-    { id: 216, term: "event", partOfSpeech: "명사", meaning: "사건, 행사", exampleSentence: "This is an event.", exampleSentenceMeaning: "이것은 사건입니다.", gradeLevel: "middle2" },
-    { id: 217, term: "dish", partOfSpeech: "명사", meaning: "접시, 요리", exampleSentence: "This is a dish.", exampleSentenceMeaning: "이것은 접시입니다.", gradeLevel: "middle2" },
-    { id: 218, term: "toy", partOfSpeech: "명사", meaning: "장난감, 장난치다", exampleSentence: "This is a toy.", exampleSentenceMeaning: "이것은 장난감입니다.", gradeLevel: "middle2" },
-    { id: 219, term: "subway", partOfSpeech: "명사", meaning: "지하철", exampleSentence: "This is a subway.", exampleSentenceMeaning: "이것은 지하철입니다.", gradeLevel: "middle2" },
-    { id: 220, term: "hundred", partOfSpeech: "명사", meaning: "백(100)", exampleSentence: "This is a hundred.", exampleSentenceMeaning: "이것은 백(100)입니다.", gradeLevel: "middle2" },
-    { id: 221, term: "thousand", partOfSpeech: "명사", meaning: "천(1,000)", exampleSentence: "This is a thousand.", exampleSentenceMeaning: "이것은 천(1,000)입니다.", gradeLevel: "middle2" },
-    { id: 222, term: "rest", partOfSpeech: "동사", meaning: "쉬다, 나머지", exampleSentence: "I like to rest.", exampleSentenceMeaning: "나는 쉬는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 223, term: "waste", partOfSpeech: "동사", meaning: "낭비하다, 쓰레기", exampleSentence: "I like to waste.", exampleSentenceMeaning: "나는 낭비하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 224, term: "surprise", partOfSpeech: "동사", meaning: "놀라게 하다", exampleSentence: "I like to surprise.", exampleSentenceMeaning: "나는 놀라게 하는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 225, term: "bear", partOfSpeech: "동사", meaning: "견디다, 낳다", exampleSentence: "I like to bear.", exampleSentenceMeaning: "나는 견디는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 226, term: "fight", partOfSpeech: "동사", meaning: "싸우다", exampleSentence: "I like to fight.", exampleSentenceMeaning: "나는 싸우는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 227, term: "buy", partOfSpeech: "동사", meaning: "사다, 구매하다", exampleSentence: "I like to buy.", exampleSentenceMeaning: "나는 사는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 228, term: "sell", partOfSpeech: "동사", meaning: "팔다, 팔리다", exampleSentence: "I like to sell.", exampleSentenceMeaning: "나는 파는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 229, term: "follow", partOfSpeech: "동사", meaning: "따르다, 추적하다", exampleSentence: "I like to follow.", exampleSentenceMeaning: "나는 따르는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 230, term: "miss", partOfSpeech: "동사", meaning: "놓치다, 그리워하다", exampleSentence: "I like to miss.", exampleSentenceMeaning: "나는 놓치는 것을 좋아해요.", gradeLevel: "middle2" },
-    { id: 231, term: "close", partOfSpeech: "형용사", meaning: "가까운, 닫다", exampleSentence: "It is very close.", exampleSentenceMeaning: "그것은 매우 가까운합니다.", gradeLevel: "middle2" },
-    { id: 232, term: "free", partOfSpeech: "형용사", meaning: "자유로운, 무료의", exampleSentence: "It is very free.", exampleSentenceMeaning: "그것은 매우 자유로운합니다.", gradeLevel: "middle2" },
-    { id: 233, term: "upset", partOfSpeech: "형용사", meaning: "언짢은", exampleSentence: "It is very upset.", exampleSentenceMeaning: "그것은 매우 언짢은합니다.", gradeLevel: "middle2" },
-    { id: 234, term: "healthy", partOfSpeech: "형용사", meaning: "건강한", exampleSentence: "It is very healthy.", exampleSentenceMeaning: "그것은 매우 건강한합니다.", gradeLevel: "middle2" },
-    { id: 235, term: "delicious", partOfSpeech: "형용사", meaning: "맛있는", exampleSentence: "It is very delicious.", exampleSentenceMeaning: "그것은 매우 맛있는합니다.", gradeLevel: "middle2" },
-    { id: 236, term: "sad", partOfSpeech: "형용사", meaning: "슬픈", exampleSentence: "It is very sad.", exampleSentenceMeaning: "그것은 매우 슬픈합니다.", gradeLevel: "middle2" },
-    { id: 237, term: "careful", partOfSpeech: "형용사", meaning: "주의 깊은", exampleSentence: "It is very careful.", exampleSentenceMeaning: "그것은 매우 주의 깊은합니다.", gradeLevel: "middle2" },
-    { id: 238, term: "ready", partOfSpeech: "형용사", meaning: "준비 된", exampleSentence: "It is very ready.", exampleSentenceMeaning: "그것은 매우 준비 된합니다.", gradeLevel: "middle2" },
-    { id: 239, term: "away", partOfSpeech: "부사", meaning: "멀리, 떨어진", exampleSentence: "He works away.", exampleSentenceMeaning: "그는 멀리 일해요.", gradeLevel: "middle2" },
-    { id: 240, term: "however", partOfSpeech: "부사", meaning: "하지만", exampleSentence: "He works however.", exampleSentenceMeaning: "그는 하지만 일해요.", gradeLevel: "middle2" },
-    { id: 241, term: "president", partOfSpeech: "명사", meaning: "대통령", exampleSentence: "This is a president.", exampleSentenceMeaning: "이것은 대통령입니다.", gradeLevel: "middle3" },
-    { id: 242, term: "diary", partOfSpeech: "명사", meaning: "일기", exampleSentence: "This is a diary.", exampleSentenceMeaning: "이것은 일기입니다.", gradeLevel: "middle3" },
-    { id: 243, term: "cartoon", partOfSpeech: "명사", meaning: "만화", exampleSentence: "This is a cartoon.", exampleSentenceMeaning: "이것은 만화입니다.", gradeLevel: "middle3" },
-    { id: 244, term: "meal", partOfSpeech: "명사", meaning: "식사", exampleSentence: "This is a meal.", exampleSentenceMeaning: "이것은 식사입니다.", gradeLevel: "middle3" },
-    { id: 245, term: "character", partOfSpeech: "명사", meaning: "문자, 성격", exampleSentence: "This is a character.", exampleSentenceMeaning: "이것은 문자입니다.", gradeLevel: "middle3" },
-    { id: 246, term: "reason", partOfSpeech: "명사", meaning: "이유", exampleSentence: "This is a reason.", exampleSentenceMeaning: "이것은 이유입니다.", gradeLevel: "middle3" },
-    { id: 247, term: "ground", partOfSpeech: "명사", meaning: "지면, 기반", exampleSentence: "This is a ground.", exampleSentenceMeaning: "이것은 지면입니다.", gradeLevel: "middle3" },
-    { id: 248, term: "community", partOfSpeech: "명사", meaning: "공동체", exampleSentence: "This is a community.", exampleSentenceMeaning: "이것은 공동체입니다.", gradeLevel: "middle3" },
-    { id: 249, term: "glass", partOfSpeech: "명사", meaning: "유리", exampleSentence: "This is a glass.", exampleSentenceMeaning: "이것은 유리입니다.", gradeLevel: "middle3" },
-    { id: 250, term: "weight", partOfSpeech: "명사", meaning: "무게", exampleSentence: "This is a weight.", exampleSentenceMeaning: "이것은 무게입니다.", gradeLevel: "middle3" },
-    { id: 251, term: "control", partOfSpeech: "동사", meaning: "통제하다", exampleSentence: "I like to control.", exampleSentenceMeaning: "나는 통제하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 252, term: "step", partOfSpeech: "명사", meaning: "단계", exampleSentence: "This is a step.", exampleSentenceMeaning: "이것은 단계입니다.", gradeLevel: "middle3" },
-    { id: 253, term: "matter", partOfSpeech: "동사", meaning: "문제, 중요하다", exampleSentence: "I like to matter.", exampleSentenceMeaning: "나는 문제는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 254, term: "match", partOfSpeech: "동사", meaning: "어울리다, 필적하다", exampleSentence: "I like to match.", exampleSentenceMeaning: "나는 어울리는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 255, term: "set", partOfSpeech: "동사", meaning: "설치하다, 정하다", exampleSentence: "I like to set.", exampleSentenceMeaning: "나는 설치하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 256, term: "catch", partOfSpeech: "동사", meaning: "잡다", exampleSentence: "I like to catch.", exampleSentenceMeaning: "나는 잡는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 257, term: "hold", partOfSpeech: "동사", meaning: "유지하다, 껴안다", exampleSentence: "I like to hold.", exampleSentenceMeaning: "나는 유지하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 258, term: "pick", partOfSpeech: "동사", meaning: "줍다, 고르다", exampleSentence: "I like to pick.", exampleSentenceMeaning: "나는 줍는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 259, term: "teach", partOfSpeech: "동사", meaning: "가르치다", exampleSentence: "I like to teach.", exampleSentenceMeaning: "나는 가르치는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 260, term: "agree", partOfSpeech: "동사", meaning: "동의하다", exampleSentence: "I like to agree.", exampleSentenceMeaning: "나는 동의하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 261, term: "invent", partOfSpeech: "동사", meaning: "발명하다", exampleSentence: "I like to invent.", exampleSentenceMeaning: "나는 발명하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 262, term: "welcome", partOfSpeech: "동사", meaning: "환영하다", exampleSentence: "I like to welcome.", exampleSentenceMeaning: "나는 환영하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 263, term: "bright", partOfSpeech: "형용사", meaning: "밝은", exampleSentence: "It is very bright.", exampleSentenceMeaning: "그것은 매우 밝은합니다.", gradeLevel: "middle3" },
-    { id: 264, term: "smart", partOfSpeech: "형용사", meaning: "영리한", exampleSentence: "It is very smart.", exampleSentenceMeaning: "그것은 매우 영리한합니다.", gradeLevel: "middle3" },
-    { id: 265, term: "wise", partOfSpeech: "형용사", meaning: "현명한", exampleSentence: "It is very wise.", exampleSentenceMeaning: "그것은 매우 현명한합니다.", gradeLevel: "middle3" },
-    { id: 266, term: "hungry", partOfSpeech: "형용사", meaning: "배고픈", exampleSentence: "It is very hungry.", exampleSentenceMeaning: "그것은 매우 배고픈합니다.", gradeLevel: "middle3" },
-    { id: 267, term: "fine", partOfSpeech: "형용사", meaning: "훌륭한, 벌금", exampleSentence: "It is very fine.", exampleSentenceMeaning: "그것은 매우 훌륭한합니다.", gradeLevel: "middle3" },
-    { id: 268, term: "pretty", partOfSpeech: "형용사", meaning: "예쁜, 매우", exampleSentence: "It is very pretty.", exampleSentenceMeaning: "그것은 매우 예쁜합니다.", gradeLevel: "middle3" },
-    { id: 269, term: "still", partOfSpeech: "부사", meaning: "여전히, 정지한", exampleSentence: "He works still.", exampleSentenceMeaning: "그는 여전히 일해요.", gradeLevel: "middle3" },
-    { id: 270, term: "later", partOfSpeech: "부사", meaning: "나중에", exampleSentence: "He works later.", exampleSentenceMeaning: "그는 나중에 일해요.", gradeLevel: "middle3" },
-    { id: 271, term: "teenager", partOfSpeech: "명사", meaning: "십대", exampleSentence: "This is a teenager.", exampleSentenceMeaning: "이것은 십대입니다.", gradeLevel: "middle3" },
-    { id: 272, term: "arm", partOfSpeech: "명사", meaning: "팔, 무기, 무장하다", exampleSentence: "This is an arm.", exampleSentenceMeaning: "이것은 팔입니다.", gradeLevel: "middle3" },
-    { id: 273, term: "skill", partOfSpeech: "명사", meaning: "기술", exampleSentence: "This is a skill.", exampleSentenceMeaning: "이것은 기술입니다.", gradeLevel: "middle3" },
-    { id: 274, term: "factory", partOfSpeech: "명사", meaning: "공장", exampleSentence: "This is a factory.", exampleSentenceMeaning: "이것은 공장입니다.", gradeLevel: "middle3" },
-    { id: 275, term: "prize", partOfSpeech: "명사", meaning: "상, 상을 주다", exampleSentence: "This is a prize.", exampleSentenceMeaning: "이것은 상입니다.", gradeLevel: "middle3" },
-    { id: 276, term: "chance", partOfSpeech: "명사", meaning: "기회, 가능성", exampleSentence: "This is a chance.", exampleSentenceMeaning: "이것은 기회입니다.", gradeLevel: "middle3" },
-    { id: 277, term: "shape", partOfSpeech: "명사", meaning: "모양, 형태", exampleSentence: "This is a shape.", exampleSentenceMeaning: "이것은 모양입니다.", gradeLevel: "middle3" },
-    { id: 278, term: "difference", partOfSpeech: "명사", meaning: "차이, 차별", exampleSentence: "This is a difference.", exampleSentenceMeaning: "이것은 차이입니다.", gradeLevel: "middle3" },
-    { id: 279, term: "wall", partOfSpeech: "명사", meaning: "벽", exampleSentence: "This is a wall.", exampleSentenceMeaning: "이것은 벽입니다.", gradeLevel: "middle3" },
-    { id: 280, term: "contest", partOfSpeech: "명사", meaning: "경연", exampleSentence: "This is a contest.", exampleSentenceMeaning: "이것은 경연입니다.", gradeLevel: "middle3" },
-    { id: 281, term: "race", partOfSpeech: "명사", meaning: "경주, 인종", exampleSentence: "This is a race.", exampleSentenceMeaning: "이것은 경주입니다.", gradeLevel: "middle3" },
-    { id: 282, term: "smell", partOfSpeech: "동사", meaning: "냄새가 나다", exampleSentence: "I like to smell.", exampleSentenceMeaning: "나는 냄새가 나는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 283, term: "interest", partOfSpeech: "동사", meaning: "흥미롭게 하다", exampleSentence: "I like to interest.", exampleSentenceMeaning: "나는 흥미롭게 하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 284, term: "judge", partOfSpeech: "동사", meaning: "판단하다", exampleSentence: "I like to judge.", exampleSentenceMeaning: "나는 판단하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 285, term: "cause", partOfSpeech: "동사", meaning: "원인, 유발하다", exampleSentence: "I like to cause.", exampleSentenceMeaning: "나는 원인는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 286, term: "cover", partOfSpeech: "동사", meaning: "덮다, 다루다", exampleSentence: "I like to cover.", exampleSentenceMeaning: "나는 덮는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 287, term: "travel", partOfSpeech: "동사", meaning: "여행하다, 이동하다", exampleSentence: "I like to travel.", exampleSentenceMeaning: "나는 여행하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 288, term: "guess", partOfSpeech: "동사", meaning: "추측하다", exampleSentence: "I like to guess.", exampleSentenceMeaning: "나는 추측하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 289, term: "finish", partOfSpeech: "동사", meaning: "끝마치다", exampleSentence: "I like to finish.", exampleSentenceMeaning: "나는 끝마치는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 290, term: "wash", partOfSpeech: "동사", meaning: "닦다", exampleSentence: "I like to wash.", exampleSentenceMeaning: "나는 닦는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 291, term: "introduce", partOfSpeech: "동사", meaning: "소개하다, 도입하다", exampleSentence: "I like to introduce.", exampleSentenceMeaning: "나는 소개하는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 292, term: "hurt", partOfSpeech: "동사", meaning: "상처를 주다(받다)", exampleSentence: "I like to hurt.", exampleSentenceMeaning: "나는 상처를 주다(받다)는 것을 좋아해요.", gradeLevel: "middle3" },
-    { id: 293, term: "tired", partOfSpeech: "형용사", meaning: "피곤한", exampleSentence: "It is very tired.", exampleSentenceMeaning: "그것은 매우 피곤한합니다.", gradeLevel: "middle3" },
-    { id: 294, term: "proud", partOfSpeech: "형용사", meaning: "거만한, 당당한", exampleSentence: "It is very proud.", exampleSentenceMeaning: "그것은 매우 거만한합니다.", gradeLevel: "middle3" },
-    { id: 295, term: "dirty", partOfSpeech: "형용사", meaning: "더러운", exampleSentence: "It is very dirty.", exampleSentenceMeaning: "그것은 매우 더러운합니다.", gradeLevel: "middle3" },
-    { id: 296, term: "angry", partOfSpeech: "형용사", meaning: "화난", exampleSentence: "It is very angry.", exampleSentenceMeaning: "그것은 매우 화난합니다.", gradeLevel: "middle3" },
-    { id: 297, term: "modern", partOfSpeech: "형용사", meaning: "현대의", exampleSentence: "It is very modern.", exampleSentenceMeaning: "그것은 매우 현대의합니다.", gradeLevel: "middle3" },
-    { id: 298, term: "useful", partOfSpeech: "형용사", meaning: "유용한", exampleSentence: "It is very useful.", exampleSentenceMeaning: "그것은 매우 유용한합니다.", gradeLevel: "middle3" },
-    { id: 299, term: "soon", partOfSpeech: "부사", meaning: "곧", exampleSentence: "He works soon.", exampleSentenceMeaning: "그는 곧 일해요.", gradeLevel: "middle3" },
-    { id: 300, term: "once", partOfSpeech: "부사", meaning: "한때, 일단 ~하면", exampleSentence: "He works once.", exampleSentenceMeaning: "그는 한때 일해요.", gradeLevel: "middle3" },
-    { id: 301, term: "kind", partOfSpeech: "형용사", meaning: "친절한", exampleSentence: "She is very kind.", exampleSentenceMeaning: "그녀는 매우 친절합니다.", gradeLevel: "middle1" },
-    { id: 302, term: "clever", partOfSpeech: "형용사", meaning: "영리한", exampleSentence: "He is a clever student.", exampleSentenceMeaning: "그는 영리한 학생입니다.", gradeLevel: "middle1" },
-    { id: 303, term: "wise", partOfSpeech: "형용사", meaning: "지혜로운", exampleSentence: "My grandfather is very wise.", exampleSentenceMeaning: "저의 할아버지는 매우 지혜로우십니다.", gradeLevel: "middle1" },
-    { id: 304, term: "foolish", partOfSpeech: "형용사", meaning: "바보 같은", exampleSentence: "That was a foolish mistake.", exampleSentenceMeaning: "그것은 바보 같은 실수였습니다.", gradeLevel: "middle1" },
-    { id: 305, term: "proud", partOfSpeech: "형용사", meaning: "자랑스러워하는", exampleSentence: "She is proud of her work.", exampleSentenceMeaning: "그녀는 자신의 일을 자랑스러워합니다.", gradeLevel: "middle1" },
-    { id: 306, term: "honest", partOfSpeech: "형용사", meaning: "정직한", exampleSentence: "He is an honest man.", exampleSentenceMeaning: "그는 정직한 사람입니다.", gradeLevel: "middle1" },
-    { id: 307, term: "gentle", partOfSpeech: "형용사", meaning: "부드러운", exampleSentence: "He has a gentle voice.", exampleSentenceMeaning: "그는 부드러운 목소리를 가지고 있습니다.", gradeLevel: "middle1" },
-    { id: 308, term: "careful", partOfSpeech: "형용사", meaning: "조심성 있는", exampleSentence: "Please be careful.", exampleSentenceMeaning: "조심하세요.", gradeLevel: "middle1" },
-    { id: 309, term: "brave", partOfSpeech: "형용사", meaning: "용감한", exampleSentence: "The firefighter was very brave.", exampleSentenceMeaning: "그 소방관은 매우 용감했습니다.", gradeLevel: "middle1" },
-    { id: 310, term: "lazy", partOfSpeech: "형용사", meaning: "게으른", exampleSentence: "He is a lazy cat.", exampleSentenceMeaning: "그는 게으른 고양이입니다.", gradeLevel: "middle1" },
-    { id: 311, term: "funny", partOfSpeech: "형용사", meaning: "웃기는", exampleSentence: "That joke was very funny.", exampleSentenceMeaning: "그 농담은 매우 웃겼습니다.", gradeLevel: "middle1" },
-    { id: 312, term: "calm", partOfSpeech: "형용사", meaning: "차분한", exampleSentence: "Stay calm and don't panic.", exampleSentenceMeaning: "차분함을 유지하고 당황하지 마세요.", gradeLevel: "middle1" },
-    { id: 313, term: "character", partOfSpeech: "명사", meaning: "성격", exampleSentence: "She has a strong character.", exampleSentenceMeaning: "그녀는 강한 성격을 가지고 있습니다.", gradeLevel: "middle1" },
-    { id: 314, term: "serious", partOfSpeech: "형용사", meaning: "진지한", exampleSentence: "This is a serious matter.", exampleSentenceMeaning: "이것은 진지한 문제입니다.", gradeLevel: "middle1" },
-    { id: 315, term: "strict", partOfSpeech: "형용사", meaning: "엄격한", exampleSentence: "My teacher is very strict.", exampleSentenceMeaning: "우리 선생님은 매우 엄격하십니다.", gradeLevel: "middle1" },
-    { id: 316, term: "cruel", partOfSpeech: "형용사", meaning: "잔인한", exampleSentence: "It was a cruel thing to do.", exampleSentenceMeaning: "그것은 잔인한 행동이었습니다.", gradeLevel: "middle1" },
-    { id: 317, term: "mean", partOfSpeech: "형용사", meaning: "야비한", exampleSentence: "Don't be mean to your brother.", exampleSentenceMeaning: "남동생에게 야비하게 굴지 마세요.", gradeLevel: "middle1" },
-    { id: 318, term: "selfish", partOfSpeech: "형용사", meaning: "이기적인", exampleSentence: "He is a selfish person.", exampleSentenceMeaning: "그는 이기적인 사람입니다.", gradeLevel: "middle1" },
-    { id: 319, term: "evil", partOfSpeech: "형용사", meaning: "나쁜", exampleSentence: "That was an evil plan.", exampleSentenceMeaning: "그것은 나쁜 계획이었습니다.", gradeLevel: "middle1" },
-    { id: 320, term: "curious", partOfSpeech: "형용사", meaning: "호기심이 많은", exampleSentence: "Cats are very curious animals.", exampleSentenceMeaning: "고양이는 매우 호기심이 많은 동물입니다.", gradeLevel: "middle1" },
-    { id: 321, term: "cheerful", partOfSpeech: "형용사", meaning: "쾌활한", exampleSentence: "She has a cheerful personality.", exampleSentenceMeaning: "그녀는 쾌활한 성격을 가지고 있습니다.", gradeLevel: "middle1" },
-    { id: 322, term: "friendly", partOfSpeech: "형용사", meaning: "친한/다정한", exampleSentence: "My dog is very friendly.", exampleSentenceMeaning: "우리 강아지는 매우 다정합니다.", gradeLevel: "middle1" },
-    { id: 323, term: "modest", partOfSpeech: "형용사", meaning: "겸손한", exampleSentence: "He is a modest and humble person.", exampleSentenceMeaning: "그는 겸손하고 겸허한 사람입니다.", gradeLevel: "middle1" },
-    { id: 324, term: "generous", partOfSpeech: "형용사", meaning: "관대한/인심이 후한", exampleSentence: "Thank you for your generous donation.", exampleSentenceMeaning: "관대한 기부에 감사드립니다.", gradeLevel: "middle1" },
-    { id: 325, term: "sensitive", partOfSpeech: "형용사", meaning: "민감한", exampleSentence: "She is sensitive to criticism.", exampleSentenceMeaning: "그녀는 비판에 민감합니다.", gradeLevel: "middle1" },
-    { id: 326, term: "confident", partOfSpeech: "형용사", meaning: "자신만만한", exampleSentence: "He feels confident about the exam.", exampleSentenceMeaning: "그는 시험에 대해 자신감이 있습니다.", gradeLevel: "middle1" },
-    { id: 327, term: "positive", partOfSpeech: "형용사", meaning: "긍정적인", exampleSentence: "Try to have a positive attitude.", exampleSentenceMeaning: "긍정적인 태도를 가지도록 노력하세요.", gradeLevel: "middle1" },
-    { id: 328, term: "negative", partOfSpeech: "형용사", meaning: "부정적인", exampleSentence: "Don't focus on negative thoughts.", exampleSentenceMeaning: "부정적인 생각에 집중하지 마세요.", gradeLevel: "middle1" },
-    { id: 329, term: "optimistic", partOfSpeech: "형용사", meaning: "낙관적인", exampleSentence: "She is optimistic about the future.", exampleSentenceMeaning: "그녀는 미래에 대해 낙관적입니다.", gradeLevel: "middle1" },
-    { id: 330, term: "cautious", partOfSpeech: "형용사", meaning: "조심스러운", exampleSentence: "Be cautious when crossing the street.", exampleSentenceMeaning: "길을 건널 때 조심하세요.", gradeLevel: "middle1" },
-    { id: 331, term: "big", partOfSpeech: "형용사", meaning: "큰", exampleSentence: "That is a big house.", exampleSentenceMeaning: "저것은 큰 집입니다.", gradeLevel: "middle1" },
-    { id: 332, term: "old", partOfSpeech: "형용사", meaning: "나이가 많은", exampleSentence: "He is an old man.", exampleSentenceMeaning: "그는 나이가 많은 남자입니다.", gradeLevel: "middle1" },
-    { id: 333, term: "tall", partOfSpeech: "형용사", meaning: "키가 큰", exampleSentence: "She is very tall.", exampleSentenceMeaning: "그녀는 키가 매우 큽니다.", gradeLevel: "middle1" },
-    { id: 334, term: "cute", partOfSpeech: "형용사", meaning: "귀여운", exampleSentence: "The puppy is very cute.", exampleSentenceMeaning: "그 강아지는 매우 귀엽습니다.", gradeLevel: "middle1" },
-    { id: 335, term: "pretty", partOfSpeech: "형용사", meaning: "예쁜/매우", exampleSentence: "The flowers are very pretty.", exampleSentenceMeaning: "꽃들이 매우 예쁩니다.", gradeLevel: "middle1" },
-    { id: 336, term: "beautiful", partOfSpeech: "형용사", meaning: "아름다운", exampleSentence: "The sunset was beautiful.", exampleSentenceMeaning: "석양은 아름다웠습니다.", gradeLevel: "middle1" },
-    { id: 337, term: "ugly", partOfSpeech: "형용사", meaning: "못생긴", exampleSentence: "It is an ugly sweater.", exampleSentenceMeaning: "그것은 못생긴 스웨터입니다.", gradeLevel: "middle1" },
-    { id: 338, term: "fat", partOfSpeech: "형용사", meaning: "뚱뚱한", exampleSentence: "My cat is a little fat.", exampleSentenceMeaning: "우리 고양이는 약간 뚱뚱합니다.", gradeLevel: "middle1" },
-    { id: 339, term: "overweight", partOfSpeech: "형용사", meaning: "과체중의", exampleSentence: "He is slightly overweight.", exampleSentenceMeaning: "그는 약간 과체중입니다.", gradeLevel: "middle1" },
-    { id: 340, term: "young", partOfSpeech: "형용사", meaning: "어린", exampleSentence: "She is too young to drive.", exampleSentenceMeaning: "그녀는 운전하기에는 너무 어립니다.", gradeLevel: "middle1" },
-    { id: 341, term: "handsome", partOfSpeech: "형용사", meaning: "잘생긴", exampleSentence: "He is a handsome actor.", exampleSentenceMeaning: "그는 잘생긴 배우입니다.", gradeLevel: "middle1" },
-    { id: 342, term: "slim", partOfSpeech: "형용사", meaning: "날씬한", exampleSentence: "She wants to be slim.", exampleSentenceMeaning: "그녀는 날씬해지고 싶어합니다.", gradeLevel: "middle1" },
-    { id: 343, term: "beard", partOfSpeech: "명사", meaning: "턱수염", exampleSentence: "He has a long beard.", exampleSentenceMeaning: "그는 긴 턱수염을 가지고 있습니다.", gradeLevel: "middle1" },
-    { id: 344, term: "plain", partOfSpeech: "형용사", meaning: "평범하게 생긴", exampleSentence: "She wore a plain dress.", exampleSentenceMeaning: "그녀는 평범한 드레스를 입었습니다.", gradeLevel: "middle1" },
-    { id: 345, term: "good-looking", partOfSpeech: "형용사", meaning: "잘생긴", exampleSentence: "He is a good-looking man.", exampleSentenceMeaning: "그는 잘생긴 남자입니다.", gradeLevel: "middle1" },
-    { id: 346, term: "skinny", partOfSpeech: "형용사", meaning: "깡마른", exampleSentence: "The model was very skinny.", exampleSentenceMeaning: "그 모델은 매우 깡말랐습니다.", gradeLevel: "middle1" },
-    { id: 347, term: "fit", partOfSpeech: "형용사", meaning: "건강한/꼭 맞다", exampleSentence: "He stays fit by exercising.", exampleSentenceMeaning: "그는 운동으로 건강을 유지합니다.", gradeLevel: "middle1" },
-    { id: 348, term: "muscular", partOfSpeech: "형용사", meaning: "근육질의", exampleSentence: "The athlete is very muscular.", exampleSentenceMeaning: "그 운동선수는 매우 근육질입니다.", gradeLevel: "middle1" },
-    { id: 349, term: "thin", partOfSpeech: "형용사", meaning: "가는/숱이 적은", exampleSentence: "The book is very thin.", exampleSentenceMeaning: "그 책은 매우 얇습니다.", gradeLevel: "middle1" },
-    { id: 350, term: "bald", partOfSpeech: "형용사", meaning: "대머리의", exampleSentence: "He started to go bald in his thirties.", exampleSentenceMeaning: "그는 30대에 대머리가 되기 시작했습니다.", gradeLevel: "middle1" },
-    { id: 351, term: "curly", partOfSpeech: "형용사", meaning: "곱슬거리는", exampleSentence: "She has curly hair.", exampleSentenceMeaning: "그녀는 곱슬머리입니다.", gradeLevel: "middle1" },
-    { id: 352, term: "dye", partOfSpeech: "동사", meaning: "염색하다", exampleSentence: "I want to dye my hair.", exampleSentenceMeaning: "나는 머리를 염색하고 싶어요.", gradeLevel: "middle1" },
-    { id: 353, term: "appearance", partOfSpeech: "명사", meaning: "외모", exampleSentence: "His appearance changed a lot.", exampleSentenceMeaning: "그의 외모가 많이 변했습니다.", gradeLevel: "middle1" },
-    { id: 354, term: "attractive", partOfSpeech: "형용사", meaning: "매력적인", exampleSentence: "She has an attractive smile.", exampleSentenceMeaning: "그녀는 매력적인 미소를 가지고 있습니다.", gradeLevel: "middle1" },
-    { id: 355, term: "charming", partOfSpeech: "형용사", meaning: "멋진/매력적인", exampleSentence: "He is a charming prince.", exampleSentenceMeaning: "그는 멋진 왕자입니다.", gradeLevel: "middle1" },
-    { id: 356, term: "mustache", partOfSpeech: "명사", meaning: "코밑수염", exampleSentence: "He grew a mustache.", exampleSentenceMeaning: "그는 코밑수염을 길렀습니다.", gradeLevel: "middle1" },
-    { id: 357, term: "sideburns", partOfSpeech: "명사", meaning: "구레나룻", exampleSentence: "He shaved off his sideburns.", exampleSentenceMeaning: "그는 구레나룻을 밀었습니다.", gradeLevel: "middle1" },
-    { id: 358, term: "middle-aged", partOfSpeech: "형용사", meaning: "중년의", exampleSentence: "She is a middle-aged woman.", exampleSentenceMeaning: "그녀는 중년 여성입니다.", gradeLevel: "middle1" },
-    { id: 359, term: "build", partOfSpeech: "명사", meaning: "체격", exampleSentence: "He has a strong build.", exampleSentenceMeaning: "그는 체격이 좋습니다.", gradeLevel: "middle1" },
-    { id: 360, term: "image", partOfSpeech: "명사", meaning: "이미지", exampleSentence: "The company has a good image.", exampleSentenceMeaning: "그 회사는 좋은 이미지를 가지고 있습니다.", gradeLevel: "middle1" },
-    { id: 361, term: "smile", partOfSpeech: "명사", meaning: "미소", exampleSentence: "She has a beautiful smile.", exampleSentenceMeaning: "그녀는 아름다운 미소를 가지고 있습니다.", gradeLevel: "middle1" },
-    { id: 362, term: "enjoy", partOfSpeech: "동사", meaning: "즐기다", exampleSentence: "I enjoy reading books.", exampleSentenceMeaning: "나는 책 읽는 것을 즐겨요.", gradeLevel: "middle1" },
-    { id: 363, term: "cry", partOfSpeech: "동사", meaning: "울다", exampleSentence: "The baby started to cry.", exampleSentenceMeaning: "아기가 울기 시작했어요.", gradeLevel: "middle1" },
-    { id: 364, term: "tear", partOfSpeech: "명사", meaning: "눈물", exampleSentence: "A tear rolled down her cheek.", exampleSentenceMeaning: "눈물이 그녀의 뺨을 타고 흘러내렸습니다.", gradeLevel: "middle1" },
-    { id: 365, term: "glad", partOfSpeech: "형용사", meaning: "기쁜", exampleSentence: "I am glad to see you.", exampleSentenceMeaning: "만나서 기쁩니다.", gradeLevel: "middle1" },
-    { id: 366, term: "angry", partOfSpeech: "형용사", meaning: "화가 난", exampleSentence: "He was angry with me.", exampleSentenceMeaning: "그는 나에게 화가 났습니다.", gradeLevel: "middle1" },
-    { id: 367, term: "fear", partOfSpeech: "명사", meaning: "공포", exampleSentence: "She has a fear of heights.", exampleSentenceMeaning: "그녀는 높은 곳에 대한 공포가 있습니다.", gradeLevel: "middle1" },
-    { id: 368, term: "joy", partOfSpeech: "명사", meaning: "기쁨", exampleSentence: "Her heart was filled with joy.", exampleSentenceMeaning: "그녀의 마음은 기쁨으로 가득 찼습니다.", gradeLevel: "middle1" },
-    { id: 369, term: "miss", partOfSpeech: "동사", meaning: "그리워하다", exampleSentence: "I miss my family.", exampleSentenceMeaning: "나는 가족이 그리워요.", gradeLevel: "middle1" }
+const DICTATION_TARGET_LABELS: Record<DictationTarget, string> = {
+    term: '단어',
+    sentence: '예문',
+};
+
+// Replay speeds offered in dictation mode
+const DICTATION_RATES: { rate: number; label: string }[] = [
+    { rate: 1, label: '보통' },
+    { rate: 0.7, label: '느리게' },
+    { rate: 0.5, label: '아주 느리게' },
 ];
 
+// One answered quiz question. Word text is copied so the record survives later edits or deletion.
+interface QuizAnswerRecord {
+    wordId: WordId;
+    term: string;
+    meaning: string;
+    prompt: string;
+    correctAnswer: string;
+    chosenAnswer: string;
+    options?: string[]; // Multiple-choice questions only
+    isCorrect: boolean;
+    timeMs: number;
+}
+
+interface QuizAttemptDetails {
+    startedAt: string;
+    durationMs: number; // Sum of the time spent on each question
+    answers: QuizAnswerRecord[];
+    challengePoints?: number; // Speed challenge only
+}
+
+// A finished matching game
+type MatchingGameSource = 'currentGrade' | 'customWords';
+
+interface MatchingGameRecord {
+    date: string; // ISO timestamp of when the game finished
+    source: MatchingGameSource;
+    pairCount: number;
+    mismatches: number;
+    durationMs: number;
+}
+
+// A finished speed challenge, kept in the per-grade personal best table
+interface SpeedChallengeRecord {
+    date: string; // ISO timestamp of when the challenge finished
+    points: number;
+    correct: number;
+    answered: number;
+    maxCombo: number;
+}
+
+interface QuizHistoryEntry extends Partial<QuizAttemptDetails> {
+    date: string;
+    score: number;
+    total: number;
+    mode?: QuizMode; // Missing on entries saved before quiz modes existed ('meaning')
+}
+
+// In-progress sessions saved so they can be resumed after navigating away or reloading.
+// Words are stored by id and resolved against the current word list on resume.
+interface LearnSessionSnapshot {
+    wordIds: WordId[]; // May contain repeats of requeued "다시" cards
+    currentIndex: number;
+    isQuickReview: boolean;
+    reviewWordIds?: WordId[];
+    gradeCounts: Record<RecallGrade, number>;
+    gradedWordIds: WordId[];
+    directionMode: CardDirectionMode;
+    currentDirection: CardDirection;
+    savedAt: string;
+}
+
+interface QuizSessionSnapshot {
+    mode: QuizMode;
+    wordIds: WordId[];
+    currentQuestionIndex: number;
+    score: number;
+    options: string[];
+    selectedAnswer: string | null;
+    showResult: boolean;
+    isAnswerCorrect: boolean;
+    hintCount: number;
+    dictationTarget?: DictationTarget;
+    clozeAnswerStyle?: ClozeAnswerStyle;
+    answers?: QuizAnswerRecord[];
+    startedAt?: string;
+    config?: QuizConfig;
+    incorrectWordIds: WordId[];
+    savedAt: string;
+}
+
+// SM-2 recall quality: 0-2 = failed recall, 3 = hard, 4 = good, 5 = easy
+type RecallQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+// Self-graded recall on a flashcard, mapped onto an SM-2 quality
+type RecallGrade = 'again' | 'hard' | 'good' | 'easy';
+
+
+// Word ids: ids from batch additions, imports, backups and other devices must never collide
+const BUILT_IN_PACK_ID = 'builtin'; // Namespace of the word list that was built into the app before word packs
+const LEGACY_CUSTOM_ID_NAMESPACE = 'custom'; // Custom words from before schema v2 keep their old id under this namespace
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const toPackWordId = (packId: string, localId: number | string): WordId => `${packId}:${localId}`;
+
+// Ids from before schema v2 were bare numbers (built-in) or timestamps (custom)
+const isCurrentWordId = (id: unknown): id is WordId => typeof id === 'string' && (UUID_PATTERN.test(id) || id.includes(':'));
+
+const createWordId = (): WordId => {
+    if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    // randomUUID only exists in secure contexts, so plain-http LAN setups build a version 4 UUID by hand
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// --- Word Packs ---
+// Built-in words ship as JSON packs under public/word-packs, listed in manifest.json. A pack is fetched only when
+// its grade is studied or a screen spanning all grades opens. Word ids are "<wordIdPrefix or pack id>:<entry id>",
+// so they stay the same across pack versions and stats carry over; a version that renames entries lists the old
+// ids in movedIds.
+interface WordPackInfo {
+    id: string;
+    title: string;
+    grade: string;
+    textbook: string;
+    version: number;
+    file: string; // Relative to the manifest
+    wordCount: number;
+    wordIdPrefix?: string; // The packs made from the original built-in list keep its "builtin" ids
+}
+
+type WordPackEntry = Omit<Word, 'id' | 'gradeLevel' | 'isCustom'> & { id: number | string };
+
+interface WordPackFile {
+    id: string;
+    version: number;
+    words: WordPackEntry[];
+    movedIds?: Record<string, string>; // Old entry id -> new entry id
+}
+
+interface LoadedWordPack {
+    version: number;
+    words: Word[];
+    movedIds: Record<WordId, WordId>;
+}
+
+// Per-profile pack choices; packs are enabled unless turned off, so newly published packs show up by default
+interface WordPackPreferences {
+    disabledPackIds: string[];
+    seenVersions: Record<string, number>; // Pack versions whose updates have been applied to this profile's stats
+}
+
+const WORD_PACKS_BASE_URL = './word-packs/';
+
+const DEFAULT_WORD_PACK_PREFERENCES: WordPackPreferences = { disabledPackIds: [], seenVersions: {} };
+
+// Screens showing words from every grade need all enabled packs; the rest only need the current grade's
+const CROSS_GRADE_SCREENS: AppScreen[] = ['allWords', 'wrongNotes', 'stats', 'quiz', 'printTest', 'manageWords'];
+
+const isWordPackInfo = (value: unknown): value is WordPackInfo => isPlainObject(value)
+    && typeof value.id === 'string'
+    && typeof value.title === 'string'
+    && typeof value.grade === 'string'
+    && typeof value.version === 'number'
+    && typeof value.file === 'string';
+
+const fetchWordPackManifest = async (): Promise<WordPackInfo[]> => {
+    const response = await fetch(`${WORD_PACKS_BASE_URL}manifest.json`, { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`Word pack manifest request failed with ${response.status}`);
+    const manifest = await response.json();
+    const packs = Array.isArray(manifest?.packs) ? manifest.packs : [];
+    const validPacks = packs.filter(isWordPackInfo);
+    if (validPacks.length < packs.length) console.warn(`Skipped ${packs.length - validPacks.length} malformed word pack entries.`);
+    return validPacks.map((pack: WordPackInfo) => ({ ...pack, textbook: pack.textbook || '', wordCount: pack.wordCount || 0 }));
+};
+
+// The version in the URL makes an updated pack bypass the browser cache
+const fetchWordPack = async (info: WordPackInfo): Promise<LoadedWordPack> => {
+    const response = await fetch(`${WORD_PACKS_BASE_URL}${info.file}?v=${info.version}`);
+    if (!response.ok) throw new Error(`Word pack ${info.id} request failed with ${response.status}`);
+    const file: WordPackFile = await response.json();
+    const prefix = info.wordIdPrefix || info.id;
+    const words = (Array.isArray(file.words) ? file.words : [])
+        .filter(entry => isPlainObject(entry) && entry.id !== undefined && typeof entry.term === 'string' && typeof entry.meaning === 'string')
+        .map(entry => ({ ...entry, id: toPackWordId(prefix, entry.id), gradeLevel: info.grade }));
+    const movedIds = Object.fromEntries(Object.entries(file.movedIds || {}).map(([oldId, newId]) => [toPackWordId(prefix, oldId), toPackWordId(prefix, newId)]));
+    return { version: file.version ?? info.version, words, movedIds };
+};
+
+const isWordPackEnabled = (pack: WordPackInfo, preferences: WordPackPreferences) => !preferences.disabledPackIds.includes(pack.id);
+
+const getRequiredWordPacks = (manifest: WordPackInfo[], preferences: WordPackPreferences, screen: AppScreen, grade: string) =>
+    manifest.filter(pack => isWordPackEnabled(pack, preferences) && (CROSS_GRADE_SCREENS.includes(screen) || pack.grade === grade));
+
+// Moves stats to the new ids of renamed pack entries; a stat already at the new id is kept as is
+const applyMovedWordIds = (wordStats: Record<WordId, WordStat>, movedIds: Record<WordId, WordId>): Record<WordId, WordStat> => {
+    const moves = Object.entries(movedIds).filter(([oldId]) => wordStats[oldId]);
+    if (moves.length === 0) return wordStats;
+    const nextStats = { ...wordStats };
+    moves.forEach(([oldId, newId]) => {
+        if (!nextStats[newId]) nextStats[newId] = { ...nextStats[oldId], id: newId };
+        delete nextStats[oldId];
+    });
+    Object.values(nextStats).forEach(stat => {
+        if (stat.confusedWordIds.some(id => movedIds[id])) {
+            nextStats[stat.id] = { ...stat, confusedWordIds: stat.confusedWordIds.map(id => movedIds[id] ?? id) };
+        }
+    });
+    return nextStats;
+};
+
+
 
 // --- Helper Functions ---
 const shuffleArray = <T,>(array: T[]): T[] => {
@@ -694,7 +654,7 @@ const shuffleArray = <T,>(array: T[]): T[] => {
     return newArray;
 };
 
-const speak = (text: string, lang = 'en-US') => {
+const speak = (text: string, lang = 'en-US', rate?: number) => {
     if (typeof text !== 'string' || !text.trim()) {
         console.warn("Speak function called with invalid/empty text:", text);
         return;
@@ -703,6 +663,7 @@ const speak = (text: string, lang = 'en-US') => {
         speechSynthesis.cancel(); 
         const utterance = new SpeechSynthesisUtterance(text);
         utterance.lang = lang;
+        if (rate) utterance.rate = rate;
         const findAndSpeak = () => {
             const englishVoice = speechSynthesis.getVoices().find(voice => voice.lang === lang && (voice.name.includes('Google') || voice.name.includes('Microsoft David') || voice.name.includes('Samantha') || voice.default));
             if (englishVoice) {
@@ -721,1009 +682,4361 @@ const speak = (text: string, lang = 'en-US') => {
     }
 };
 
+// Levenshtein distance: minimum single-character insertions, deletions and substitutions
+const getEditDistance = (a: string, b: string): number => {
+    const previousRow = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previousRow[0];
+        previousRow[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previousRow[j];
+            previousRow[j] = Math.min(
+                previousRow[j] + 1,
+                previousRow[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = above;
+        }
+    }
+    return previousRow[b.length];
+};
+
+const normalizeTypedAnswer = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Typed answers within this many edits of the term count as "almost correct"
+const getTypoTolerance = (term: string) => (term.length >= 8 ? 2 : 1);
+
+const getDictationText = (word: Word, target: DictationTarget) =>
+    target === 'sentence' && word.exampleSentence?.trim() ? word.exampleSentence : word.term;
+
+const tokenizeForDictation = (text: string) =>
+    text.split(/\s+/).filter(Boolean).map(token => ({
+        original: token,
+        normalized: token.toLowerCase().replace(/[^a-z0-9']/g, '').replace(/^'+|'+$/g, ''),
+    })).filter(token => token.normalized);
+
+const isVowel = (char: string) => 'aeiou'.includes(char);
+
+// Regular inflected forms of a single-word term (miss → missed, study → studied, stop → stopping, make → making)
+const getInflectedForms = (term: string): Set<string> => {
+    const base = term.toLowerCase();
+    const forms = new Set([base, `${base}s`, `${base}es`, `${base}ed`, `${base}d`, `${base}ing`, `${base}er`, `${base}est`, `${base}ly`]);
+    const last = base[base.length - 1];
+    const beforeLast = base[base.length - 2];
+    if (last === 'e') {
+        forms.add(`${base.slice(0, -1)}ing`);
+    }
+    if (last === 'y' && beforeLast && !isVowel(beforeLast)) {
+        const stem = base.slice(0, -1);
+        ['ies', 'ied', 'ier', 'iest', 'ily'].forEach(suffix => forms.add(stem + suffix));
+    }
+    // Short consonant-vowel-consonant endings double the last letter
+    if (base.length >= 3 && !isVowel(last) && !'wxy'.includes(last) && isVowel(beforeLast) && !isVowel(base[base.length - 3])) {
+        ['ed', 'ing', 'er', 'est'].forEach(suffix => forms.add(base + last + suffix));
+    }
+    return forms;
+};
+
+interface ClozeBlank {
+    before: string;
+    answer: string; // The form of the term as written in the sentence
+    after: string;
+}
+
+// Finds the term (or one of its inflected forms) in the example sentence and splits the sentence around it
+const findClozeBlank = (sentence: string | undefined, term: string): ClozeBlank | null => {
+    if (!sentence?.trim() || !term.trim()) return null;
+    const trimmedTerm = term.trim();
+    if (/\s/.test(trimmedTerm)) {
+        const escaped = trimmedTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+        const match = new RegExp(`\\b${escaped}\\b`, 'i').exec(sentence);
+        return match ? { before: sentence.slice(0, match.index), answer: match[0], after: sentence.slice(match.index + match[0].length) } : null;
+    }
+    const forms = getInflectedForms(trimmedTerm);
+    const tokenPattern = /[A-Za-z]+(?:'[A-Za-z]+)?/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(sentence)) !== null) {
+        if (forms.has(match[0].toLowerCase())) {
+            return { before: sentence.slice(0, match.index), answer: match[0], after: sentence.slice(match.index + match[0].length) };
+        }
+    }
+    return null;
+};
+
+const MAX_CONFUSED_WORDS = 5;
+
+// Individual senses of a meaning such as "삶, 생명"
+const getMeaningSenses = (meaning: string) =>
+    meaning.split(/[,;/·]/).map(sense => sense.replace(/\(.*?\)/g, '').trim()).filter(Boolean);
+
+const sharesSense = (a: string, b: string) => {
+    const sensesA = getMeaningSenses(a);
+    return getMeaningSenses(b).some(sense => sensesA.includes(sense));
+};
+
+// Picks quiz distractors, preferring previously confused words, the same part of speech and similar spelling.
+// Candidates whose meaning overlaps the answer's (or another chosen distractor's) are skipped.
+const pickDistractors = (correctWord: Word, candidates: Word[], confusedWordIds: WordId[], count = 3): Word[] => {
+    const correctTerm = correctWord.term.toLowerCase();
+    const scored = candidates
+        .filter(w => w.id !== correctWord.id && w.term.toLowerCase() !== correctTerm && !sharesSense(w.meaning, correctWord.meaning))
+        .map(w => {
+            const term = w.term.toLowerCase();
+            const spellingSimilarity = 1 - getEditDistance(term, correctTerm) / Math.max(term.length, correctTerm.length);
+            let score = Math.random();
+            if (confusedWordIds.includes(w.id)) score += 3;
+            if (w.partOfSpeech === correctWord.partOfSpeech) score += 2;
+            if (spellingSimilarity >= 0.5) score += 1.5 * spellingSimilarity;
+            return { word: w, score };
+        })
+        .sort((a, b) => b.score - a.score);
+    const picked: Word[] = [];
+    for (const { word } of scored) {
+        if (picked.length >= count) break;
+        const overlapsPicked = picked.some(p => p.term.toLowerCase() === word.term.toLowerCase() || sharesSense(p.meaning, word.meaning));
+        if (!overlapsPicked) picked.push(word);
+    }
+    return picked;
+};
+
+// Word-by-word dictation check: each expected word is correct if it appears, in order, in the typed text (LCS alignment)
+const scoreDictation = (expected: string, typed: string) => {
+    const expectedTokens = tokenizeForDictation(expected);
+    const typedTokens = tokenizeForDictation(typed);
+    const lcs = expectedTokens.map(() => new Array(typedTokens.length + 1).fill(0));
+    lcs.push(new Array(typedTokens.length + 1).fill(0));
+    for (let i = expectedTokens.length - 1; i >= 0; i--) {
+        for (let j = typedTokens.length - 1; j >= 0; j--) {
+            lcs[i][j] = expectedTokens[i].normalized === typedTokens[j].normalized
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const words = expectedTokens.map(token => ({ word: token.original, isCorrect: false }));
+    let i = 0;
+    let j = 0;
+    while (i < expectedTokens.length && j < typedTokens.length) {
+        if (expectedTokens[i].normalized === typedTokens[j].normalized) {
+            words[i].isCorrect = true;
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    const correctCount = words.filter(w => w.isCorrect).length;
+    // Extra typed words also keep the answer from being fully correct
+    return { words, correctCount, total: words.length, isPerfect: correctCount === words.length && typedTokens.length === words.length };
+};
+
 const getTodayDateString = () => new Date().toISOString().split('T')[0];
 
-const getDefaultWordStat = (wordId: string | number): WordStat => ({
+const formatDuration = (ms: number) => {
+    const totalSeconds = Math.round(ms / 1000);
+    if (totalSeconds < 60) return `${(ms / 1000).toFixed(1)}초`;
+    return `${Math.floor(totalSeconds / 60)}분 ${totalSeconds % 60}초`;
+};
+
+const getDefaultWordStat = (wordId: WordId): WordStat => ({
     id: wordId,
     isMastered: false,
     lastReviewed: null,
     quizIncorrectCount: 0,
+    easeFactor: SRS_DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueDate: null,
+    directionStats: {
+        enToKo: { reviewCount: 0, failedCount: 0, lastReviewed: null },
+        koToEn: { reviewCount: 0, failedCount: 0, lastReviewed: null },
+    },
+    confusedWordIds: [],
+    wrongNote: null,
+    matchingMismatchCount: 0,
 });
 
+const resolveWordsByIds = (wordIds: WordId[], words: Word[]): Word[] => {
+    return wordIds.map(id => words.find(w => w.id === id)).filter((w): w is Word => !!w);
+};
 
-// --- API Client Setup (Gemini) ---
-let ai: GoogleGenAI | null = null;
-if (process.env.API_KEY) {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-} else {
-    console.warn("API_KEY environment variable not set. AI features will be disabled.");
-}
+const resolveCardDirection = (mode: CardDirectionMode): CardDirection => {
+    if (mode === 'mixed') return Math.random() < 0.5 ? 'enToKo' : 'koToEn';
+    return mode;
+};
 
-// --- Gemini API Quota Management ---
-let isCurrentlyGeminiQuotaExhausted = false;
-let quotaCooldownTimeoutId: number | null = null;
-const GEMINI_QUOTA_COOLDOWN_MS = 15 * 60 * 1000; // 15 minutes
+const addDaysToDateString = (dateString: string, days: number) => {
+    const date = new Date(`${dateString}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+};
 
-const setGeminiQuotaExhaustedCooldown = (
-    addToastForNotification: (message: string, type: ToastMessage['type']) => void,
-    featureName?: string // e.g., "단어 정보 조회", "AI 예문 생성", "텍스트 요약"
-) => {
-    if (!isCurrentlyGeminiQuotaExhausted) {
-        const cooldownMinutes = GEMINI_QUOTA_COOLDOWN_MS / 60000;
-        console.log(`Gemini API quota exhaustion detected for '${featureName || 'a Gemini API call'}'. Activating ${cooldownMinutes}-minute cooldown.`);
-        isCurrentlyGeminiQuotaExhausted = true;
-        
-        const baseMessage = featureName
-            ? `Gemini API 사용량 할당량(quota)을 초과하여 '${featureName}' 기능 사용이 중단됩니다.`
-            : `Gemini API 사용량 할당량(quota)을 초과했습니다.`;
-        
-        addToastForNotification(`${baseMessage} Google AI Studio 또는 Google Cloud Console에서 할당량 및 결제 세부 정보를 확인해주세요. 추가 API 호출이 ${cooldownMinutes}분 동안 중단됩니다.`, "error");
-        
-        if (quotaCooldownTimeoutId) {
-            clearTimeout(quotaCooldownTimeoutId);
-        }
-        quotaCooldownTimeoutId = window.setTimeout(() => {
-            isCurrentlyGeminiQuotaExhausted = false;
-            quotaCooldownTimeoutId = null;
-            console.log("Gemini API quota cooldown finished. API calls may resume.");
-            addToastForNotification(`Gemini API 호출 제한 시간이 종료되었습니다. ${featureName ? `'${featureName}' 기능을 ` : ''}다시 시도할 수 있습니다.`, "info");
-        }, GEMINI_QUOTA_COOLDOWN_MS);
-    }
+const getDaysBetween = (fromDateString: string, toDateString: string) => {
+    const msPerDay = 24 * 60 * 60 * 1000;
+    return Math.round((new Date(`${toDateString}T00:00:00Z`).getTime() - new Date(`${fromDateString}T00:00:00Z`).getTime()) / msPerDay);
 };
 
 
-const generateWordDetailsWithGemini = async (term: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<Partial<Word> | null> => {
-    if (!ai) {
-        addToast("AI 기능을 사용하려면 API 키가 필요합니다. 환경 변수를 확인해주세요.", "warning");
-        return null;
-    }
-    if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${term}'에 대한 정보 가져오기를 건너뜁니다.`, "warning");
-        return null;
+// --- Spaced Repetition Scheduler (SM-2) ---
+const SRS_DEFAULT_EASE = 2.5;
+const SRS_MIN_EASE = 1.3;
+const SRS_MASTERED_INTERVAL_DAYS = 21; // Words scheduled this far out count as mastered
+
+// Applies one review to a stat and returns the updated scheduling fields.
+const scheduleReview = (stat: WordStat, quality: RecallQuality, now: Date = new Date()): Partial<Omit<WordStat, 'id'>> => {
+    const today = now.toISOString().split('T')[0];
+    const easeFactor = Math.max(SRS_MIN_EASE, stat.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+    let { repetitions, interval, lapses } = stat;
+
+    if (quality < 3) {
+        if (repetitions > 0) lapses += 1;
+        repetitions = 0;
+        interval = 1;
+    } else {
+        repetitions += 1;
+        if (repetitions === 1) interval = 1;
+        else if (repetitions === 2) interval = 6;
+        else interval = Math.round(interval * easeFactor);
+        if (quality === 5) interval = Math.round(interval * 1.3); // Easy bonus
+        if (quality === 3) interval = Math.max(1, Math.round(interval * 0.8));
     }
 
-    setGlobalLoading(true);
-    const modelName = 'gemini-2.5-flash-preview-04-17';
-    const promptText = `Provide details for the English word "${term}". Your response MUST be a JSON object with the following fields: "pronunciation" (phonetic, optional), "partOfSpeech" (e.g., noun, verb, adjective, in Korean e.g., 명사, 동사), "meaning" (Korean meaning), "exampleSentence" (simple English example), "exampleSentenceMeaning" (Korean translation of example). Ensure exampleSentence is appropriate for language learners. If "${term}" seems like a typo or not a common English word, try to correct it if obvious and return details for the corrected term, including the corrected "term" in the JSON. If correction is not obvious or it's not a word, return null for all fields.
+    return {
+        easeFactor: Math.round(easeFactor * 100) / 100,
+        interval,
+        repetitions,
+        lapses,
+        dueDate: addDaysToDateString(today, interval),
+        lastReviewed: now.toISOString(),
+        isMastered: interval >= SRS_MASTERED_INTERVAL_DAYS || (stat.isMastered && quality >= 3),
+    };
+};
 
-Example JSON:
-{
-  "term": "person", 
-  "pronunciation": "/ˈpɜːrsən/",
-  "partOfSpeech": "명사",
-  "meaning": "사람",
-  "exampleSentence": "This is a person.",
-  "exampleSentenceMeaning": "이것은 사람입니다."
-}`;
+const RECALL_GRADE_OPTIONS: { grade: RecallGrade; label: string; quality: RecallQuality; buttonClass: string; textClass: string }[] = [
+    { grade: 'again', label: '다시', quality: 1, buttonClass: 'bg-red-500 hover:bg-red-600', textClass: 'text-red-400' },
+    { grade: 'hard', label: '어려움', quality: 3, buttonClass: 'bg-orange-500 hover:bg-orange-600', textClass: 'text-orange-400' },
+    { grade: 'good', label: '알맞음', quality: 4, buttonClass: 'bg-green-500 hover:bg-green-600', textClass: 'text-green-400' },
+    { grade: 'easy', label: '쉬움', quality: 5, buttonClass: 'bg-sky-500 hover:bg-sky-600', textClass: 'text-sky-400' },
+];
+const AGAIN_REQUEUE_OFFSET = 3; // "다시" cards come back this many cards later in the same session
 
-    let currentDelay = initialDelay;
+const createEmptyGradeCounts = (): Record<RecallGrade, number> => ({ again: 0, hard: 0, good: 0, easy: 0 });
 
-    try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for "${term}" (word details), attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
-                    model: modelName,
-                    contents: promptText,
-                    config: {
-                      responseMimeType: "application/json",
-                      temperature: 0.5, 
-                    }
-                });
-                
-                let jsonStr = response.text?.trim() || '';
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
+// Mastered words stay on the schedule at their long intervals; isMastered is only a label
+const isWordDue = (stat: WordStat, today: string = getTodayDateString()) => {
+    return stat.dueDate !== null && stat.dueDate <= today;
+};
 
-                const data = JSON.parse(jsonStr) as Partial<Word>;
-                
-                if (!data.partOfSpeech || !data.meaning || !data.exampleSentence) {
-                    console.warn("Gemini response missing essential fields for term:", term, data);
-                    if (i < retries) { 
-                        addToast(`AI가 '${term}'에 대한 정보를 일부 누락하여 반환했습니다. 재시도 중...(${i+1}/${retries+1})`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue; 
-                    } else { 
-                        addToast(`AI가 '${term}'에 대한 충분한 정보를 제공하지 못했습니다. (누락된 필드: 뜻, 품사, 또는 예문) 모든 시도 실패.`, "error");
-                        return { term }; 
-                    }
-                }
-                return data;
+// Converts a stat saved before the SRS fields existed into a scheduled stat.
+// Previously reviewed words become due one day after their last review;
+// mastered words get a long interval; frequent quiz mistakes lower the ease.
+const migrateWordStat = (rawStat: any, wordId: WordId): WordStat => {
+    const base = { ...getDefaultWordStat(wordId), ...rawStat, id: wordId } as WordStat;
+    // Words missed before the notebook existed start in it without miss details
+    if (rawStat?.wrongNote === undefined && base.quizIncorrectCount > 0 && !base.isMastered) {
+        base.wrongNote = { misses: [], correctStreak: 0 };
+    }
+    if (typeof rawStat?.easeFactor === 'number' && typeof rawStat?.repetitions === 'number') {
+        return base;
+    }
+    const incorrectCount = Number(rawStat?.quizIncorrectCount) || 0;
+    base.easeFactor = Math.max(SRS_MIN_EASE, SRS_DEFAULT_EASE - 0.15 * incorrectCount);
+    if (base.lastReviewed) {
+        const lastReviewedDate = base.lastReviewed.split('T')[0];
+        base.interval = base.isMastered ? SRS_MASTERED_INTERVAL_DAYS : 1;
+        base.repetitions = base.isMastered ? 3 : 1;
+        base.dueDate = addDaysToDateString(lastReviewedDate, base.interval);
+    } else if (base.isMastered) {
+        base.interval = SRS_MASTERED_INTERVAL_DAYS;
+        base.repetitions = 3;
+        base.dueDate = addDaysToDateString(getTodayDateString(), SRS_MASTERED_INTERVAL_DAYS);
+    }
+    return base;
+};
 
-            } catch (error: any) {
-                console.error(`Error fetching word details from Gemini for "${term}" (attempt ${i + 1}/${retries + 1}):`, error);
-                const errorMessage = String(error.message || String(error)).toLowerCase();
-                let resolvedHttpStatus;
-                if (error && typeof error.status === 'number') {
-                    resolvedHttpStatus = error.status;
-                } else if (error && typeof error.code === 'number' && error.code >= 200 && error.code < 600) {
-                    resolvedHttpStatus = error.code;
-                }
+// Words due today: the student's current grade plus custom words of any grade, most overdue first
+const getDueWords = (words: Word[], wordStats: Record<WordId, WordStat>, grade: string, today: string = getTodayDateString()): Word[] => {
+    const getStat = (wordId: WordId) => wordStats[wordId] || getDefaultWordStat(wordId);
+    return words
+        .filter(w => (w.gradeLevel === grade || w.isCustom) && isWordDue(getStat(w.id), today))
+        .sort((a, b) => (getStat(a.id).dueDate || '').localeCompare(getStat(b.id).dueDate || ''));
+};
 
-                const is429StatusCode = resolvedHttpStatus === 429;
-                const is429InMessage = errorMessage.includes('429');
-                const isRateLimitError = is429StatusCode || is429InMessage;
+// --- Wrong-Answer Notebook ---
+// Consecutive correct quiz answers needed to leave the notebook
+const WRONG_NOTE_CLEAR_STREAK = 3;
+const MAX_WRONG_NOTE_MISSES = 10;
 
-                const isQuotaMessage = errorMessage.includes('resource_exhausted') ||
-                                       errorMessage.includes('quota_exceeded') ||
-                                       errorMessage.includes('exceeded your current quota');
-                
-                const isQuotaExhaustedError = isRateLimitError && isQuotaMessage;
+// Returns the updated notebook entry after a quiz answer; null means the word is (or stays) out of the notebook
+const applyQuizAnswerToWrongNote = (note: WrongNote | null, isCorrect: boolean, miss: WrongAnswerRecord): WrongNote | null => {
+    if (!isCorrect) {
+        return { misses: [miss, ...(note?.misses || [])].slice(0, MAX_WRONG_NOTE_MISSES), correctStreak: 0 };
+    }
+    if (!note) return null;
+    const correctStreak = note.correctStreak + 1;
+    return correctStreak >= WRONG_NOTE_CLEAR_STREAK ? null : { ...note, correctStreak };
+};
 
+// Multiple-choice questions need the answer plus three distractors
+const MIN_CHOICE_QUIZ_WORDS = 4;
 
-                if (isQuotaExhaustedError) {
-                    setGeminiQuotaExhaustedCooldown(addToast, `'${term}' 단어 정보 조회`);
-                    return null; 
-                }
+const getDefaultQuizConfig = (grade: string): QuizConfig => ({
+    source: 'currentGrade',
+    grades: [grade],
+    questionCount: 10,
+    mode: 'meaning',
+});
 
-                if (i < retries) { 
-                    if (isRateLimitError) { 
-                        addToast(`Gemini API 요청 빈도가 높아 '${term}' 정보 가져오기에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    } else { 
-                        addToast(`'${term}' 정보 가져오기 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitError) {
-                         addToast(`Gemini API 요청 빈도가 너무 높습니다 ('${term}'). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`'${term}'에 대한 세부 정보를 AI로부터 가져오는 데 최종 실패했습니다. (오류: ${error.message || String(error)})`, "error");
-                    }
-                    return null; 
-                }
-            }
+// Words a quiz with this configuration can ask about
+const getQuizQuestionPool = (words: Word[], wordStats: Record<WordId, WordStat>, config: QuizConfig, currentGrade: string): Word[] => {
+    const getStat = (wordId: WordId) => wordStats[wordId] || getDefaultWordStat(wordId);
+    const sourceWords = words.filter(w => {
+        switch (config.source) {
+            case 'customWords': return !!w.isCustom;
+            case 'wrongNote': return !!getStat(w.id).wrongNote;
+            case 'wrongWords': return getStat(w.id).quizIncorrectCount > 0;
+            case 'masteredWords': return getStat(w.id).isMastered;
+            case 'grades': return config.grades.includes(w.gradeLevel);
+            default: return w.gradeLevel === currentGrade;
         }
-    } finally {
-        setGlobalLoading(false);
+    });
+    return config.mode === 'cloze' ? sourceWords.filter(w => findClozeBlank(w.exampleSentence, w.term)) : sourceWords;
+};
+
+// Why a quiz cannot start with this pool, or null when it can
+const getQuizPoolProblem = (pool: Word[], allWords: Word[], config: QuizConfig, usesChoices: boolean): string | null => {
+    if (config.source === 'grades' && config.grades.length === 0) return '학년을 하나 이상 선택하세요.';
+    if (pool.length === 0) {
+        return config.mode === 'cloze'
+            ? '선택한 범위에 예문으로 빈칸을 만들 수 있는 단어가 없습니다.'
+            : '선택한 범위에 문제로 낼 단어가 없습니다.';
     }
-    console.warn(`generateWordDetailsWithGemini for "${term}" failed after all retries or due to unexpected flow.`);
-    addToast(`'${term}'에 대한 단어 정보를 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
+    if (usesChoices && allWords.length < MIN_CHOICE_QUIZ_WORDS) return `보기를 만들 단어가 부족합니다. (최소 ${MIN_CHOICE_QUIZ_WORDS}개 필요)`;
     return null;
 };
 
-interface AIExampleSentence {
-    newExampleSentence: string;
-    newExampleSentenceMeaning: string;
-}
+const migrateWordStats = (rawStats: Record<WordId, any>): Record<WordId, WordStat> => {
+    const migrated: Record<WordId, WordStat> = {};
+    Object.entries(rawStats || {}).forEach(([key, rawStat]) => {
+        migrated[key] = migrateWordStat(rawStat, rawStat?.id ?? key);
+    });
+    return migrated;
+};
 
-const generateDifferentExampleSentenceWithGemini = async (word: Word, grade: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<AIExampleSentence | null> => {
-    if (!ai) {
-        addToast("AI 기능을 사용하려면 API 키가 필요합니다.", "warning");
-        return null;
-    }
-     if (isCurrentlyGeminiQuotaExhausted) {
-        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${word.term}'의 새 예문 생성을 건너뜁니다.`, "warning");
-        return null;
-    }
-    setGlobalLoading(true);
-    const modelName = 'gemini-2.5-flash-preview-04-17';
-    const promptText = `You are an English vocabulary tutor for Korean students.
-The user is learning the word: "${word.term}" (Part of speech: ${word.partOfSpeech}, Korean meaning: ${word.meaning}).
-The user's current grade level is: ${grade}.
-The user has already seen this example: "${word.exampleSentence}"
 
-Generate ONE NEW, DIFFERENT, and SIMPLE English example sentence for the word "${word.term}" that is appropriate for a ${grade} Korean student.
-The new example sentence should clearly illustrate the meaning of "${word.term}".
-Your response MUST be a JSON object with the following fields:
-"newExampleSentence": "The new English example sentence.",
-"newExampleSentenceMeaning": "The Korean translation of the new example sentence."
+// --- Printable Sheets ---
+// Paper tests and flashcards are built as standalone HTML documents for printing, and drawn page by page for PDF downloads.
+type PrintQuestionType = 'choice' | 'spelling' | 'cloze';
 
-Example JSON response:
-{
-  "newExampleSentence": "She showed great courage when she helped the lost child.",
-  "newExampleSentenceMeaning": "그녀는 길 잃은 아이를 도왔을 때 대단한 용기를 보여주었다."
-}`;
+const PRINT_QUESTION_TYPE_LABELS: Record<PrintQuestionType, string> = {
+    choice: '객관식 (뜻 고르기)',
+    spelling: '철자 쓰기',
+    cloze: '빈칸 채우기',
+};
 
-    let currentDelay = initialDelay;
-    try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for new example for "${word.term}", attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
-                    model: modelName,
-                    contents: promptText,
-                    config: {
-                      responseMimeType: "application/json",
-                      temperature: 0.7, 
-                    }
-                });
-                
-                let jsonStr = response.text?.trim() || '';
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
-                }
-                const data = JSON.parse(jsonStr) as AIExampleSentence;
+const PRINT_SECTION_INSTRUCTIONS: Record<PrintQuestionType, string> = {
+    choice: '다음 영어 단어의 알맞은 뜻을 고르세요.',
+    spelling: '다음 뜻에 알맞은 영어 단어를 쓰세요.',
+    cloze: '빈칸에 알맞은 영어 단어를 쓰세요.',
+};
 
-                if (!data.newExampleSentence || !data.newExampleSentenceMeaning) {
-                     console.warn("Gemini response missing newExampleSentence or newExampleSentenceMeaning for term:", word.term, data);
-                     if (i < retries) {
-                        addToast(`AI가 '${word.term}' 새 예문 정보를 일부 누락하여 반환했습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                     } else {
-                        addToast(`AI가 '${word.term}'에 대한 새 예문 정보를 충분히 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                     }
-                }
-                return data;
+const CHOICE_MARKS = ['①', '②', '③', '④'];
 
-            } catch (error: any) {
-                console.error(`Error generating new example for "${word.term}" (attempt ${i + 1}/${retries + 1}):`, error);
-                const errorMessage = String(error.message || String(error)).toLowerCase();
-                let resolvedHttpStatus;
-                if (error && typeof error.status === 'number') {
-                    resolvedHttpStatus = error.status;
-                } else if (error && typeof error.code === 'number' && error.code >= 200 && error.code < 600) {
-                    resolvedHttpStatus = error.code;
-                }
+interface PrintableQuestion {
+    type: PrintQuestionType;
+    word: Word;
+    prompt: string;
+    hint?: string;
+    choices?: string[];
+    answer: string;
+}
 
-                const is429StatusCode = resolvedHttpStatus === 429;
-                const is429InMessage = errorMessage.includes('429');
-                const isRateLimitError = is429StatusCode || is429InMessage;
+interface PrintableTest {
+    title: string;
+    subtitle: string;
+    questions: PrintableQuestion[]; // Grouped by type, in PRINT_QUESTION_TYPE_LABELS order
+    createdAt: string;
+}
 
-                const isQuotaMessage = errorMessage.includes('resource_exhausted') ||
-                                       errorMessage.includes('quota_exceeded') ||
-                                       errorMessage.includes('exceeded your current quota');
-                
-                const isQuotaExhaustedError = isRateLimitError && isQuotaMessage;
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Spreads the words over the selected question types; words without a usable example sentence skip cloze
+const buildPrintableTest = (words: Word[], distractorPool: Word[], types: PrintQuestionType[], title: string, subtitle: string): PrintableTest => {
+    const questions: PrintableQuestion[] = [];
+    words.forEach((word, index) => {
+        const clozeBlank = findClozeBlank(word.exampleSentence, word.term);
+        const usableTypes = types.filter(type => type !== 'cloze' || clozeBlank);
+        if (usableTypes.length === 0) return;
+        const type = usableTypes[index % usableTypes.length];
+        if (type === 'choice') {
+            const distractors = pickDistractors(word, distractorPool, []).map(w => w.meaning);
+            const choices = shuffleArray([word.meaning, ...distractors]);
+            questions.push({ type, word, prompt: word.term, choices, answer: `${CHOICE_MARKS[choices.indexOf(word.meaning)]} ${word.meaning}` });
+        } else if (type === 'spelling') {
+            questions.push({ type, word, prompt: `${word.meaning} (${word.partOfSpeech})`, hint: `${word.term[0]}${'_'.repeat(Math.max(0, word.term.length - 1))}`, answer: word.term });
+        } else if (clozeBlank) {
+            questions.push({ type, word, prompt: `${clozeBlank.before}(        )${clozeBlank.after}`, hint: word.exampleSentenceMeaning, answer: clozeBlank.answer });
+        }
+    });
+    const typeOrder = Object.keys(PRINT_QUESTION_TYPE_LABELS) as PrintQuestionType[];
+    questions.sort((a, b) => typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type));
+    return { title, subtitle, questions, createdAt: new Date().toISOString() };
+};
 
-                if (isQuotaExhaustedError) {
-                    setGeminiQuotaExhaustedCooldown(addToast, `'${word.term}' AI 예문 생성`);
-                    return null; 
-                }
+const PRINT_BASE_CSS = `
+    @page { size: A4; margin: 15mm; }
+    * { box-sizing: border-box; }
+    body { font-family: 'Noto Sans KR', 'Malgun Gothic', 'Apple SD Gothic Neo', sans-serif; color: #111; margin: 0; padding: 16px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    h2 { font-size: 15px; margin: 20px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #999; }
+    .subtitle { color: #555; font-size: 12px; }
+    .page-break { page-break-before: always; break-before: page; }
+    .toolbar { position: sticky; top: 0; background: #f1f5f9; padding: 8px; margin: -16px -16px 16px; display: flex; gap: 8px; }
+    .toolbar button { padding: 6px 14px; font-size: 14px; cursor: pointer; }
+    @media print { .toolbar { display: none; } body { padding: 0; } }
+`;
+
+const buildPrintDocument = (title: string, bodyHtml: string, extraCss = '') => `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_BASE_CSS}${extraCss}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">🖨️ 인쇄 / PDF로 저장</button><button onclick="window.close()">닫기</button></div>
+${bodyHtml}
+</body>
+</html>`;
+
+const TEST_SHEET_CSS = `
+    .header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #111; padding-bottom: 8px; }
+    .student { font-size: 13px; text-align: right; line-height: 2; }
+    ol.questions { padding-left: 28px; margin: 0; }
+    ol.questions > li { margin-bottom: 12px; page-break-inside: avoid; break-inside: avoid; font-size: 14px; }
+    .term { font-weight: bold; font-size: 16px; }
+    .choices { display: grid; grid-template-columns: repeat(4, 1fr); gap: 4px 12px; margin-top: 4px; }
+    .hint { color: #666; font-size: 12px; }
+    .blank { display: inline-block; min-width: 140px; border-bottom: 1px solid #111; margin-left: 8px; }
+    .answers { columns: 3; column-gap: 24px; font-size: 13px; padding-left: 28px; }
+    .answers li { margin-bottom: 4px; break-inside: avoid; }
+`;
+
+// Test questions and/or answer key; the answer key always starts on its own page
+const buildTestSheetHtml = (test: PrintableTest, { includeQuestions, includeAnswerKey }: { includeQuestions: boolean; includeAnswerKey: boolean }) => {
+    const typeOrder = Object.keys(PRINT_QUESTION_TYPE_LABELS) as PrintQuestionType[];
+    const header = (heading: string) => `
+        <div class="header">
+            <div><h1>${escapeHtml(heading)}</h1><div class="subtitle">${escapeHtml(test.subtitle)} · ${test.questions.length}문항</div></div>
+            <div class="student">이름: ______________<br>점수: ______ / ${test.questions.length}</div>
+        </div>`;
+    let questionHtml = '';
+    let questionNumber = 1;
+    typeOrder.forEach((type, sectionIndex) => {
+        const sectionQuestions = test.questions.filter(q => q.type === type);
+        if (sectionQuestions.length === 0) return;
+        const items = sectionQuestions.map(q => {
+            if (q.type === 'choice') {
+                const choices = (q.choices || []).map((choice, i) => `<span>${CHOICE_MARKS[i]} ${escapeHtml(choice)}</span>`).join('');
+                return `<li><span class="term">${escapeHtml(q.prompt)}</span><div class="choices">${choices}</div></li>`;
+            }
+            if (q.type === 'spelling') {
+                return `<li>${escapeHtml(q.prompt)} <span class="hint">(${escapeHtml(q.hint || '')})</span><span class="blank">&nbsp;</span></li>`;
+            }
+            return `<li>${escapeHtml(q.prompt)}${q.hint ? `<div class="hint">${escapeHtml(q.hint)}</div>` : ''}</li>`;
+        }).join('');
+        questionHtml += `<h2>${['I', 'II', 'III'][sectionIndex]}. ${PRINT_SECTION_INSTRUCTIONS[type]}</h2><ol class="questions" start="${questionNumber}">${items}</ol>`;
+        questionNumber += sectionQuestions.length;
+    });
+    const answerItems = test.questions.map(q => `<li>${escapeHtml(q.answer)}</li>`).join('');
+    const answerKeyHtml = `<div class="header"><div><h1>${escapeHtml(test.title)} - 정답</h1><div class="subtitle">${escapeHtml(test.subtitle)}</div></div></div><ol class="answers">${answerItems}</ol>`;
 
-                if (i < retries) { 
-                    if (isRateLimitError) { 
-                        addToast(`Gemini API 요청 빈도가 높아 '${word.term}' 새 예문 생성에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    } else { 
-                        addToast(`'${word.term}' 새 예문 생성 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2; 
-                } else { 
-                    if (isRateLimitError) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 ('${word.term}' 새 예문 생성). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`'${word.term}'에 대한 새로운 예문을 AI로부터 가져오는 데 최종 실패했습니다: ${error.message || String(error)}`, "error");
-                    }
-                    return null;
-                }
+    const parts: string[] = [];
+    if (includeQuestions) parts.push(header(test.title) + questionHtml);
+    if (includeAnswerKey) parts.push(includeQuestions ? `<div class="page-break">${answerKeyHtml}</div>` : answerKeyHtml);
+    return buildPrintDocument(test.title, parts.join(''), TEST_SHEET_CSS);
+};
+
+// --- PDF Export ---
+// Pages are drawn on a canvas with the browser's own fonts, so Hangul needs no embedded font file,
+// and each page is stored as one JPEG image in a minimal PDF. The text in the file is not selectable.
+const PDF_PAGE_WIDTH = 595.28; // A4 in points
+const PDF_PAGE_HEIGHT = 841.89;
+const PDF_PIXELS_PER_POINT = 2.5; // About 180 dpi, sharp enough for printing
+const PDF_MM = 72 / 25.4;
+const PDF_FONT_FAMILY = "'Noto Sans KR', 'Malgun Gothic', 'Apple SD Gothic Neo', sans-serif";
+
+// Returns a white A4 page whose drawing units are points
+const createPdfPage = (): CanvasRenderingContext2D => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(PDF_PAGE_WIDTH * PDF_PIXELS_PER_POINT);
+    canvas.height = Math.round(PDF_PAGE_HEIGHT * PDF_PIXELS_PER_POINT);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(PDF_PIXELS_PER_POINT, PDF_PIXELS_PER_POINT);
+    ctx.textBaseline = 'top';
+    return ctx;
+};
+
+const setPdfFont = (ctx: CanvasRenderingContext2D, size: number, { bold = false, color = '#111' }: { bold?: boolean; color?: string } = {}) => {
+    ctx.font = `${bold ? 'bold ' : ''}${size}px ${PDF_FONT_FAMILY}`;
+    ctx.fillStyle = color;
+};
+
+// Breaks text into lines no wider than maxWidth in the current font: at spaces where possible, otherwise between characters
+const wrapPdfText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    text.split(' ').forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width <= maxWidth) {
+            line = candidate;
+            return;
+        }
+        if (line) lines.push(line);
+        line = '';
+        Array.from(word).forEach(char => {
+            if (line && ctx.measureText(line + char).width > maxWidth) {
+                lines.push(line);
+                line = '';
             }
+            line += char;
+        });
+    });
+    lines.push(line);
+    return lines;
+};
+
+const canvasToJpegBytes = (canvas: HTMLCanvasElement) => new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(blob => {
+        if (!blob) {
+            reject(new Error('Failed to encode a PDF page'));
+            return;
         }
-    } finally {
-        setGlobalLoading(false);
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', 0.92);
+});
+
+// PDF text strings outside ASCII are written as UTF-16BE hex with a byte order mark
+const toPdfTextString = (text: string) => `<FEFF${Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('')}>`;
+
+const buildPdfFromPages = async (pages: CanvasRenderingContext2D[], title: string): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const writeObject = (id: number, body: string) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\nendobj\n`);
+    };
+
+    // Objects: 1 catalog, 2 page tree, 3 info, then a page, its content stream and its image for each page
+    const pageIds = pages.map((_, index) => 4 + index * 3);
+    write('%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    writeObject(3, `<< /Title ${toPdfTextString(title)} /Producer (syongjik) >>`);
+    for (const [index, page] of pages.entries()) {
+        const pageId = pageIds[index];
+        const drawImage = `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Page Do Q`;
+        const image = await canvasToJpegBytes(page.canvas);
+        writeObject(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /XObject << /Page ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`);
+        writeObject(pageId + 1, `<< /Length ${drawImage.length} >>\nstream\n${drawImage}\nendstream`);
+        offsets[pageId + 2] = length;
+        write(`${pageId + 2} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${page.canvas.width} /Height ${page.canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.length} >>\nstream\n`);
+        write(image);
+        write('\nendstream\nendobj\n');
     }
-    console.warn(`generateDifferentExampleSentenceWithGemini for "${word.term}" failed after all retries or due to unexpected flow.`);
-    addToast(`'${word.term}'에 대한 새로운 예문을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
+
+    const xrefOffset = length;
+    const objectCount = 3 + pages.length * 3;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks, { type: 'application/pdf' });
 };
 
-const generateSummaryWithGemini = async (textToSummarize: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 5000): Promise<string | null> => {
-    if (!ai) {
-        addToast("AI 요약 기능을 사용하려면 API 키가 필요합니다.", "warning");
-        return null;
-    }
-    if (isCurrentlyGeminiQuotaExhausted) {
-        addToast("Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. 텍스트 요약을 건너뜁니다.", "warning");
-        return null;
-    }
-    if (!textToSummarize.trim()) {
-        addToast("요약할 텍스트가 없습니다.", "info");
-        return null;
-    }
-    setGlobalLoading(true);
-    const modelName = 'gemini-2.5-flash-preview-04-17';
-    const promptText = `Your response MUST be a JSON object with a "summary" field. Please provide a brief summary of the following text in Korean (around 2-3 sentences), focusing on the main topics or themes. Text: """${textToSummarize.substring(0, 30000)}"""`; 
+// Lays out the same sheets as buildTestSheetHtml, moving a question to the next page when it does not fit
+const drawTestSheetPdfPages = (test: PrintableTest, { includeQuestions, includeAnswerKey }: { includeQuestions: boolean; includeAnswerKey: boolean }) => {
+    const margin = 15 * PDF_MM;
+    const contentWidth = PDF_PAGE_WIDTH - margin * 2;
+    let ctx = createPdfPage();
+    const pages = [ctx];
+    let y = margin;
+    const newPage = () => {
+        ctx = createPdfPage();
+        pages.push(ctx);
+        y = margin;
+    };
+    const ensureSpace = (height: number) => {
+        if (y + height > PDF_PAGE_HEIGHT - margin) newPage();
+    };
+    const drawRule = (atY: number, width: number, color: string) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(margin, atY, contentWidth, width);
+    };
+    const drawHeader = (heading: string, subtitle: string, withStudentBox: boolean) => {
+        setPdfFont(ctx, 17, { bold: true });
+        wrapPdfText(ctx, heading, contentWidth - (withStudentBox ? 150 : 0)).forEach(line => {
+            ctx.fillText(line, margin, y);
+            y += 22;
+        });
+        setPdfFont(ctx, 9, { color: '#555' });
+        ctx.fillText(subtitle, margin, y);
+        if (withStudentBox) {
+            setPdfFont(ctx, 10);
+            ctx.textAlign = 'right';
+            ctx.fillText('이름: ______________', PDF_PAGE_WIDTH - margin, margin);
+            ctx.fillText(`점수: ______ / ${test.questions.length}`, PDF_PAGE_WIDTH - margin, margin + 20);
+            ctx.textAlign = 'left';
+        }
+        y = Math.max(y + 16, withStudentBox ? margin + 40 : 0);
+        drawRule(y, 1.5, '#111');
+        y += 12;
+    };
 
-    let currentDelay = initialDelay;
-    try {
-        for (let i = 0; i <= retries; i++) {
-            try {
-                console.log(`Gemini request for text summary, attempt ${i + 1}/${retries + 1}`);
-                const response: GenerateContentResponse = await ai.models.generateContent({
-                    model: modelName,
-                    contents: promptText,
-                    config: {
-                        responseMimeType: "application/json",
-                        temperature: 0.6,
+    if (includeQuestions) {
+        drawHeader(test.title, `${test.subtitle} · ${test.questions.length}문항`, true);
+        const typeOrder = Object.keys(PRINT_QUESTION_TYPE_LABELS) as PrintQuestionType[];
+        const textX = margin + 24;
+        const textWidth = contentWidth - 24;
+        let questionNumber = 1;
+        typeOrder.forEach((type, sectionIndex) => {
+            const sectionQuestions = test.questions.filter(q => q.type === type);
+            if (sectionQuestions.length === 0) return;
+            ensureSpace(60);
+            y += 8;
+            setPdfFont(ctx, 11.5, { bold: true });
+            ctx.fillText(`${['I', 'II', 'III'][sectionIndex]}. ${PRINT_SECTION_INSTRUCTIONS[type]}`, margin, y);
+            drawRule(y + 17, 0.75, '#999');
+            y += 26;
+
+            sectionQuestions.forEach(q => {
+                // Each question is measured first so it is never split across pages
+                const blocks: { lines: string[]; size: number; bold?: boolean; color?: string; columns?: number }[] = [];
+                let blankAfterText = false;
+                if (q.type === 'choice') {
+                    setPdfFont(ctx, 12, { bold: true });
+                    blocks.push({ lines: wrapPdfText(ctx, q.prompt, textWidth), size: 12, bold: true });
+                    setPdfFont(ctx, 10.5);
+                    const choices = (q.choices || []).map((choice, i) => `${CHOICE_MARKS[i]} ${choice}`);
+                    const columns = [4, 2].find(count => choices.every(choice => ctx.measureText(choice).width <= textWidth / count - 8)) || 1;
+                    blocks.push({ lines: columns > 1 ? choices : choices.flatMap(choice => wrapPdfText(ctx, choice, textWidth)), size: 10.5, columns });
+                } else if (q.type === 'spelling') {
+                    setPdfFont(ctx, 10.5);
+                    const lines = wrapPdfText(ctx, `${q.prompt} (${q.hint || ''})`, textWidth);
+                    blankAfterText = ctx.measureText(lines[lines.length - 1]).width + 128 <= textWidth;
+                    blocks.push({ lines: blankAfterText ? lines : [...lines, ''], size: 10.5 });
+                } else {
+                    setPdfFont(ctx, 10.5);
+                    blocks.push({ lines: wrapPdfText(ctx, q.prompt, textWidth), size: 10.5 });
+                    if (q.hint) {
+                        setPdfFont(ctx, 9, { color: '#666' });
+                        blocks.push({ lines: wrapPdfText(ctx, q.hint, textWidth), size: 9, color: '#666' });
                     }
+                }
+                const blockHeight = (block: typeof blocks[number]) => Math.ceil(block.lines.length / (block.columns || 1)) * block.size * 1.5;
+                ensureSpace(blocks.reduce((sum, block) => sum + blockHeight(block), 0) + 10);
+
+                setPdfFont(ctx, 10.5);
+                ctx.fillText(`${questionNumber}.`, margin + 4, y + 1);
+                blocks.forEach(block => {
+                    setPdfFont(ctx, block.size, { bold: block.bold, color: block.color });
+                    const columns = block.columns || 1;
+                    block.lines.forEach((line, i) => {
+                        ctx.fillText(line, textX + (i % columns) * (textWidth / columns), y + Math.floor(i / columns) * block.size * 1.5);
+                    });
+                    y += blockHeight(block);
                 });
-
-                let jsonStr = response.text?.trim() || '';
-                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                const match = jsonStr.match(fenceRegex);
-                if (match && match[2]) {
-                    jsonStr = match[2].trim();
+                if (q.type === 'spelling') {
+                    const lastLine = blocks[0].lines[blocks[0].lines.length - 1];
+                    setPdfFont(ctx, 10.5);
+                    const blankX = textX + (blankAfterText ? ctx.measureText(lastLine).width + 8 : 0);
+                    ctx.fillStyle = '#111';
+                    ctx.fillRect(blankX, y - 3, 120, 0.75);
                 }
-                const data = JSON.parse(jsonStr) as { summary: string };
+                y += 10;
+                questionNumber += 1;
+            });
+        });
+    }
 
-                if (!data.summary || !data.summary.trim()) {
-                    console.warn("Gemini response missing summary field.", data);
-                    if (i < retries) {
-                        addToast(`AI 요약 생성 중 내용이 누락되었습니다. 재시도 중...`, "warning");
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        currentDelay *= 2;
-                        continue;
-                    } else {
-                        addToast(`AI가 텍스트 요약을 제공하지 못했습니다. 모든 시도 실패.`, "error");
-                        return null;
-                    }
-                }
-                return data.summary;
+    if (includeAnswerKey) {
+        if (includeQuestions) newPage();
+        drawHeader(`${test.title} - 정답`, test.subtitle, false);
+        const columns = 3;
+        const columnWidth = contentWidth / columns;
+        setPdfFont(ctx, 10);
+        for (let start = 0; start < test.questions.length; start += columns) {
+            const row = test.questions.slice(start, start + columns).map((q, i) => wrapPdfText(ctx, `${start + i + 1}. ${q.answer}`, columnWidth - 12));
+            const rowHeight = Math.max(...row.map(lines => lines.length)) * 15 + 4;
+            ensureSpace(rowHeight);
+            setPdfFont(ctx, 10);
+            row.forEach((lines, i) => lines.forEach((line, lineIndex) => ctx.fillText(line, margin + i * columnWidth, y + lineIndex * 15)));
+            y += rowHeight;
+        }
+    }
+    return pages;
+};
 
-            } catch (error: any) {
-                console.error(`Error generating summary from Gemini (attempt ${i + 1}/${retries + 1}):`, error);
-                const errorMessage = String(error.message || String(error)).toLowerCase();
-                let resolvedHttpStatus;
-                if (error && typeof error.status === 'number') {
-                    resolvedHttpStatus = error.status;
-                } else if (error && typeof error.code === 'number' && error.code >= 200 && error.code < 600) {
-                    resolvedHttpStatus = error.code;
-                }
+// Cards per A4 page, always in two columns
+const FLASHCARD_CARDS_PER_PAGE_OPTIONS = [4, 6, 8, 10];
+const FLASHCARD_COLUMNS = 2;
 
-                const is429StatusCode = resolvedHttpStatus === 429;
-                const is429InMessage = errorMessage.includes('429');
-                const isRateLimitError = is429StatusCode || is429InMessage;
+interface FlashcardPrintOptions {
+    cardsPerPage: number;
+    showCutLines: boolean;
+    mirrorBacks: boolean; // Reverse each row on back pages so fronts and backs line up when printed double-sided (long-edge flip)
+}
 
-                const isQuotaMessage = errorMessage.includes('resource_exhausted') ||
-                                       errorMessage.includes('quota_exceeded') ||
-                                       errorMessage.includes('exceeded your current quota');
-                
-                const isQuotaExhaustedError = isRateLimitError && isQuotaMessage;
+// Cards of each front page and its matching back page, in reading order; empty slots are null
+const getFlashcardSheets = (words: Word[], { cardsPerPage, mirrorBacks }: FlashcardPrintOptions) => {
+    const rows = Math.ceil(cardsPerPage / FLASHCARD_COLUMNS);
+    const sheets: { front: (Word | null)[]; back: (Word | null)[] }[] = [];
+    const pageCount = Math.ceil(words.length / cardsPerPage);
+    for (let page = 0; page < pageCount; page++) {
+        // Pad the last page so mirrored backs keep their positions
+        const pageWords: (Word | null)[] = words.slice(page * cardsPerPage, (page + 1) * cardsPerPage);
+        while (pageWords.length < rows * FLASHCARD_COLUMNS) pageWords.push(null);
+        const backWords: (Word | null)[] = [];
+        for (let row = 0; row < rows; row++) {
+            const rowWords = pageWords.slice(row * FLASHCARD_COLUMNS, (row + 1) * FLASHCARD_COLUMNS);
+            backWords.push(...(mirrorBacks ? rowWords.reverse() : rowWords));
+        }
+        sheets.push({ front: pageWords, back: backWords });
+    }
+    return sheets;
+};
 
-                if (isQuotaExhaustedError) {
-                    setGeminiQuotaExhaustedCooldown(addToast, "텍스트 요약");
-                    return null; 
-                }
+const buildFlashcardSheetHtml = (words: Word[], title: string, options: FlashcardPrintOptions) => {
+    const { cardsPerPage, showCutLines } = options;
+    const rows = Math.ceil(cardsPerPage / FLASHCARD_COLUMNS);
+    const css = `
+        @page { size: A4; margin: 10mm; }
+        .sheet { height: 277mm; display: grid; grid-template-columns: repeat(${FLASHCARD_COLUMNS}, 1fr); grid-template-rows: repeat(${rows}, 1fr); break-after: page; page-break-after: always; }
+        .sheet:last-child { break-after: auto; page-break-after: auto; }
+        .card { display: flex; flex-direction: column; justify-content: center; align-items: center; text-align: center; padding: 6mm; overflow: hidden; ${showCutLines ? 'outline: 1px dashed #999; outline-offset: -0.5px;' : ''} }
+        .card .term { font-size: 28px; font-weight: bold; }
+        .card .pronunciation { color: #555; margin-top: 4px; }
+        .card .pos { color: #555; font-size: 12px; }
+        .card .meaning { font-size: 20px; font-weight: bold; margin: 4px 0 8px; }
+        .card .example { font-size: 13px; }
+        .card .example-meaning { font-size: 12px; color: #555; margin-top: 2px; }
+        @media screen { .sheet { border: 1px solid #ccc; margin-bottom: 16px; } .side-label { font-size: 12px; color: #666; margin: 8px 0 4px; } }
+        @media print { .side-label { display: none; } }
+    `;
+    const front = (word: Word) => `<div class="card"><div class="term">${escapeHtml(word.term)}</div>${word.pronunciation ? `<div class="pronunciation">[${escapeHtml(word.pronunciation)}]</div>` : ''}</div>`;
+    const back = (word: Word) => `<div class="card">
+        <div class="pos">${escapeHtml(word.partOfSpeech || '')}</div>
+        <div class="meaning">${escapeHtml(word.meaning)}</div>
+        ${word.exampleSentence ? `<div class="example">${escapeHtml(word.exampleSentence)}</div>` : ''}
+        ${word.exampleSentenceMeaning ? `<div class="example-meaning">${escapeHtml(word.exampleSentenceMeaning)}</div>` : ''}
+    </div>`;
+    const emptyCard = '<div class="card"></div>';
+
+    const body = getFlashcardSheets(words, options).map((sheet, page) => (
+        `<div class="side-label">${page + 1}쪽 앞면</div><div class="sheet">${sheet.front.map(w => (w ? front(w) : emptyCard)).join('')}</div>`
+        + `<div class="side-label">${page + 1}쪽 뒷면</div><div class="sheet">${sheet.back.map(w => (w ? back(w) : emptyCard)).join('')}</div>`
+    )).join('');
+    return buildPrintDocument(title, body, css);
+};
 
-                if (i < retries) {
-                    if (isRateLimitError) {
-                        addToast(`Gemini API 요청 빈도가 높아 텍스트 요약에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
-                    } else {
-                        addToast(`텍스트 요약 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    currentDelay *= 2;
-                } else { 
-                    if (isRateLimitError) {
-                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (텍스트 요약). 잠시 후 다시 시도해주세요.`, "error");
-                    } else {
-                        addToast(`텍스트 요약을 AI로부터 가져오는 데 최종 실패했습니다: ${error.message || String(error)}`, "error");
-                    }
-                    return null;
-                }
-            }
+// Same card grid as buildFlashcardSheetHtml; text that does not fit a card is cut off at its edges
+const drawFlashcardPdfPages = (words: Word[], options: FlashcardPrintOptions) => {
+    const margin = 10 * PDF_MM;
+    const padding = 6 * PDF_MM;
+    const rows = Math.ceil(options.cardsPerPage / FLASHCARD_COLUMNS);
+    const cardWidth = (PDF_PAGE_WIDTH - margin * 2) / FLASHCARD_COLUMNS;
+    const cardHeight = (PDF_PAGE_HEIGHT - margin * 2) / rows;
+    type CardLine = { text: string; size: number; bold?: boolean; color?: string; gapAfter?: number };
+    const frontLines = (word: Word): CardLine[] => [
+        { text: word.term, size: 21, bold: true, gapAfter: 3 },
+        ...(word.pronunciation ? [{ text: `[${word.pronunciation}]`, size: 12, color: '#555' }] : []),
+    ];
+    const backLines = (word: Word): CardLine[] => [
+        ...(word.partOfSpeech ? [{ text: word.partOfSpeech, size: 9, color: '#555' }] : []),
+        { text: word.meaning, size: 15, bold: true, gapAfter: 6 },
+        ...(word.exampleSentence ? [{ text: word.exampleSentence, size: 10 }] : []),
+        ...(word.exampleSentenceMeaning ? [{ text: word.exampleSentenceMeaning, size: 9, color: '#555' }] : []),
+    ];
+
+    const drawCard = (ctx: CanvasRenderingContext2D, lines: CardLine[], x: number, y: number) => {
+        if (options.showCutLines) {
+            ctx.save();
+            ctx.strokeStyle = '#999';
+            ctx.lineWidth = 0.75;
+            ctx.setLineDash([3, 3]);
+            ctx.strokeRect(x, y, cardWidth, cardHeight);
+            ctx.restore();
         }
-    } finally {
-        setGlobalLoading(false);
-    }
-     console.warn(`generateSummaryWithGemini failed after all retries or due to unexpected flow.`);
-    addToast(`텍스트 요약을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
-    return null;
+        const wrapped = lines.map(line => {
+            setPdfFont(ctx, line.size, { bold: line.bold });
+            return { ...line, wrappedText: wrapPdfText(ctx, line.text, cardWidth - padding * 2) };
+        });
+        const lineHeight = (line: CardLine) => line.size * 1.35;
+        const textHeight = wrapped.reduce((sum, line) => sum + line.wrappedText.length * lineHeight(line) + (line.gapAfter || 0), 0);
+        let textY = y + Math.max(padding, (cardHeight - textHeight) / 2);
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x, y, cardWidth, cardHeight);
+        ctx.clip();
+        ctx.textAlign = 'center';
+        wrapped.forEach(line => {
+            setPdfFont(ctx, line.size, { bold: line.bold, color: line.color });
+            line.wrappedText.forEach(text => {
+                ctx.fillText(text, x + cardWidth / 2, textY);
+                textY += lineHeight(line);
+            });
+            textY += line.gapAfter || 0;
+        });
+        ctx.restore();
+    };
+
+    const drawSide = (cards: (Word | null)[], getLines: (word: Word) => CardLine[]) => {
+        const ctx = createPdfPage();
+        cards.forEach((word, index) => {
+            const x = margin + (index % FLASHCARD_COLUMNS) * cardWidth;
+            const y = margin + Math.floor(index / FLASHCARD_COLUMNS) * cardHeight;
+            drawCard(ctx, word ? getLines(word) : [], x, y);
+        });
+        return ctx;
+    };
+    return getFlashcardSheets(words, options).flatMap(sheet => [drawSide(sheet.front, frontLines), drawSide(sheet.back, backLines)]);
 };
 
-// --- UI Components ---
+// Returns false when the browser blocked the popup
+const openPrintWindow = (html: string): boolean => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+    return true;
+};
 
-// Confirmation Modal
-interface ConfirmationModalProps {
-    isOpen: boolean;
-    title: string;
-    message: string;
-    onConfirm: () => void;
-    onCancel: () => void;
-    confirmText?: string;
-    cancelText?: string;
-    confirmButtonClass?: string;
+const downloadTextFile = (content: string, fileName: string, mimeType: string) => {
+    downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// --- Trash ---
+// Deleted custom words wait here with their stats so they can be restored
+const TRASH_RETENTION_DAYS = 30;
+
+interface TrashedWord {
+    word: Word;
+    stat: WordStat | null;
+    deletedAt: string;
 }
-const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, title, message, onConfirm, onCancel, confirmText = "확인", cancelText = "취소", confirmButtonClass = "bg-red-600 hover:bg-red-700" }) => {
-    const cancelButtonRef = useRef<HTMLButtonElement>(null);
 
-    useEffect(() => {
-        if (isOpen && cancelButtonRef.current) {
-            cancelButtonRef.current.focus();
+const getTrashDaysLeft = (item: TrashedWord, now = new Date()) => {
+    const elapsedDays = (now.getTime() - new Date(item.deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+    return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsedDays));
+};
+
+const purgeExpiredTrash = (trash: TrashedWord[], now = new Date()) => trash.filter(item => getTrashDaysLeft(item, now) > 0);
+
+// --- Storage Layer ---
+// Learning data lives in IndexedDB so that words and stats are written one record at a time.
+// Browsers without IndexedDB fall back to the old whole-blob localStorage keys. The theme stays in localStorage because it is read before the first render.
+// Each learner profile gets its own namespace: a separate database, or a key prefix in localStorage. The null namespace is the pre-profile data.
+interface StoredRecords {
+    myWords: Word;
+    wordStats: WordStat;
+    syncOutbox: RemoteChange; // Changes waiting to be pushed to the sync server
+}
+type RecordStoreName = keyof StoredRecords;
+type LearningRecordStoreName = Exclude<RecordStoreName, 'syncOutbox'>;
+
+interface StoredValues {
+    userSettings: UserSettings;
+    learnedWordsHistory: { date: string; count: number }[];
+    quizHistory: QuizHistoryEntry[];
+    speedChallengeBests: Record<string, SpeedChallengeRecord[]>;
+    matchingGameHistory: MatchingGameRecord[];
+    learnSession: LearnSessionSnapshot;
+    quizSession: QuizSessionSnapshot;
+    trashedWords: TrashedWord[];
+    syncSettings: SyncSettings;
+    syncState: SyncState;
+    wordPackPreferences: WordPackPreferences;
+    schemaVersion: number;
+}
+type StoredValueKey = keyof StoredValues;
+
+// 'list' stores keep their order (saved as an array in localStorage), 'map' stores are keyed objects
+const RECORD_STORE_LAYOUTS: Record<RecordStoreName, 'list' | 'map'> = {
+    myWords: 'list',
+    wordStats: 'map',
+    syncOutbox: 'list',
+};
+const RECORD_STORE_NAMES = Object.keys(RECORD_STORE_LAYOUTS) as RecordStoreName[];
+const STORED_VALUE_KEYS: StoredValueKey[] = ['userSettings', 'learnedWordsHistory', 'quizHistory', 'speedChallengeBests', 'matchingGameHistory', 'learnSession', 'quizSession', 'trashedWords', 'syncSettings', 'syncState', 'wordPackPreferences', 'schemaVersion'];
+
+// Data that cannot be read or migrated is copied under this prefix instead of being deleted
+const RECOVERY_KEY_PREFIX = '__recovery:';
+const getRecoveryKey = (label: string) => `${RECOVERY_KEY_PREFIX}${label}:${new Date().toISOString()}`;
+
+interface StorageRecord<T> {
+    key: string;
+    value: T;
+}
+
+interface RecordChanges<T> {
+    all: StorageRecord<T>[]; // Full ordered list for backends that can only rewrite the whole collection
+    upserts: StorageRecord<T>[];
+    removedKeys: string[];
+    orderChanged: boolean;
+}
+
+interface AppStorage {
+    backend: 'indexedDB' | 'localStorage';
+    loadRecords: <K extends RecordStoreName>(store: K) => Promise<StorageRecord<StoredRecords[K]>[]>;
+    saveRecords: <K extends RecordStoreName>(store: K, changes: RecordChanges<StoredRecords[K]>) => Promise<void>;
+    loadValue: <K extends StoredValueKey>(key: K) => Promise<StoredValues[K] | null>;
+    saveValue: <K extends StoredValueKey>(key: K, value: StoredValues[K] | null) => Promise<void>; // null removes the value
+    saveRecoveryCopy: (label: string, raw: unknown) => Promise<string>; // Resolves to the key the copy was kept under
+    close: () => void;
+}
+
+// Records are compared by reference, which works because state updates always replace changed objects
+const diffStorageRecords = <T,>(previous: StorageRecord<T>[], next: StorageRecord<T>[]): RecordChanges<T> => {
+    const previousValues = new Map(previous.map(record => [record.key, record.value]));
+    const nextKeys = new Set(next.map(record => record.key));
+    return {
+        all: next,
+        upserts: next.filter(record => previousValues.get(record.key) !== record.value),
+        removedKeys: previous.filter(record => !nextKeys.has(record.key)).map(record => record.key),
+        orderChanged: previous.length !== next.length || next.some((record, index) => previous[index].key !== record.key),
+    };
+};
+
+const hasRecordChanges = (changes: RecordChanges<unknown>) => changes.upserts.length > 0 || changes.removedKeys.length > 0 || changes.orderChanged;
+
+// Keys of unparseable localStorage entries moved aside during this page load
+const recoveredLocalStorageKeys: string[] = [];
+
+const getLocalStoragePrefix = (namespace: string | null) => (namespace ? `profile:${namespace}:` : '');
+
+const readLocalStorageJson = (key: string, prefix = ''): any => {
+    const saved = localStorage.getItem(prefix + key);
+    if (!saved) return null;
+    try {
+        return JSON.parse(saved);
+    } catch (e) {
+        console.error(`Failed to parse ${prefix + key} from localStorage:`, e);
+        const recoveryKey = prefix + getRecoveryKey(key);
+        try {
+            localStorage.setItem(recoveryKey, saved);
+            localStorage.removeItem(prefix + key);
+            recoveredLocalStorageKeys.push(recoveryKey);
+        } catch (copyError) {
+            // Leave the original in place rather than lose it
+            console.error(`Failed to keep a recovery copy of ${key}:`, copyError);
         }
-    }, [isOpen]);
-    
-    if (!isOpen) return null;
+        return null;
+    }
+};
 
-    return (
-        <div role="dialog" aria-modal="true" aria-labelledby="confirmation-modal-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-[60] animate-fadeIn">
-            <div className="bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md">
-                <h3 id="confirmation-modal-title" className="text-xl font-semibold text-cyan-400 mb-4">{title}</h3>
-                <p className="text-slate-300 mb-6">{message}</p>
-                <div className="flex justify-end space-x-3">
-                    <button ref={cancelButtonRef} onClick={onCancel} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white transition-colors">
-                        {cancelText}
-                    </button>
-                    <button onClick={onConfirm} className={`px-4 py-2 rounded text-white transition-colors ${confirmButtonClass}`}>
-                        {confirmText}
-                    </button>
-                </div>
-            </div>
-        </div>
-    );
+const readLocalStorageRecords = (store: RecordStoreName, prefix: string): StorageRecord<any>[] => {
+    const saved = readLocalStorageJson(store, prefix);
+    if (!saved) return [];
+    if (RECORD_STORE_LAYOUTS[store] === 'list') {
+        return Array.isArray(saved) ? saved.map((value: any) => ({ key: String(value?.id), value })) : [];
+    }
+    return Object.entries(saved).map(([key, value]) => ({ key, value }));
 };
 
+const createLocalStorageBackend = (namespace: string | null): AppStorage => {
+    const prefix = getLocalStoragePrefix(namespace);
+    return {
+        backend: 'localStorage',
+        loadRecords: async (store) => readLocalStorageRecords(store, prefix),
+        saveRecords: async (store, { all }) => {
+            const serialized = RECORD_STORE_LAYOUTS[store] === 'list'
+                ? all.map(record => record.value)
+                : Object.fromEntries(all.map(record => [record.key, record.value]));
+            localStorage.setItem(prefix + store, JSON.stringify(serialized));
+        },
+        loadValue: async (key) => readLocalStorageJson(key, prefix),
+        saveValue: async (key, value) => {
+            if (value === null) localStorage.removeItem(prefix + key);
+            else localStorage.setItem(prefix + key, JSON.stringify(value));
+        },
+        saveRecoveryCopy: async (label, raw) => {
+            const recoveryKey = prefix + getRecoveryKey(label);
+            localStorage.setItem(recoveryKey, typeof raw === 'string' ? raw : JSON.stringify(raw));
+            return recoveryKey;
+        },
+        close: () => {},
+    };
+};
 
-// Edit Settings Modal
-interface EditSettingsModalProps {
-    isOpen: boolean;
-    currentSettings: UserSettings;
-    onSave: (newSettings: UserSettings) => void;
-    onCancel: () => void;
-    addToast: (message: string, type: ToastMessage['type']) => void;
+const IDB_NAME = 'syongjik';
+const getDatabaseName = (namespace: string | null) => (namespace ? `${IDB_NAME}:${namespace}` : IDB_NAME);
+const IDB_VERSION = 2; // v2 adds the syncOutbox store
+const IDB_VALUE_STORE = 'values'; // Single values plus bookkeeping such as list orders
+const IDB_MIGRATED_FLAG_KEY = '__migratedFromLocalStorage';
+const getRecordOrderKey = (store: RecordStoreName) => `__${store}Order`;
+
+const promisifyRequest = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const waitForTransaction = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("IndexedDB transaction aborted"));
+});
+
+const openIndexedDB = (namespace: string | null) => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(getDatabaseName(namespace), IDB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        [...RECORD_STORE_NAMES, IDB_VALUE_STORE].forEach(storeName => {
+            if (!db.objectStoreNames.contains(storeName)) db.createObjectStore(storeName);
+        });
+    };
+    request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade, or a deleted profile be removed, instead of blocking it
+        db.onversionchange = () => {
+            console.warn(`Closing ${db.name} for an upgrade or deletion requested by another tab.`);
+            db.close();
+        };
+        resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // Tabs still running older code hold the old version open; the upgrade continues once they close
+    request.onblocked = () => console.warn("IndexedDB upgrade is waiting for other tabs to close.");
+});
+
+// Copies the legacy localStorage keys into IndexedDB once, then removes them
+const migrateLocalStorageToIndexedDB = async (db: IDBDatabase, prefix: string) => {
+    const checkTransaction = db.transaction(IDB_VALUE_STORE, 'readonly');
+    const alreadyMigrated = await promisifyRequest(checkTransaction.objectStore(IDB_VALUE_STORE).get(IDB_MIGRATED_FLAG_KEY));
+    if (alreadyMigrated) return;
+
+    const transaction = db.transaction([...RECORD_STORE_NAMES, IDB_VALUE_STORE], 'readwrite');
+    const valueStore = transaction.objectStore(IDB_VALUE_STORE);
+    RECORD_STORE_NAMES.forEach(store => {
+        const records = readLocalStorageRecords(store, prefix);
+        const objectStore = transaction.objectStore(store);
+        records.forEach(record => objectStore.put(record.value, record.key));
+        if (RECORD_STORE_LAYOUTS[store] === 'list') valueStore.put(records.map(record => record.key), getRecordOrderKey(store));
+    });
+    STORED_VALUE_KEYS.forEach(key => {
+        const value = readLocalStorageJson(key, prefix);
+        if (value !== null) valueStore.put(value, key);
+    });
+    valueStore.put(new Date().toISOString(), IDB_MIGRATED_FLAG_KEY);
+    await waitForTransaction(transaction);
+
+    [...RECORD_STORE_NAMES, ...STORED_VALUE_KEYS].forEach(key => localStorage.removeItem(prefix + key));
+};
+
+const createIndexedDBBackend = (db: IDBDatabase): AppStorage => ({
+    backend: 'indexedDB',
+    loadRecords: async (store) => {
+        const transaction = db.transaction([store, IDB_VALUE_STORE], 'readonly');
+        const objectStore = transaction.objectStore(store);
+        const [keys, values, order] = await Promise.all([
+            promisifyRequest(objectStore.getAllKeys()),
+            promisifyRequest(objectStore.getAll()),
+            promisifyRequest(transaction.objectStore(IDB_VALUE_STORE).get(getRecordOrderKey(store))),
+        ]);
+        const records = keys.map((key, index) => ({ key: String(key), value: values[index] }));
+        if (!Array.isArray(order)) return records;
+        // Records missing from the saved order go to the end
+        const positions = new Map<string, number>(order.map((key: string, index: number) => [key, index]));
+        return records.sort((a, b) => (positions.get(a.key) ?? Infinity) - (positions.get(b.key) ?? Infinity));
+    },
+    saveRecords: async (store, { all, upserts, removedKeys, orderChanged }) => {
+        const transaction = db.transaction([store, IDB_VALUE_STORE], 'readwrite');
+        const objectStore = transaction.objectStore(store);
+        upserts.forEach(record => objectStore.put(record.value, record.key));
+        removedKeys.forEach(key => objectStore.delete(key));
+        if (orderChanged && RECORD_STORE_LAYOUTS[store] === 'list') {
+            transaction.objectStore(IDB_VALUE_STORE).put(all.map(record => record.key), getRecordOrderKey(store));
+        }
+        await waitForTransaction(transaction);
+    },
+    loadValue: async (key) => {
+        const transaction = db.transaction(IDB_VALUE_STORE, 'readonly');
+        const value = await promisifyRequest(transaction.objectStore(IDB_VALUE_STORE).get(key));
+        return value ?? null;
+    },
+    saveValue: async (key, value) => {
+        const transaction = db.transaction(IDB_VALUE_STORE, 'readwrite');
+        const valueStore = transaction.objectStore(IDB_VALUE_STORE);
+        if (value === null) valueStore.delete(key);
+        else valueStore.put(value, key);
+        await waitForTransaction(transaction);
+    },
+    saveRecoveryCopy: async (label, raw) => {
+        const recoveryKey = getRecoveryKey(label);
+        const transaction = db.transaction(IDB_VALUE_STORE, 'readwrite');
+        transaction.objectStore(IDB_VALUE_STORE).put(raw, recoveryKey);
+        await waitForTransaction(transaction);
+        return recoveryKey;
+    },
+    close: () => db.close(),
+});
+
+const openAppStorage = async (namespace: string | null = null): Promise<AppStorage> => {
+    if (typeof indexedDB === 'undefined') {
+        console.warn("IndexedDB is not available. Falling back to localStorage.");
+        return createLocalStorageBackend(namespace);
+    }
+    try {
+        const db = await openIndexedDB(namespace);
+        try {
+            await migrateLocalStorageToIndexedDB(db, getLocalStoragePrefix(namespace));
+        } catch (e) {
+            db.close();
+            throw e;
+        }
+        return createIndexedDBBackend(db);
+    } catch (e) {
+        // Private browsing modes and blocked upgrades end up here; the legacy keys are still intact
+        console.warn("Failed to open IndexedDB. Falling back to localStorage:", e);
+        return createLocalStorageBackend(namespace);
+    }
+};
+
+// Removes everything saved under a namespace, including recovery copies
+const deleteAppStorage = async (namespace: string | null) => {
+    const prefix = getLocalStoragePrefix(namespace);
+    const ownedKeys = new Set<string>([...RECORD_STORE_NAMES, ...STORED_VALUE_KEYS].map(key => prefix + key));
+    Object.keys(localStorage)
+        .filter(key => ownedKeys.has(key) || key.startsWith(prefix + RECOVERY_KEY_PREFIX))
+        .forEach(key => localStorage.removeItem(key));
+    if (typeof indexedDB === 'undefined') return;
+    await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(getDatabaseName(namespace));
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// --- Schema Versioning ---
+// Saved data carries a schema version. Migrations run in order on startup and the result is written back once.
+interface StoredAppData {
+    records: { [K in RecordStoreName]: StorageRecord<StoredRecords[K]>[] };
+    values: Partial<StoredValues>;
 }
-const EditSettingsModal: React.FC<EditSettingsModalProps> = ({ isOpen, currentSettings, onSave, onCancel, addToast }) => {
-    const [username, setUsername] = useState(currentSettings.username);
-    const [grade, setGrade] = useState(currentSettings.grade);
-    const [dailyGoal, setDailyGoal] = useState(currentSettings.dailyGoal);
-    const usernameInputRef = useRef<HTMLInputElement>(null);
 
-    useEffect(() => {
-        if (isOpen) {
-            setUsername(currentSettings.username);
-            setGrade(currentSettings.grade);
-            setDailyGoal(currentSettings.dailyGoal);
-            setTimeout(() => usernameInputRef.current?.focus(), 0); // Delay focus slightly for transition
+// Invalid items are handed to quarantine so they are kept as recovery copies instead of silently dropped
+type QuarantineItem = (label: string, raw: unknown) => void;
+
+interface SchemaMigration {
+    version: number;
+    description: string;
+    migrate: (data: StoredAppData, quarantine: QuarantineItem) => StoredAppData;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keeps the array entries that pass the check and quarantines the rest
+const keepValidEntries = <T,>(label: string, entries: unknown, isValid: (entry: any) => boolean, quarantine: QuarantineItem): T[] | undefined => {
+    if (entries === undefined || entries === null) return undefined;
+    if (!Array.isArray(entries)) {
+        quarantine(label, entries);
+        return undefined;
+    }
+    const invalidEntries = entries.filter(entry => !isValid(entry));
+    if (invalidEntries.length > 0) quarantine(label, invalidEntries);
+    return entries.filter(isValid);
+};
+
+const isValidStoredWord = (value: unknown) => isPlainObject(value)
+    && typeof value.term === 'string'
+    && typeof value.meaning === 'string'
+    && value.id !== undefined && value.id !== null;
+
+const isValidStoredWordStat = (value: unknown) => isPlainObject(value)
+    && (value.lastReviewed == null || typeof value.lastReviewed === 'string')
+    && (value.confusedWordIds === undefined || Array.isArray(value.confusedWordIds))
+    && (value.wrongNote == null || (isPlainObject(value.wrongNote) && Array.isArray(value.wrongNote.misses)));
+
+const DAY_ONLY_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidSpeedChallengeRecord = (entry: unknown) => isPlainObject(entry) && typeof entry.date === 'string' && typeof entry.points === 'number';
+
+// Shape checks for words, stats and histories. Schema v1 runs them on unversioned data, and restored backups
+// always go through them, whatever schema they were saved with, since a file can be damaged or hand-edited.
+const keepValidAppData = ({ records, values }: StoredAppData, quarantine: QuarantineItem): StoredAppData => {
+    const validWords = records.myWords.filter(record => isValidStoredWord(record.value));
+    if (validWords.length < records.myWords.length) {
+        quarantine('myWords', records.myWords.filter(record => !validWords.includes(record)).map(record => record.value));
+    }
+    const validStats = records.wordStats.filter(record => isValidStoredWordStat(record.value));
+    if (validStats.length < records.wordStats.length) {
+        quarantine('wordStats', Object.fromEntries(records.wordStats.filter(record => !validStats.includes(record)).map(record => [record.key, record.value])));
+    }
+    const migratedStats = migrateWordStats(Object.fromEntries(validStats.map(record => [record.key, record.value])));
+
+    const nextValues: Partial<StoredValues> = { ...values };
+    if (values.userSettings !== undefined) {
+        if (isPlainObject(values.userSettings) && typeof values.userSettings.grade === 'string') {
+            nextValues.userSettings = { ...values.userSettings, cardDirection: values.userSettings.cardDirection ?? 'enToKo' };
+        } else {
+            quarantine('userSettings', values.userSettings);
+            delete nextValues.userSettings;
         }
-    }, [currentSettings, isOpen]);
+    }
+    nextValues.learnedWordsHistory = keepValidEntries('learnedWordsHistory', values.learnedWordsHistory, entry => isPlainObject(entry) && typeof entry.date === 'string' && typeof entry.count === 'number', quarantine);
+    nextValues.quizHistory = keepValidEntries('quizHistory', values.quizHistory, entry => (
+        isPlainObject(entry) && typeof entry.date === 'string' && (entry.answers === undefined || Array.isArray(entry.answers))
+    ), quarantine);
+    nextValues.matchingGameHistory = keepValidEntries('matchingGameHistory', values.matchingGameHistory, entry => isPlainObject(entry) && typeof entry.date === 'string', quarantine);
+    if (values.speedChallengeBests !== undefined) {
+        if (isPlainObject(values.speedChallengeBests)) {
+            nextValues.speedChallengeBests = Object.fromEntries(Object.entries(values.speedChallengeBests)
+                .map(([grade, entries]) => [grade, keepValidEntries<SpeedChallengeRecord>(`speedChallengeBests.${grade}`, entries, isValidSpeedChallengeRecord, quarantine)])
+                .filter(([, entries]) => entries !== undefined));
+        } else {
+            quarantine('speedChallengeBests', values.speedChallengeBests);
+            delete nextValues.speedChallengeBests;
+        }
+    }
 
-    if (!isOpen) return null;
+    return {
+        records: {
+            ...records,
+            myWords: validWords,
+            wordStats: Object.entries(migratedStats).map(([key, value]) => ({ key, value })),
+        },
+        values: nextValues,
+    };
+};
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!username.trim()) {
-            addToast("사용자 이름은 비워둘 수 없습니다.", "warning");
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 1,
+        description: "Normalise unversioned data (SM-2 word stats, card direction, malformed entries)",
+        migrate: keepValidAppData,
+    },
+    {
+        version: 2,
+        description: "Collision-free word ids: namespaced ids for custom and built-in words",
+        migrate: ({ records, values }) => {
+            // Custom words, trashed ones included, get ids derived from their old ones, so other devices and restored
+            // old backups migrate the same word to the same id; every other id belonged to the built-in list.
+            // An id that batch additions gave to two words is split with a numbered suffix, and its stats stay with the first.
+            const customIds = new Map<string, WordId>();
+            const idUseCounts = new Map<string, number>();
+            const assignCustomId = (oldId: unknown) => {
+                const key = String(oldId);
+                const useCount = (idUseCounts.get(key) || 0) + 1;
+                idUseCounts.set(key, useCount);
+                const id = toPackWordId(LEGACY_CUSTOM_ID_NAMESPACE, useCount === 1 ? key : `${key}-${useCount}`);
+                if (!customIds.has(key)) customIds.set(key, id);
+                return id;
+            };
+            const myWords = records.myWords.map(record => {
+                const id = assignCustomId(record.value.id);
+                return { key: id, value: { ...record.value, id } };
+            });
+            const trashedWords = values.trashedWords?.map(item => ({ ...item, word: { ...item.word, id: assignCustomId(item.word.id) } }));
+
+            const remapId = (oldId: unknown): WordId => customIds.get(String(oldId)) ?? toPackWordId(BUILT_IN_PACK_ID, String(oldId));
+            const remapStat = (stat: WordStat, id: WordId): WordStat => ({ ...stat, id, confusedWordIds: stat.confusedWordIds.map(remapId) });
+            const remapAnswers = (answers?: QuizAnswerRecord[]) => answers?.map(answer => ({ ...answer, wordId: remapId(answer.wordId) }));
+            const wordStats = records.wordStats.map(record => {
+                const id = remapId(record.key);
+                return { key: id, value: remapStat(record.value, id) };
+            });
+
+            const nextValues: Partial<StoredValues> = { ...values };
+            if (trashedWords) {
+                nextValues.trashedWords = trashedWords.map(item => ({ ...item, stat: item.stat && remapStat(item.stat, item.word.id) }));
+            }
+            if (values.quizHistory) {
+                nextValues.quizHistory = values.quizHistory.map(entry => (entry.answers ? { ...entry, answers: remapAnswers(entry.answers) } : entry));
+            }
+            if (values.learnSession) {
+                const session = values.learnSession;
+                nextValues.learnSession = {
+                    ...session,
+                    wordIds: session.wordIds.map(remapId),
+                    reviewWordIds: session.reviewWordIds?.map(remapId),
+                    gradedWordIds: session.gradedWordIds.map(remapId),
+                };
+            }
+            if (values.quizSession) {
+                const session = values.quizSession;
+                nextValues.quizSession = {
+                    ...session,
+                    wordIds: session.wordIds.map(remapId),
+                    incorrectWordIds: session.incorrectWordIds.map(remapId),
+                    answers: remapAnswers(session.answers),
+                };
+            }
+
+            // Queued server changes use the old ids, so a linked account is offered everything again under the new ones
+            let syncOutbox: StorageRecord<RemoteChange>[] = [];
+            if (values.syncSettings?.enabled) {
+                if (values.syncState) nextValues.syncState = { ...values.syncState, cursor: 0, lastSyncedAt: null };
+                const snapshot = createSyncSnapshot(myWords.map(record => record.value), Object.fromEntries(wordStats.map(record => [record.key, record.value])), nextValues);
+                syncOutbox = snapshot.map(change => ({ key: change.id, value: change }));
+            }
+
+            return { records: { myWords, wordStats, syncOutbox }, values: nextValues };
+        },
+    },
+    {
+        version: 3,
+        description: "Full timestamps for matching game and speed challenge records, which held only the day",
+        migrate: ({ records, values }) => {
+            // A day-only date becomes local midnight of that day, so it still shows and sorts as the same day
+            const toTimestamp = <T extends { date: string }>(record: T): T => (
+                DAY_ONLY_DATE_PATTERN.test(record.date) ? { ...record, date: new Date(`${record.date}T00:00:00`).toISOString() } : record
+            );
+            const nextValues: Partial<StoredValues> = { ...values };
+            if (values.matchingGameHistory) nextValues.matchingGameHistory = values.matchingGameHistory.map(toTimestamp);
+            if (values.speedChallengeBests) {
+                nextValues.speedChallengeBests = Object.fromEntries(Object.entries(values.speedChallengeBests).map(([grade, bests]) => [grade, bests.map(toTimestamp)]));
+            }
+            return { records, values: nextValues };
+        },
+    },
+];
+const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+const loadStoredAppData = async (storage: AppStorage): Promise<StoredAppData> => {
+    const [myWords, wordStats, syncOutbox, ...values] = await Promise.all([
+        storage.loadRecords('myWords'),
+        storage.loadRecords('wordStats'),
+        storage.loadRecords('syncOutbox'),
+        ...STORED_VALUE_KEYS.map(key => storage.loadValue(key)),
+    ]);
+    const loadedValues: Partial<Record<StoredValueKey, unknown>> = {};
+    STORED_VALUE_KEYS.forEach((key, index) => {
+        if (values[index] !== null) loadedValues[key] = values[index];
+    });
+    return { records: { myWords, wordStats, syncOutbox }, values: loadedValues as Partial<StoredValues> };
+};
+
+// Rewrites everything after a migration; values missing from the migrated data are removed
+const saveStoredAppData = async (storage: AppStorage, previous: StoredAppData, next: StoredAppData) => {
+    const saveAllRecords = <K extends RecordStoreName>(store: K) => {
+        const changes = diffStorageRecords(previous.records[store], next.records[store]);
+        return storage.saveRecords(store, { ...changes, upserts: next.records[store], orderChanged: true });
+    };
+    await Promise.all([
+        ...RECORD_STORE_NAMES.map(saveAllRecords),
+        ...STORED_VALUE_KEYS.filter(key => key !== 'schemaVersion').map(key => storage.saveValue(key, next.values[key] ?? null)),
+    ]);
+};
+
+interface MigratedAppData {
+    data: StoredAppData;
+    recoveryKeys: string[]; // Recovery copies made while loading
+    canPersist: boolean; // False when saving would overwrite data this version cannot handle
+}
+
+const loadMigratedAppData = async (storage: AppStorage): Promise<MigratedAppData> => {
+    const loaded = await loadStoredAppData(storage);
+    const recoveryKeys = recoveredLocalStorageKeys.splice(0);
+    const hasSavedData = RECORD_STORE_NAMES.some(store => loaded.records[store].length > 0) || Object.keys(loaded.values).length > 0;
+    const storedVersion = loaded.values.schemaVersion ?? (hasSavedData ? 0 : CURRENT_SCHEMA_VERSION);
+
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+        console.warn(`Saved data uses schema v${storedVersion}, newer than v${CURRENT_SCHEMA_VERSION}. Saving is disabled.`);
+        return { data: loaded, recoveryKeys, canPersist: false };
+    }
+    if (storedVersion === CURRENT_SCHEMA_VERSION) {
+        if (loaded.values.schemaVersion === undefined) await storage.saveValue('schemaVersion', CURRENT_SCHEMA_VERSION);
+        return { data: loaded, recoveryKeys, canPersist: true };
+    }
+
+    const quarantined: { label: string; raw: unknown }[] = [];
+    let migrated: StoredAppData;
+    try {
+        migrated = SCHEMA_MIGRATIONS.filter(migration => migration.version > storedVersion).reduce((data, migration) => {
+            console.info(`Migrating saved data to schema v${migration.version}: ${migration.description}`);
+            return migration.migrate(data, (label, raw) => quarantined.push({ label: `v${migration.version}:${label}`, raw }));
+        }, loaded);
+    } catch (e) {
+        // Keep the untouched data aside and run without saving so nothing is overwritten
+        console.error(`Failed to migrate saved data from schema v${storedVersion}:`, e);
+        recoveryKeys.push(await storage.saveRecoveryCopy(`schema-v${storedVersion}`, loaded));
+        return { data: loaded, recoveryKeys, canPersist: false };
+    }
+
+    for (const { label, raw } of quarantined) {
+        recoveryKeys.push(await storage.saveRecoveryCopy(label, raw));
+    }
+    await saveStoredAppData(storage, loaded, migrated);
+    await storage.saveValue('schemaVersion', CURRENT_SCHEMA_VERSION);
+    return { data: { ...migrated, values: { ...migrated.values, schemaVersion: CURRENT_SCHEMA_VERSION } }, recoveryKeys, canPersist: true };
+};
+
+// --- Backup & Restore ---
+// A backup is one JSON file with everything needed to move a learner to another browser.
+const BACKUP_FORMAT = 'syongjik-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+interface BackupData {
+    myWords: Word[];
+    wordStats: Record<string, WordStat>;
+    learnedWordsHistory: { date: string; count: number }[];
+    quizHistory: QuizHistoryEntry[];
+    speedChallengeBests: Record<string, SpeedChallengeRecord[]>;
+    matchingGameHistory: MatchingGameRecord[];
+    userSettings: UserSettings | null;
+}
+
+interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    backupVersion: number;
+    schemaVersion: number; // Schema the data was saved with, so older backups go through the same migrations
+    exportedAt: string;
+    data: BackupData;
+}
+
+type RestoreMode = 'replace' | 'merge';
+
+const createBackupFile = (data: BackupData): BackupFile => ({
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+});
+
+interface ParsedBackup {
+    data: BackupData;
+    exportedAt: string;
+    skippedCount: number; // Malformed entries left out of the restore
+}
+
+// Throws with a user-facing message when the file is not a usable backup
+const parseBackupFile = (text: string): ParsedBackup => {
+    let file: any;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error("JSON 파일을 읽을 수 없습니다.");
+    }
+    if (!isPlainObject(file) || file.format !== BACKUP_FORMAT || !isPlainObject(file.data)) {
+        throw new Error("이 앱에서 만든 백업 파일이 아닙니다.");
+    }
+    const schemaVersion = Number(file.schemaVersion) || 0;
+    if (file.backupVersion > BACKUP_FORMAT_VERSION || schemaVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error("더 새로운 버전의 앱에서 만든 백업입니다. 앱을 업데이트한 뒤 다시 시도해주세요.");
+    }
+
+    const { myWords, wordStats, ...values } = file.data;
+    let skippedCount = 0;
+    const skip: QuarantineItem = (_label, raw) => { skippedCount += Array.isArray(raw) ? raw.length : isPlainObject(raw) ? Object.keys(raw).length : 1; };
+    if (myWords !== undefined && !Array.isArray(myWords)) skip('myWords', myWords);
+    if (wordStats !== undefined && !isPlainObject(wordStats)) skip('wordStats', wordStats);
+    // Validated first, since the migrations expect well-formed entries
+    const validated = keepValidAppData({
+        records: {
+            myWords: (Array.isArray(myWords) ? myWords : []).map((value: any) => ({ key: String(value?.id), value })),
+            wordStats: Object.entries(isPlainObject(wordStats) ? wordStats : {}).map(([key, value]) => ({ key, value: value as WordStat })),
+            syncOutbox: [],
+        },
+        values: values as Partial<StoredValues>,
+    }, skip);
+    const migrated = SCHEMA_MIGRATIONS.filter(migration => migration.version > Math.max(schemaVersion, 1)).reduce((data, migration) => migration.migrate(data, skip), validated);
+
+    return {
+        data: {
+            myWords: migrated.records.myWords.map(record => record.value),
+            wordStats: Object.fromEntries(migrated.records.wordStats.map(record => [record.key, record.value])),
+            learnedWordsHistory: migrated.values.learnedWordsHistory || [],
+            quizHistory: migrated.values.quizHistory || [],
+            speedChallengeBests: migrated.values.speedChallengeBests || {},
+            matchingGameHistory: migrated.values.matchingGameHistory || [],
+            userSettings: migrated.values.userSettings || null,
+        },
+        exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+        skippedCount,
+    };
+};
+
+const getReviewedTime = (stat: WordStat | undefined) => (stat?.lastReviewed ? new Date(stat.lastReviewed).getTime() || 0 : 0);
+
+// Custom words are deduplicated by term; the incoming word's stats follow it to the surviving word id.
+// For the same word, the stat with the most recent lastReviewed wins.
+const mergeBackupData = (current: BackupData, incoming: BackupData, builtInWords: Word[]): BackupData => {
+    const normalizeTerm = (term: string) => term.trim().toLowerCase();
+    const existingIdsByTerm = new Map([...builtInWords, ...current.myWords].map(word => [normalizeTerm(word.term), word.id]));
+    const usedIds = new Set([...builtInWords, ...current.myWords].map(word => String(word.id)));
+    const idRemap = new Map<string, WordId>();
+    const addedWords: Word[] = [];
+
+    incoming.myWords.forEach(word => {
+        const existingId = existingIdsByTerm.get(normalizeTerm(word.term));
+        if (existingId !== undefined) {
+            idRemap.set(String(word.id), existingId);
             return;
         }
-        onSave({ ...currentSettings, username: username.trim(), grade, dailyGoal });
+        const id = usedIds.has(word.id) ? createWordId() : word.id;
+        if (id !== word.id) idRemap.set(String(word.id), id);
+        usedIds.add(String(id));
+        existingIdsByTerm.set(normalizeTerm(word.term), id);
+        addedWords.push({ ...word, id });
+    });
+
+    const mergedStats = { ...current.wordStats };
+    Object.entries(incoming.wordStats).forEach(([key, stat]) => {
+        const id = idRemap.get(key) ?? stat.id;
+        const remappedStat: WordStat = {
+            ...stat,
+            id,
+            confusedWordIds: stat.confusedWordIds.map(confusedId => idRemap.get(String(confusedId)) ?? confusedId),
+        };
+        const mergedKey = String(id);
+        if (!mergedStats[mergedKey] || getReviewedTime(remappedStat) > getReviewedTime(mergedStats[mergedKey])) {
+            mergedStats[mergedKey] = remappedStat;
+        }
+    });
+
+    return {
+        myWords: [...current.myWords, ...addedWords],
+        wordStats: mergedStats,
+        learnedWordsHistory: mergeLearnedWordsHistory(current.learnedWordsHistory, incoming.learnedWordsHistory),
+        quizHistory: mergeQuizHistory(current.quizHistory, incoming.quizHistory),
+        speedChallengeBests: mergeSpeedChallengeBests(current.speedChallengeBests, incoming.speedChallengeBests, SPEED_CHALLENGE_BESTS_PER_GRADE),
+        matchingGameHistory: mergeMatchingGameHistory(current.matchingGameHistory, incoming.matchingGameHistory),
+        userSettings: current.userSettings ?? incoming.userSettings,
     };
+};
 
-    return (
-        <div role="dialog" aria-modal="true" aria-labelledby="edit-settings-modal-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-[60] animate-fadeIn">
-            <div className="bg-slate-800 p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-md">
-                <h3 id="edit-settings-modal-title" className="text-2xl font-bold text-cyan-400 mb-6 text-center">설정 변경</h3>
-                <form onSubmit={handleSubmit} className="space-y-6">
-                    <div>
-                        <label htmlFor="edit-username" className="block text-sm font-medium text-slate-300 mb-1">사용자 이름</label>
-                        <input
-                            ref={usernameInputRef}
-                            type="text"
-                            id="edit-username"
-                            value={username}
-                            onChange={(e) => setUsername(e.target.value)}
-                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
-                            required
-                        />
-                    </div>
-                    <div>
-                        <label htmlFor="edit-grade" className="block text-sm font-medium text-slate-300 mb-1">학년 선택</label>
-                        <select
-                            id="edit-grade"
-                            value={grade}
-                            onChange={(e) => setGrade(e.target.value)}
-                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
-                        >
-                            <option value="middle1">중학교 1학년</option>
-                            <option value="middle2">중학교 2학년</option>
-                            <option value="middle3">중학교 3학년</option>
-                        </select>
+// --- Learner Profiles ---
+// The profile list is small and needed before any learner data loads, so it stays in localStorage like the theme.
+// A PIN only keeps siblings and classmates out of each other's progress on a shared device; it is not a security boundary.
+const PROFILE_REGISTRY_KEY = 'learnerProfiles';
+const LEGACY_PROFILE_ID = 'default'; // Owns the data saved before profiles existed
+const PROFILE_PIN_PATTERN = /^\d{4}$/;
+const PROFILE_PIN_LOCKOUTS_KEY = 'learnerProfilePinLockouts';
+const PROFILE_PIN_MAX_ATTEMPTS = 5; // Wrong PINs in a row before the profile locks
+const PROFILE_PIN_LOCKOUT_MS = 60 * 1000;
+
+// Only a salted hash of the PIN is saved. crypto.subtle only exists in secure contexts, so plain-http LAN setups fall back to FNV-1a.
+interface ProfilePinHash {
+    algorithm: 'SHA-256' | 'FNV-1a';
+    salt: string;
+    hash: string;
+}
+
+interface LearnerProfile {
+    id: string;
+    name: string;
+    pin: ProfilePinHash | string | null; // A plain string is a PIN saved before hashing; it is hashed on the next start
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+interface ProfilePinLockout {
+    failures: number;
+    lockedUntil: number; // Epoch ms, 0 when not locked
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashProfilePin = async (pin: string, salt: string, algorithm: ProfilePinHash['algorithm']) => {
+    const input = `${salt}:${pin}`;
+    if (algorithm === 'SHA-256') return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input))));
+    let hash = 0x811c9dc5;
+    for (const byte of new TextEncoder().encode(input)) hash = Math.imul(hash ^ byte, 0x01000193) >>> 0;
+    return hash.toString(16).padStart(8, '0');
+};
+
+const createProfilePinHash = async (pin: string): Promise<ProfilePinHash> => {
+    const algorithm = crypto.subtle ? 'SHA-256' : 'FNV-1a';
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    return { algorithm, salt, hash: await hashProfilePin(pin, salt, algorithm) };
+};
+
+const verifyProfilePin = async (stored: ProfilePinHash | string, pin: string) => (typeof stored === 'string'
+    ? stored === pin
+    : (await hashProfilePin(pin, stored.salt, stored.algorithm)) === stored.hash);
+
+const readPinLockouts = (): Record<string, ProfilePinLockout> => readLocalStorageJson(PROFILE_PIN_LOCKOUTS_KEY) || {};
+
+const savePinLockout = (profileId: string, lockout: ProfilePinLockout | null) => {
+    const lockouts = readPinLockouts();
+    if (lockout) lockouts[profileId] = lockout;
+    else delete lockouts[profileId];
+    try {
+        localStorage.setItem(PROFILE_PIN_LOCKOUTS_KEY, JSON.stringify(lockouts));
+    } catch (e) {
+        console.error(`Failed to save ${PROFILE_PIN_LOCKOUTS_KEY} to localStorage:`, e);
+    }
+};
+
+const getProfileNamespace = (profileId: string) => (profileId === LEGACY_PROFILE_ID ? null : profileId);
+
+const createProfileId = () => `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// --- Cross-Tab Sync ---
+// Tabs showing the same profile share a BroadcastChannel. Every saved change is posted once it is written,
+// and receiving tabs apply it to their state without writing it again.
+interface RecordChangeBatch<T> {
+    upserts: StorageRecord<T>[];
+    removedKeys: string[];
+    order: string[] | null; // Full key order, sent only when it changed
+    changedAt: number;
+    changedAtByKey?: Record<string, number>; // Per-record change times, for batches pulled from the sync server
+}
+type RecordSyncMessage = { [K in LearningRecordStoreName]: RecordChangeBatch<StoredRecords[K]> & { type: 'records'; store: K } }[LearningRecordStoreName];
+type ValueSyncMessage = { [K in StoredValueKey]: { type: 'value'; key: K; value: StoredValues[K] | null; changedAt: number } }[StoredValueKey];
+type SyncMessage = RecordSyncMessage | ValueSyncMessage;
+
+const openSyncChannel = (profileId: string): BroadcastChannel | null => {
+    if (typeof BroadcastChannel === 'undefined') {
+        console.info("BroadcastChannel is not available. Changes from other tabs will appear after a reload.");
+        return null;
+    }
+    return new BroadcastChannel(`${IDB_NAME}-sync:${profileId}`);
+};
+
+const toWordRecords = (words: Word[]) => words.map(word => ({ key: String(word.id), value: word }));
+const toStatRecords = (stats: Record<WordId, WordStat>) => Object.entries(stats).map(([key, value]) => ({ key, value }));
+
+// Histories only grow, so concurrent additions in two tabs are combined instead of one replacing the other.
+// Values without a merger (settings, sessions, trash) take the most recent write.
+const SYNC_VALUE_MERGERS: { [K in StoredValueKey]?: (local: StoredValues[K], incoming: StoredValues[K]) => StoredValues[K] } = {
+    learnedWordsHistory: (local, incoming) => mergeLearnedWordsHistory(incoming, local),
+    quizHistory: (local, incoming) => mergeQuizHistory(incoming, local),
+    matchingGameHistory: (local, incoming) => mergeMatchingGameHistory(incoming, local),
+    speedChallengeBests: (local, incoming) => mergeSpeedChallengeBests(incoming, local, SPEED_CHALLENGE_BESTS_PER_GRADE),
+};
+
+// Word records resolve conflicts per record: a key changed in this tab after the sender's write keeps the local version.
+// storedRecords mirrors what storage holds after the sender's write, so kept local versions show up as changes and are written back.
+const applyRemoteRecordChanges = <T,>(current: StorageRecord<T>[], message: RecordChangeBatch<T>, localChangeTimes: Map<string, number>) => {
+    const isLocalNewer = (key: string) => (localChangeTimes.get(key) || 0) > (message.changedAtByKey?.[key] ?? message.changedAt);
+    const merged = new Map(current.map(record => [record.key, record]));
+    const stored = new Map(merged);
+    message.upserts.forEach(record => {
+        stored.set(record.key, record);
+        if (!isLocalNewer(record.key)) merged.set(record.key, record);
+    });
+    message.removedKeys.forEach(key => {
+        stored.delete(key);
+        if (!isLocalNewer(key)) merged.delete(key);
+    });
+    const positions = new Map((message.order || []).map((key, index) => [key, index]));
+    const inOrder = (records: StorageRecord<T>[]) => (message.order
+        ? records.sort((a, b) => (positions.get(a.key) ?? Infinity) - (positions.get(b.key) ?? Infinity))
+        : records);
+    return { records: inOrder([...merged.values()]), storedRecords: inOrder([...stored.values()]) };
+};
+
+// --- Server Sync ---
+// Optional sync with a self-hosted REST endpoint (protocol in mock-sync-server.mjs). Saved changes are queued in the
+// syncOutbox store so they survive being offline, pushed when a connection is available, and changes other devices
+// made are pulled incrementally by the server's change timestamps.
+interface SyncSettings {
+    enabled: boolean;
+    endpoint: string; // Base URL, e.g. http://localhost:8787
+    token: string; // Sent as a bearer token when set
+    accountId: string; // Devices using the same account ID share their data
+}
+
+interface SyncState {
+    deviceId: string; // Identifies this browser's changes so they are not pulled back
+    cursor: number; // Server time of the last pulled change
+    lastSyncedAt: string | null;
+}
+
+interface RemoteChange {
+    id: string;
+    store: LearningRecordStoreName | 'values';
+    key: string;
+    value: unknown; // null removes a record
+    changedAt: number; // When the change was made, used for conflict resolution
+    deviceId?: string; // Set when pushed
+    serverTime?: number; // Set by the server when accepted
+}
+
+type SyncStatus = 'disabled' | 'syncing' | 'synced' | 'otherTab' | 'offline' | 'error'; // otherTab: another tab of the profile holds the sync lock
+
+const SYNC_STATUS_DISPLAY: Record<Exclude<SyncStatus, 'disabled'>, { icon: string; label: string }> = {
+    syncing: { icon: '🔄', label: '동기화 중' },
+    synced: { icon: '☁️', label: '동기화됨' },
+    otherTab: { icon: '🗂️', label: '다른 탭에서 동기화 중' },
+    offline: { icon: '📴', label: '오프라인' },
+    error: { icon: '⚠️', label: '동기화 오류' },
+};
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_PUSH_DELAY_MS = 3000; // Batches changes made in quick succession into one push
+
+// Sessions are tied to this device; everything else a learner builds up follows them
+const REMOTE_SYNCED_VALUE_KEYS: StoredValueKey[] = ['userSettings', 'learnedWordsHistory', 'quizHistory', 'speedChallengeBests', 'matchingGameHistory', 'trashedWords', 'wordPackPreferences'];
+
+const createSyncState = (): SyncState => ({ deviceId: `d${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`, cursor: 0, lastSyncedAt: null });
+
+const createRemoteChange = (store: RemoteChange['store'], key: string, value: unknown, changedAt: number): RemoteChange => ({
+    id: `${changedAt.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    store,
+    key,
+    value,
+    changedAt,
+});
+
+const toRemoteChanges = (message: SyncMessage): RemoteChange[] => {
+    if (message.type === 'value') {
+        return REMOTE_SYNCED_VALUE_KEYS.includes(message.key) ? [createRemoteChange('values', message.key, message.value, message.changedAt)] : [];
+    }
+    return [
+        ...message.upserts.map(record => createRemoteChange(message.store, record.key, record.value, message.changedAt)),
+        ...message.removedKeys.map(key => createRemoteChange(message.store, key, null, message.changedAt)),
+    ];
+};
+
+// Everything this device has, offered when it first links to an account. Old change times let data already on the
+// server win, except for stats, which compete by when the word was last reviewed.
+const createSyncSnapshot = (myWords: Word[], wordStats: Record<WordId, WordStat>, values: Partial<Record<StoredValueKey, unknown>>): RemoteChange[] => [
+    ...toWordRecords(myWords).map(record => createRemoteChange('myWords', record.key, record.value, 1)),
+    ...toStatRecords(wordStats).map(record => createRemoteChange('wordStats', record.key, record.value, Date.parse(record.value.lastReviewed || '') || 1)),
+    ...REMOTE_SYNCED_VALUE_KEYS.filter(key => values[key] != null).map(key => createRemoteChange('values', key, values[key], 1)),
+];
+
+// Only the latest change per record or value needs to travel
+const compactRemoteChanges = (changes: RemoteChange[]) => {
+    const latest = new Map<string, RemoteChange>();
+    changes.forEach(change => {
+        const id = `${change.store}/${change.key}`;
+        const existing = latest.get(id);
+        if (!existing || existing.changedAt <= change.changedAt) latest.set(id, change);
+    });
+    return [...latest.values()];
+};
+
+// Pulled values come from other devices and app versions, so they get the same shape checks as restored backups
+const isValidSyncedValue = (key: StoredValueKey, value: unknown) => {
+    if (value === null) return true;
+    switch (key) {
+        case 'trashedWords':
+            return Array.isArray(value) && value.every(item => isPlainObject(item) && isValidStoredWord(item.word) && typeof item.deletedAt === 'string');
+        case 'wordPackPreferences':
+            return isPlainObject(value) && Array.isArray(value.disabledPackIds) && isPlainObject(value.seenVersions);
+        default: {
+            let isValid = true;
+            keepValidAppData({ records: { myWords: [], wordStats: [], syncOutbox: [] }, values: { [key]: value } }, () => { isValid = false; });
+            return isValid;
+        }
+    }
+};
+
+// Pulled changes are applied through the same path as messages from other tabs. Malformed records and values are left out.
+const toSyncMessages = (changes: RemoteChange[]): SyncMessage[] => {
+    const compacted = compactRemoteChanges(changes);
+    const skip = (change: RemoteChange) => {
+        console.warn(`Ignoring a malformed ${change.store}/${change.key} change from the sync server`);
+        return [];
+    };
+    // Records another device saved before its word ids were migrated are left out
+    const getStoreChanges = (store: LearningRecordStoreName) => compacted.filter(change => change.store === store && isCurrentWordId(change.key));
+    const toBatch = <T,>(storeChanges: RemoteChange[], toRecord: (change: RemoteChange) => StorageRecord<T>[]): RecordChangeBatch<T> => {
+        const upserts = storeChanges.filter(change => change.value !== null).flatMap(toRecord);
+        const removals = storeChanges.filter(change => change.value === null);
+        const upsertKeys = new Set(upserts.map(record => record.key));
+        const applied = [...removals, ...storeChanges.filter(change => upsertKeys.has(change.key))];
+        return {
+            upserts,
+            removedKeys: removals.map(change => change.key),
+            order: null,
+            changedAt: Math.max(0, ...applied.map(change => change.changedAt)),
+            changedAtByKey: Object.fromEntries(applied.map(change => [change.key, change.changedAt])),
+        };
+    };
+    const recordMessages: RecordSyncMessage[] = [
+        {
+            type: 'records',
+            store: 'myWords',
+            ...toBatch(getStoreChanges('myWords'), change => (
+                isValidStoredWord(change.value) && (change.value as Word).id === change.key ? [{ key: change.key, value: change.value as Word }] : skip(change)
+            )),
+        },
+        {
+            type: 'records',
+            store: 'wordStats',
+            ...toBatch(getStoreChanges('wordStats'), change => (
+                isValidStoredWordStat(change.value) ? [{ key: change.key, value: migrateWordStat(change.value, change.key) }] : skip(change)
+            )),
+        },
+    ];
+    const valueMessages = compacted
+        .filter(change => change.store === 'values' && REMOTE_SYNCED_VALUE_KEYS.includes(change.key as StoredValueKey))
+        .flatMap(change => (isValidSyncedValue(change.key as StoredValueKey, change.value)
+            ? [{ type: 'value', key: change.key, value: change.value, changedAt: change.changedAt } as ValueSyncMessage]
+            : skip(change)));
+    return [...recordMessages.filter(message => message.upserts.length > 0 || message.removedKeys.length > 0), ...valueMessages];
+};
+
+const fetchSyncServer = async <T,>(settings: SyncSettings, init?: RequestInit & { query?: string }): Promise<T> => {
+    const url = `${settings.endpoint.replace(/\/+$/, '')}/accounts/${encodeURIComponent(settings.accountId)}/changes${init?.query || ''}`;
+    const response = await fetch(url, {
+        ...init,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+        },
+    });
+    if (!response.ok) throw new Error(`Sync server responded with ${response.status}`);
+    return response.json();
+};
+
+const pushRemoteChanges = (settings: SyncSettings, deviceId: string, changes: RemoteChange[]) =>
+    fetchSyncServer<{ serverTime: number }>(settings, { method: 'POST', body: JSON.stringify({ changes: changes.map(change => ({ ...change, deviceId })) }) });
+
+const pullRemoteChanges = (settings: SyncSettings, since: number) =>
+    fetchSyncServer<{ changes: RemoteChange[]; serverTime: number }>(settings, { query: `?since=${since}` });
+
+// The outbox is rewritten as a whole list so the localStorage fallback keeps every entry; both return the remaining count
+const appendSyncOutbox = async (storage: AppStorage, changes: RemoteChange[]) => {
+    const existing = await storage.loadRecords('syncOutbox');
+    const added = changes.map(change => ({ key: change.id, value: change }));
+    const all = [...existing, ...added];
+    await storage.saveRecords('syncOutbox', { all, upserts: added, removedKeys: [], orderChanged: true });
+    return all.length;
+};
+
+const removeFromSyncOutbox = async (storage: AppStorage, ids: string[]) => {
+    const removed = new Set(ids);
+    const all = (await storage.loadRecords('syncOutbox')).filter(record => !removed.has(record.key));
+    await storage.saveRecords('syncOutbox', { all, upserts: [], removedKeys: ids, orderChanged: true });
+    return all.length;
+};
+
+// Only one tab per profile talks to the server at a time; the others receive its results over the tab channel.
+// Resolves to false when another tab holds the lock and the task was skipped.
+const runWithSyncLock = (profileId: string, task: () => Promise<void>): Promise<boolean> => (navigator.locks
+    ? navigator.locks.request(`${IDB_NAME}-server-sync:${profileId}`, { ifAvailable: true }, async lock => {
+        if (!lock) return false;
+        await task();
+        return true;
+    })
+    : task().then(() => true));
+
+// --- API Client Setup (Gemini) ---
+let ai: GoogleGenAI | null = null;
+if (process.env.API_KEY) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+} else {
+    console.warn("API_KEY environment variable not set. AI features will be disabled.");
+}
+
+// --- Gemini API Quota Management ---
+let isCurrentlyGeminiQuotaExhausted = false;
+let quotaCooldownTimeoutId: number | null = null;
+const GEMINI_QUOTA_COOLDOWN_MS = 15 * 60 * 1000; // 15 minutes
+
+const setGeminiQuotaExhaustedCooldown = (
+    addToastForNotification: (message: string, type: ToastMessage['type']) => void,
+    featureName?: string // e.g., "단어 정보 조회", "AI 예문 생성", "텍스트 요약"
+) => {
+    if (!isCurrentlyGeminiQuotaExhausted) {
+        const cooldownMinutes = GEMINI_QUOTA_COOLDOWN_MS / 60000;
+        console.log(`Gemini API quota exhaustion detected for '${featureName || 'a Gemini API call'}'. Activating ${cooldownMinutes}-minute cooldown.`);
+        isCurrentlyGeminiQuotaExhausted = true;
+        
+        const baseMessage = featureName
+            ? `Gemini API 사용량 할당량(quota)을 초과하여 '${featureName}' 기능 사용이 중단됩니다.`
+            : `Gemini API 사용량 할당량(quota)을 초과했습니다.`;
+        
+        addToastForNotification(`${baseMessage} Google AI Studio 또는 Google Cloud Console에서 할당량 및 결제 세부 정보를 확인해주세요. 추가 API 호출이 ${cooldownMinutes}분 동안 중단됩니다.`, "error");
+        
+        if (quotaCooldownTimeoutId) {
+            clearTimeout(quotaCooldownTimeoutId);
+        }
+        quotaCooldownTimeoutId = window.setTimeout(() => {
+            isCurrentlyGeminiQuotaExhausted = false;
+            quotaCooldownTimeoutId = null;
+            console.log("Gemini API quota cooldown finished. API calls may resume.");
+            addToastForNotification(`Gemini API 호출 제한 시간이 종료되었습니다. ${featureName ? `'${featureName}' 기능을 ` : ''}다시 시도할 수 있습니다.`, "info");
+        }, GEMINI_QUOTA_COOLDOWN_MS);
+    }
+};
+
+
+const generateWordDetailsWithGemini = async (term: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<Partial<Word> | null> => {
+    if (!ai) {
+        addToast("AI 기능을 사용하려면 API 키가 필요합니다. 환경 변수를 확인해주세요.", "warning");
+        return null;
+    }
+    if (isCurrentlyGeminiQuotaExhausted) {
+        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${term}'에 대한 정보 가져오기를 건너뜁니다.`, "warning");
+        return null;
+    }
+
+    setGlobalLoading(true);
+    const modelName = 'gemini-2.5-flash-preview-04-17';
+    const promptText = `Provide details for the English word "${term}". Your response MUST be a JSON object with the following fields: "pronunciation" (phonetic, optional), "partOfSpeech" (e.g., noun, verb, adjective, in Korean e.g., 명사, 동사), "meaning" (Korean meaning), "exampleSentence" (simple English example), "exampleSentenceMeaning" (Korean translation of example). Ensure exampleSentence is appropriate for language learners. If "${term}" seems like a typo or not a common English word, try to correct it if obvious and return details for the corrected term, including the corrected "term" in the JSON. If correction is not obvious or it's not a word, return null for all fields.
+
+Example JSON:
+{
+  "term": "person", 
+  "pronunciation": "/ˈpɜːrsən/",
+  "partOfSpeech": "명사",
+  "meaning": "사람",
+  "exampleSentence": "This is a person.",
+  "exampleSentenceMeaning": "이것은 사람입니다."
+}`;
+
+    let currentDelay = initialDelay;
+
+    try {
+        for (let i = 0; i <= retries; i++) {
+            try {
+                console.log(`Gemini request for "${term}" (word details), attempt ${i + 1}/${retries + 1}`);
+                const response: GenerateContentResponse = await ai.models.generateContent({
+                    model: modelName,
+                    contents: promptText,
+                    config: {
+                      responseMimeType: "application/json",
+                      temperature: 0.5, 
+                    }
+                });
+                
+                let jsonStr = response.text?.trim() || '';
+                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+                const match = jsonStr.match(fenceRegex);
+                if (match && match[2]) {
+                    jsonStr = match[2].trim();
+                }
+
+                const data = JSON.parse(jsonStr) as Partial<Word>;
+                
+                if (!data.partOfSpeech || !data.meaning || !data.exampleSentence) {
+                    console.warn("Gemini response missing essential fields for term:", term, data);
+                    if (i < retries) { 
+                        addToast(`AI가 '${term}'에 대한 정보를 일부 누락하여 반환했습니다. 재시도 중...(${i+1}/${retries+1})`, "warning");
+                        await new Promise(resolve => setTimeout(resolve, currentDelay));
+                        currentDelay *= 2;
+                        continue; 
+                    } else { 
+                        addToast(`AI가 '${term}'에 대한 충분한 정보를 제공하지 못했습니다. (누락된 필드: 뜻, 품사, 또는 예문) 모든 시도 실패.`, "error");
+                        return { term }; 
+                    }
+                }
+                return data;
+
+            } catch (error: any) {
+                console.error(`Error fetching word details from Gemini for "${term}" (attempt ${i + 1}/${retries + 1}):`, error);
+                const errorMessage = String(error.message || String(error)).toLowerCase();
+                let resolvedHttpStatus;
+                if (error && typeof error.status === 'number') {
+                    resolvedHttpStatus = error.status;
+                } else if (error && typeof error.code === 'number' && error.code >= 200 && error.code < 600) {
+                    resolvedHttpStatus = error.code;
+                }
+
+                const is429StatusCode = resolvedHttpStatus === 429;
+                const is429InMessage = errorMessage.includes('429');
+                const isRateLimitError = is429StatusCode || is429InMessage;
+
+                const isQuotaMessage = errorMessage.includes('resource_exhausted') ||
+                                       errorMessage.includes('quota_exceeded') ||
+                                       errorMessage.includes('exceeded your current quota');
+                
+                const isQuotaExhaustedError = isRateLimitError && isQuotaMessage;
+
+
+                if (isQuotaExhaustedError) {
+                    setGeminiQuotaExhaustedCooldown(addToast, `'${term}' 단어 정보 조회`);
+                    return null; 
+                }
+
+                if (i < retries) { 
+                    if (isRateLimitError) { 
+                        addToast(`Gemini API 요청 빈도가 높아 '${term}' 정보 가져오기에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
+                    } else { 
+                        addToast(`'${term}' 정보 가져오기 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
+                    }
+                    await new Promise(resolve => setTimeout(resolve, currentDelay));
+                    currentDelay *= 2;
+                } else { 
+                    if (isRateLimitError) {
+                         addToast(`Gemini API 요청 빈도가 너무 높습니다 ('${term}'). 잠시 후 다시 시도해주세요.`, "error");
+                    } else {
+                        addToast(`'${term}'에 대한 세부 정보를 AI로부터 가져오는 데 최종 실패했습니다. (오류: ${error.message || String(error)})`, "error");
+                    }
+                    return null; 
+                }
+            }
+        }
+    } finally {
+        setGlobalLoading(false);
+    }
+    console.warn(`generateWordDetailsWithGemini for "${term}" failed after all retries or due to unexpected flow.`);
+    addToast(`'${term}'에 대한 단어 정보를 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
+    return null;
+};
+
+interface AIExampleSentence {
+    newExampleSentence: string;
+    newExampleSentenceMeaning: string;
+}
+
+const generateDifferentExampleSentenceWithGemini = async (word: Word, grade: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 7000): Promise<AIExampleSentence | null> => {
+    if (!ai) {
+        addToast("AI 기능을 사용하려면 API 키가 필요합니다.", "warning");
+        return null;
+    }
+     if (isCurrentlyGeminiQuotaExhausted) {
+        addToast(`Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. '${word.term}'의 새 예문 생성을 건너뜁니다.`, "warning");
+        return null;
+    }
+    setGlobalLoading(true);
+    const modelName = 'gemini-2.5-flash-preview-04-17';
+    const promptText = `You are an English vocabulary tutor for Korean students.
+The user is learning the word: "${word.term}" (Part of speech: ${word.partOfSpeech}, Korean meaning: ${word.meaning}).
+The user's current grade level is: ${grade}.
+The user has already seen this example: "${word.exampleSentence}"
+
+Generate ONE NEW, DIFFERENT, and SIMPLE English example sentence for the word "${word.term}" that is appropriate for a ${grade} Korean student.
+The new example sentence should clearly illustrate the meaning of "${word.term}".
+Your response MUST be a JSON object with the following fields:
+"newExampleSentence": "The new English example sentence.",
+"newExampleSentenceMeaning": "The Korean translation of the new example sentence."
+
+Example JSON response:
+{
+  "newExampleSentence": "She showed great courage when she helped the lost child.",
+  "newExampleSentenceMeaning": "그녀는 길 잃은 아이를 도왔을 때 대단한 용기를 보여주었다."
+}`;
+
+    let currentDelay = initialDelay;
+    try {
+        for (let i = 0; i <= retries; i++) {
+            try {
+                console.log(`Gemini request for new example for "${word.term}", attempt ${i + 1}/${retries + 1}`);
+                const response: GenerateContentResponse = await ai.models.generateContent({
+                    model: modelName,
+                    contents: promptText,
+                    config: {
+                      responseMimeType: "application/json",
+                      temperature: 0.7, 
+                    }
+                });
+                
+                let jsonStr = response.text?.trim() || '';
+                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+                const match = jsonStr.match(fenceRegex);
+                if (match && match[2]) {
+                    jsonStr = match[2].trim();
+                }
+                const data = JSON.parse(jsonStr) as AIExampleSentence;
+
+                if (!data.newExampleSentence || !data.newExampleSentenceMeaning) {
+                     console.warn("Gemini response missing newExampleSentence or newExampleSentenceMeaning for term:", word.term, data);
+                     if (i < retries) {
+                        addToast(`AI가 '${word.term}' 새 예문 정보를 일부 누락하여 반환했습니다. 재시도 중...`, "warning");
+                        await new Promise(resolve => setTimeout(resolve, currentDelay));
+                        currentDelay *= 2;
+                        continue;
+                     } else {
+                        addToast(`AI가 '${word.term}'에 대한 새 예문 정보를 충분히 제공하지 못했습니다. 모든 시도 실패.`, "error");
+                        return null;
+                     }
+                }
+                return data;
+
+            } catch (error: any) {
+                console.error(`Error generating new example for "${word.term}" (attempt ${i + 1}/${retries + 1}):`, error);
+                const errorMessage = String(error.message || String(error)).toLowerCase();
+                let resolvedHttpStatus;
+                if (error && typeof error.status === 'number') {
+                    resolvedHttpStatus = error.status;
+                } else if (error && typeof error.code === 'number' && error.code >= 200 && error.code < 600) {
+                    resolvedHttpStatus = error.code;
+                }
+
+                const is429StatusCode = resolvedHttpStatus === 429;
+                const is429InMessage = errorMessage.includes('429');
+                const isRateLimitError = is429StatusCode || is429InMessage;
+
+                const isQuotaMessage = errorMessage.includes('resource_exhausted') ||
+                                       errorMessage.includes('quota_exceeded') ||
+                                       errorMessage.includes('exceeded your current quota');
+                
+                const isQuotaExhaustedError = isRateLimitError && isQuotaMessage;
+
+                if (isQuotaExhaustedError) {
+                    setGeminiQuotaExhaustedCooldown(addToast, `'${word.term}' AI 예문 생성`);
+                    return null; 
+                }
+
+                if (i < retries) { 
+                    if (isRateLimitError) { 
+                        addToast(`Gemini API 요청 빈도가 높아 '${word.term}' 새 예문 생성에 실패했습니다. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
+                    } else { 
+                        addToast(`'${word.term}' 새 예문 생성 중 오류 발생. ${currentDelay/1000}초 후 재시도합니다...`, "warning");
+                    }
+                    await new Promise(resolve => setTimeout(resolve, currentDelay));
+                    currentDelay *= 2; 
+                } else { 
+                    if (isRateLimitError) {
+                        addToast(`Gemini API 요청 빈도가 너무 높습니다 ('${word.term}' 새 예문 생성). 잠시 후 다시 시도해주세요.`, "error");
+                    } else {
+                        addToast(`'${word.term}'에 대한 새로운 예문을 AI로부터 가져오는 데 최종 실패했습니다: ${error.message || String(error)}`, "error");
+                    }
+                    return null;
+                }
+            }
+        }
+    } finally {
+        setGlobalLoading(false);
+    }
+    console.warn(`generateDifferentExampleSentenceWithGemini for "${word.term}" failed after all retries or due to unexpected flow.`);
+    addToast(`'${word.term}'에 대한 새로운 예문을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
+    return null;
+};
+
+const generateSummaryWithGemini = async (textToSummarize: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 5000): Promise<string | null> => {
+    if (!ai) {
+        addToast("AI 요약 기능을 사용하려면 API 키가 필요합니다.", "warning");
+        return null;
+    }
+    if (isCurrentlyGeminiQuotaExhausted) {
+        addToast("Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. 텍스트 요약을 건너뜁니다.", "warning");
+        return null;
+    }
+    if (!textToSummarize.trim()) {
+        addToast("요약할 텍스트가 없습니다.", "info");
+        return null;
+    }
+    setGlobalLoading(true);
+    const modelName = 'gemini-2.5-flash-preview-04-17';
+    const promptText = `Your response MUST be a JSON object with a "summary" field. Please provide a brief summary of the following text in Korean (around 2-3 sentences), focusing on the main topics or themes. Text: """${textToSummarize.substring(0, 30000)}"""`; 
+
+    let currentDelay = initialDelay;
+    try {
+        for (let i = 0; i <= retries; i++) {
+            try {
+                console.log(`Gemini request for text summary, attempt ${i + 1}/${retries + 1}`);
+                const response: GenerateContentResponse = await ai.models.generateContent({
+                    model: modelName,
+                    contents: promptText,
+                    config: {
+                        responseMimeType: "application/json",
+                        temperature: 0.6,
+                    }
+                });
+
+                let jsonStr = response.text?.trim() || '';
+                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+                const match = jsonStr.match(fenceRegex);
+                if (match && match[2]) {
+                    jsonStr = match[2].trim();
+                }
+                const data = JSON.parse(jsonStr) as { summary: string };
+
+                if (!data.summary || !data.summary.trim()) {
+                    console.warn("Gemini response missing summary field.", data);
+                    if (i < retries) {
+                        addToast(`AI 요약 생성 중 내용이 누락되었습니다. 재시도 중...`, "warning");
+                        await new Promise(resolve => setTimeout(resolve, currentDelay));
+                        currentDelay *= 2;
+                        continue;
+                    } else {
+                        addToast(`AI가 텍스트 요약을 제공하지 못했습니다. 모든 시도 실패.`, "error");
+                        return null;
+                    }
+                }
+                return data.summary;
+
+            } catch (error: any) {
+                console.error(`Error generating summary from Gemini (attempt ${i + 1}/${retries + 1}):`, error);
+                const errorMessage = String(error.message || String(error)).toLowerCase();
+                let resolvedHttpStatus;
+                if (error && typeof error.status === 'number') {
+                    resolvedHttpStatus = error.status;
+                } else if (error && typeof error.code === 'number' && error.code >= 200 && error.code < 600) {
+                    resolvedHttpStatus = error.code;
+                }
+
+                const is429StatusCode = resolvedHttpStatus === 429;
+                const is429InMessage = errorMessage.includes('429');
+                const isRateLimitError = is429StatusCode || is429InMessage;
+
+                const isQuotaMessage = errorMessage.includes('resource_exhausted') ||
+                                       errorMessage.includes('quota_exceeded') ||
+                                       errorMessage.includes('exceeded your current quota');
+                
+                const isQuotaExhaustedError = isRateLimitError && isQuotaMessage;
+
+                if (isQuotaExhaustedError) {
+                    setGeminiQuotaExhaustedCooldown(addToast, "텍스트 요약");
+                    return null; 
+                }
+
+                if (i < retries) {
+                    if (isRateLimitError) {
+                        addToast(`Gemini API 요청 빈도가 높아 텍스트 요약에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
+                    } else {
+                        addToast(`텍스트 요약 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
+                    }
+                    await new Promise(resolve => setTimeout(resolve, currentDelay));
+                    currentDelay *= 2;
+                } else { 
+                    if (isRateLimitError) {
+                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (텍스트 요약). 잠시 후 다시 시도해주세요.`, "error");
+                    } else {
+                        addToast(`텍스트 요약을 AI로부터 가져오는 데 최종 실패했습니다: ${error.message || String(error)}`, "error");
+                    }
+                    return null;
+                }
+            }
+        }
+    } finally {
+        setGlobalLoading(false);
+    }
+     console.warn(`generateSummaryWithGemini failed after all retries or due to unexpected flow.`);
+    addToast(`텍스트 요약을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
+    return null;
+};
+
+const generateWrongAnswerExplanationWithGemini = async (word: Word, confusedAnswer: string | null, grade: string, addToast: (message: string, type: ToastMessage['type']) => void, setGlobalLoading: (loading: boolean) => void, retries = 2, initialDelay = 5000): Promise<string | null> => {
+    if (!ai) {
+        addToast("AI 오답 설명 기능을 사용하려면 API 키가 필요합니다.", "warning");
+        return null;
+    }
+    if (isCurrentlyGeminiQuotaExhausted) {
+        addToast("Gemini API 할당량이 이전에 감지되어 현재 API 호출이 중단된 상태입니다. 오답 설명을 건너뜁니다.", "warning");
+        return null;
+    }
+    setGlobalLoading(true);
+    const modelName = 'gemini-2.5-flash-preview-04-17';
+    const confusionText = confusedAnswer
+        ? `The student confused it with "${confusedAnswer}". Explain clearly how the two differ.`
+        : `The student got it wrong in a quiz.`;
+    const promptText = `Your response MUST be a JSON object with an "explanation" field.
+A ${grade} Korean middle school student keeps missing the English word "${word.term}" (${word.partOfSpeech}, meaning: ${word.meaning}).
+${confusionText}
+In Korean, in 3-4 short sentences, explain the meaning and a memory tip, and include one simple English example sentence with its Korean translation.`;
+
+    let currentDelay = initialDelay;
+    try {
+        for (let i = 0; i <= retries; i++) {
+            try {
+                console.log(`Gemini request for wrong-answer explanation of "${word.term}", attempt ${i + 1}/${retries + 1}`);
+                const response: GenerateContentResponse = await ai.models.generateContent({
+                    model: modelName,
+                    contents: promptText,
+                    config: {
+                        responseMimeType: "application/json",
+                        temperature: 0.7,
+                    }
+                });
+
+                let jsonStr = response.text?.trim() || '';
+                const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+                const match = jsonStr.match(fenceRegex);
+                if (match && match[2]) {
+                    jsonStr = match[2].trim();
+                }
+                const data = JSON.parse(jsonStr) as { explanation: string };
+
+                if (!data.explanation || !data.explanation.trim()) {
+                    console.warn("Gemini response missing explanation field.", data);
+                    if (i < retries) {
+                        addToast(`AI 오답 설명 생성 중 내용이 누락되었습니다. 재시도 중...`, "warning");
+                        await new Promise(resolve => setTimeout(resolve, currentDelay));
+                        currentDelay *= 2;
+                        continue;
+                    } else {
+                        addToast(`AI가 오답 설명을 제공하지 못했습니다. 모든 시도 실패.`, "error");
+                        return null;
+                    }
+                }
+                return data.explanation;
+
+            } catch (error: any) {
+                console.error(`Error generating wrong-answer explanation from Gemini (attempt ${i + 1}/${retries + 1}):`, error);
+                const errorMessage = String(error.message || String(error)).toLowerCase();
+                let resolvedHttpStatus;
+                if (error && typeof error.status === 'number') {
+                    resolvedHttpStatus = error.status;
+                } else if (error && typeof error.code === 'number' && error.code >= 200 && error.code < 600) {
+                    resolvedHttpStatus = error.code;
+                }
+
+                const isRateLimitError = resolvedHttpStatus === 429 || errorMessage.includes('429');
+                const isQuotaMessage = errorMessage.includes('resource_exhausted') ||
+                                       errorMessage.includes('quota_exceeded') ||
+                                       errorMessage.includes('exceeded your current quota');
+
+                if (isRateLimitError && isQuotaMessage) {
+                    setGeminiQuotaExhaustedCooldown(addToast, "오답 설명");
+                    return null;
+                }
+
+                if (i < retries) {
+                    if (isRateLimitError) {
+                        addToast(`Gemini API 요청 빈도가 높아 오답 설명 생성에 실패했습니다. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
+                    } else {
+                        addToast(`오답 설명 생성 중 오류 발생. ${currentDelay / 1000}초 후 재시도합니다...`, "warning");
+                    }
+                    await new Promise(resolve => setTimeout(resolve, currentDelay));
+                    currentDelay *= 2;
+                } else {
+                    if (isRateLimitError) {
+                        addToast(`Gemini API 요청 빈도가 너무 높습니다 (오답 설명). 잠시 후 다시 시도해주세요.`, "error");
+                    } else {
+                        addToast(`오답 설명을 AI로부터 가져오는 데 최종 실패했습니다: ${error.message || String(error)}`, "error");
+                    }
+                    return null;
+                }
+            }
+        }
+    } finally {
+        setGlobalLoading(false);
+    }
+    console.warn(`generateWrongAnswerExplanationWithGemini for "${word.term}" failed after all retries or due to unexpected flow.`);
+    addToast(`오답 설명을 AI로부터 가져오는 데 최종 실패했습니다.`, "error");
+    return null;
+};
+
+// --- UI Components ---
+
+// Confirmation Modal
+interface ConfirmationModalProps {
+    isOpen: boolean;
+    title: string;
+    message: string;
+    onConfirm: () => void;
+    onCancel: () => void;
+    confirmText?: string;
+    cancelText?: string;
+    confirmButtonClass?: string;
+}
+const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ isOpen, title, message, onConfirm, onCancel, confirmText = "확인", cancelText = "취소", confirmButtonClass = "bg-red-600 hover:bg-red-700" }) => {
+    const cancelButtonRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        if (isOpen && cancelButtonRef.current) {
+            cancelButtonRef.current.focus();
+        }
+    }, [isOpen]);
+    
+    if (!isOpen) return null;
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="confirmation-modal-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <div className="bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md">
+                <h3 id="confirmation-modal-title" className="text-xl font-semibold text-cyan-400 mb-4">{title}</h3>
+                <p className="text-slate-300 mb-6">{message}</p>
+                <div className="flex justify-end space-x-3">
+                    <button ref={cancelButtonRef} onClick={onCancel} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white transition-colors">
+                        {cancelText}
+                    </button>
+                    <button onClick={onConfirm} className={`px-4 py-2 rounded text-white transition-colors ${confirmButtonClass}`}>
+                        {confirmText}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+// Flashcard Print Modal
+interface FlashcardPrintModalProps {
+    isOpen: boolean;
+    words: Word[];
+    sourceLabel: string; // e.g. "나의 단어", used in the document title
+    onClose: () => void;
+    addToast: (message: string, type: ToastMessage['type']) => void;
+}
+const FlashcardPrintModal: React.FC<FlashcardPrintModalProps> = ({ isOpen, words, sourceLabel, onClose, addToast }) => {
+    const [options, setOptions] = useState<FlashcardPrintOptions>({ cardsPerPage: 8, showCutLines: true, mirrorBacks: true });
+    const [isCreatingPdf, setIsCreatingPdf] = useState(false);
+    const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        if (isOpen && closeButtonRef.current) {
+            closeButtonRef.current.focus();
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const pageCount = Math.ceil(words.length / options.cardsPerPage);
+    const documentTitle = `플래시카드 - ${sourceLabel}`;
+
+    const handleOpen = () => {
+        if (!openPrintWindow(buildFlashcardSheetHtml(words, documentTitle, options))) {
+            addToast("팝업이 차단되어 인쇄 창을 열 수 없습니다. 브라우저에서 팝업을 허용해주세요.", "error");
+        }
+    };
+
+    const handleDownloadHtml = () => {
+        downloadTextFile(buildFlashcardSheetHtml(words, documentTitle, options), `${documentTitle}_${getTodayDateString()}.html`, 'text/html;charset=utf-8');
+    };
+
+    const handleDownloadPdf = async () => {
+        setIsCreatingPdf(true);
+        try {
+            const pdf = await buildPdfFromPages(drawFlashcardPdfPages(words, options), documentTitle);
+            downloadBlob(pdf, `${documentTitle}_${getTodayDateString()}.pdf`);
+        } catch (e) {
+            console.error("Failed to create the flashcard PDF:", e);
+            addToast("PDF 파일을 만들지 못했습니다.", "error");
+        } finally {
+            setIsCreatingPdf(false);
+        }
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="flashcard-print-modal-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-50 animate-fadeIn">
+            <div className="bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md">
+                <h3 id="flashcard-print-modal-title" className="text-xl font-semibold text-cyan-400 mb-1">🖨️ 플래시카드 인쇄</h3>
+                <p className="text-sm text-slate-400 mb-4">{sourceLabel} · 카드 {words.length}장 · 앞뒷면 {pageCount * 2}쪽</p>
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="flashcard-cards-per-page" className="block text-sm font-medium text-slate-300 mb-1">한 쪽에 들어갈 카드 수</label>
+                        <select
+                            id="flashcard-cards-per-page"
+                            value={options.cardsPerPage}
+                            onChange={(e) => setOptions(prev => ({ ...prev, cardsPerPage: Number(e.target.value) }))}
+                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            {FLASHCARD_CARDS_PER_PAGE_OPTIONS.map(count => (
+                                <option key={count} value={count}>{count}장 ({FLASHCARD_COLUMNS}×{Math.ceil(count / FLASHCARD_COLUMNS)})</option>
+                            ))}
+                        </select>
+                    </div>
+                    <label className="flex items-center text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={options.showCutLines} onChange={(e) => setOptions(prev => ({ ...prev, showCutLines: e.target.checked }))} className="mr-2 accent-cyan-500" />
+                        자르는 선 표시
+                    </label>
+                    <label className="flex items-start text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={options.mirrorBacks} onChange={(e) => setOptions(prev => ({ ...prev, mirrorBacks: e.target.checked }))} className="mr-2 mt-1 accent-cyan-500" />
+                        <span>양면 인쇄용으로 뒷면 좌우 반전<span className="block text-xs text-slate-400">긴 쪽 넘김 양면 인쇄 시 앞뒷면이 맞도록 뒷면 카드 순서를 바꿉니다.</span></span>
+                    </label>
+                </div>
+                <div className="flex flex-wrap justify-end gap-3 mt-6">
+                    <button ref={closeButtonRef} onClick={onClose} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white transition-colors">닫기</button>
+                    <button onClick={handleDownloadHtml} disabled={words.length === 0} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white transition-colors disabled:opacity-50">HTML 다운로드</button>
+                    <button onClick={handleDownloadPdf} disabled={words.length === 0 || isCreatingPdf} className="px-4 py-2 bg-teal-500 hover:bg-teal-600 rounded text-white transition-colors disabled:opacity-50">{isCreatingPdf ? 'PDF 만드는 중...' : 'PDF 다운로드'}</button>
+                    <button onClick={handleOpen} disabled={words.length === 0} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white transition-colors disabled:opacity-50">인쇄</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+// Edit Settings Modal
+interface EditSettingsModalProps {
+    isOpen: boolean;
+    currentSettings: UserSettings;
+    onSave: (newSettings: UserSettings) => void;
+    onCancel: () => void;
+    onExportBackup: () => void;
+    onRestoreBackup: (backup: BackupData, mode: RestoreMode) => void;
+    syncSettings: SyncSettings | null;
+    defaultSyncAccountId: string;
+    syncStatus: SyncStatus;
+    pendingSyncCount: number;
+    lastSyncedAt: string | null;
+    onSaveSyncSettings: (settings: SyncSettings) => void;
+    onSyncNow: () => void;
+    addToast: (message: string, type: ToastMessage['type']) => void;
+}
+const EditSettingsModal: React.FC<EditSettingsModalProps> = ({ isOpen, currentSettings, onSave, onCancel, onExportBackup, onRestoreBackup, syncSettings, defaultSyncAccountId, syncStatus, pendingSyncCount, lastSyncedAt, onSaveSyncSettings, onSyncNow, addToast }) => {
+    const [username, setUsername] = useState(currentSettings.username);
+    const [grade, setGrade] = useState(currentSettings.grade);
+    const [dailyGoal, setDailyGoal] = useState(currentSettings.dailyGoal);
+    const [cardDirection, setCardDirection] = useState<CardDirectionMode>(currentSettings.cardDirection);
+    const [pendingBackup, setPendingBackup] = useState<ParsedBackup | null>(null);
+    const [showConfirmReplaceModal, setShowConfirmReplaceModal] = useState(false);
+    const [syncEnabled, setSyncEnabled] = useState(false);
+    const [syncEndpoint, setSyncEndpoint] = useState('');
+    const [syncAccountId, setSyncAccountId] = useState('');
+    const [syncToken, setSyncToken] = useState('');
+    const usernameInputRef = useRef<HTMLInputElement>(null);
+    const backupFileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setUsername(currentSettings.username);
+            setGrade(currentSettings.grade);
+            setDailyGoal(currentSettings.dailyGoal);
+            setCardDirection(currentSettings.cardDirection);
+            setPendingBackup(null);
+            setTimeout(() => usernameInputRef.current?.focus(), 0); // Delay focus slightly for transition
+        }
+    }, [currentSettings, isOpen]);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSyncEnabled(syncSettings?.enabled || false);
+            setSyncEndpoint(syncSettings?.endpoint || '');
+            setSyncAccountId(syncSettings?.accountId || defaultSyncAccountId);
+            setSyncToken(syncSettings?.token || '');
+        }
+    }, [syncSettings, defaultSyncAccountId, isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!username.trim()) {
+            addToast("사용자 이름은 비워둘 수 없습니다.", "warning");
+            return;
+        }
+        onSave({ ...currentSettings, username: username.trim(), grade, dailyGoal, cardDirection });
+    };
+
+    const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow choosing the same file again
+        if (!file) return;
+        try {
+            const parsed = parseBackupFile(await file.text());
+            setPendingBackup(parsed);
+            if (parsed.skippedCount > 0) {
+                addToast(`백업 파일에서 읽을 수 없는 항목 ${parsed.skippedCount}개는 제외됩니다.`, "warning");
+            }
+        } catch (error) {
+            console.error("Failed to read backup file:", error);
+            addToast(`백업 파일을 불러오지 못했습니다. ${(error as Error).message}`, "error");
+        }
+    };
+
+    const handleSaveSync = () => {
+        const endpoint = syncEndpoint.trim();
+        const accountId = syncAccountId.trim();
+        if (syncEnabled && !/^https?:\/\/\S+$/i.test(endpoint)) {
+            addToast("동기화 서버 주소는 http:// 또는 https://로 시작해야 합니다.", "warning");
+            return;
+        }
+        if (syncEnabled && !accountId) {
+            addToast("동기화 ID를 입력해주세요.", "warning");
+            return;
+        }
+        onSaveSyncSettings({ enabled: syncEnabled, endpoint, accountId, token: syncToken.trim() });
+    };
+
+    const handleRestore = (mode: RestoreMode) => {
+        if (!pendingBackup) return;
+        onRestoreBackup(pendingBackup.data, mode);
+        setPendingBackup(null);
+        setShowConfirmReplaceModal(false);
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="edit-settings-modal-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-[60] animate-fadeIn">
+            <div className="bg-slate-800 p-6 sm:p-8 rounded-xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+                <h3 id="edit-settings-modal-title" className="text-2xl font-bold text-cyan-400 mb-6 text-center">설정 변경</h3>
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    <div>
+                        <label htmlFor="edit-username" className="block text-sm font-medium text-slate-300 mb-1">사용자 이름</label>
+                        <input
+                            ref={usernameInputRef}
+                            type="text"
+                            id="edit-username"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="edit-grade" className="block text-sm font-medium text-slate-300 mb-1">학년 선택</label>
+                        <select
+                            id="edit-grade"
+                            value={grade}
+                            onChange={(e) => setGrade(e.target.value)}
+                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            <option value="middle1">중학교 1학년</option>
+                            <option value="middle2">중학교 2학년</option>
+                            <option value="middle3">중학교 3학년</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="edit-dailyGoal" className="block text-sm font-medium text-slate-300 mb-1">일일 학습 목표 (단어 수)</label>
+                        <input
+                            type="number"
+                            id="edit-dailyGoal"
+                            value={dailyGoal}
+                            onChange={(e) => setDailyGoal(Math.max(1, parseInt(e.target.value) || 1))}
+                            min="1"
+                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="edit-cardDirection" className="block text-sm font-medium text-slate-300 mb-1">기본 카드 방향</label>
+                        <select
+                            id="edit-cardDirection"
+                            value={cardDirection}
+                            onChange={(e) => setCardDirection(e.target.value as CardDirectionMode)}
+                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            {(Object.keys(CARD_DIRECTION_MODE_LABELS) as CardDirectionMode[]).map(mode => (
+                                <option key={mode} value={mode}>{CARD_DIRECTION_MODE_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex justify-end space-x-3 pt-2">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white">취소</button>
+                        <button type="submit" className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">저장</button>
+                    </div>
+                </form>
+                <div className="mt-6 pt-6 border-t border-slate-700">
+                    <h4 className="text-lg font-semibold text-cyan-300 mb-1">데이터 백업</h4>
+                    <p className="text-xs text-slate-400 mb-3">나의 단어, 학습 통계, 학습·퀴즈 기록, 설정을 파일 하나로 저장하거나 다른 기기에서 불러옵니다.</p>
+                    <div className="flex space-x-3">
+                        <button type="button" onClick={onExportBackup} className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white text-sm">📤 백업 파일 내보내기</button>
+                        <button type="button" onClick={() => backupFileInputRef.current?.click()} className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white text-sm">📥 백업에서 복원</button>
+                        <input ref={backupFileInputRef} type="file" accept=".json,application/json" onChange={handleBackupFileChange} className="hidden" />
+                    </div>
+                    {pendingBackup && (
+                        <div className="mt-4 p-4 bg-slate-700 rounded-lg">
+                            <p className="text-sm text-slate-200">
+                                {pendingBackup.exportedAt ? `${new Date(pendingBackup.exportedAt).toLocaleString('ko-KR')}에 만든 백업` : '백업 파일'}
+                                {pendingBackup.data.userSettings ? ` (${pendingBackup.data.userSettings.username})` : ''}
+                            </p>
+                            <p className="text-xs text-slate-400 mt-1">
+                                나의 단어 {pendingBackup.data.myWords.length}개 · 단어 통계 {Object.keys(pendingBackup.data.wordStats).length}개 · 퀴즈 기록 {pendingBackup.data.quizHistory.length}회
+                            </p>
+                            <div className="flex space-x-2 mt-3">
+                                <button type="button" onClick={() => handleRestore('merge')} className="flex-1 px-3 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white text-sm">현재 데이터와 합치기</button>
+                                <button type="button" onClick={() => setShowConfirmReplaceModal(true)} className="flex-1 px-3 py-2 bg-red-600 hover:bg-red-700 rounded text-white text-sm">백업으로 덮어쓰기</button>
+                                <button type="button" onClick={() => setPendingBackup(null)} className="px-3 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white text-sm">취소</button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="mt-6 pt-6 border-t border-slate-700">
+                    <h4 className="text-lg font-semibold text-cyan-300 mb-1">서버 동기화</h4>
+                    <p className="text-xs text-slate-400 mb-3">직접 운영하는 동기화 서버에 나의 단어, 학습 통계, 기록을 저장해 여러 기기에서 이어서 학습합니다. 다른 기기에서 같은 동기화 ID를 쓰면 데이터가 합쳐집니다.</p>
+                    <label className="flex items-center space-x-2 text-sm text-slate-300 mb-3">
+                        <input type="checkbox" checked={syncEnabled} onChange={(e) => setSyncEnabled(e.target.checked)} className="h-4 w-4 accent-cyan-500" />
+                        <span>서버 동기화 사용</span>
+                    </label>
+                    {syncEnabled && (
+                        <div className="space-y-3">
+                            <div>
+                                <label htmlFor="sync-endpoint" className="block text-xs font-medium text-slate-300 mb-1">서버 주소</label>
+                                <input id="sync-endpoint" type="url" value={syncEndpoint} onChange={(e) => setSyncEndpoint(e.target.value)} placeholder="http://localhost:8787" className="w-full p-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm" />
+                            </div>
+                            <div>
+                                <label htmlFor="sync-account-id" className="block text-xs font-medium text-slate-300 mb-1">동기화 ID</label>
+                                <input id="sync-account-id" type="text" value={syncAccountId} onChange={(e) => setSyncAccountId(e.target.value)} className="w-full p-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm" />
+                            </div>
+                            <div>
+                                <label htmlFor="sync-token" className="block text-xs font-medium text-slate-300 mb-1">접근 토큰 (선택)</label>
+                                <input id="sync-token" type="password" value={syncToken} onChange={(e) => setSyncToken(e.target.value)} autoComplete="off" className="w-full p-2 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm" />
+                            </div>
+                        </div>
+                    )}
+                    {syncSettings?.enabled && syncStatus !== 'disabled' && (
+                        <p className="text-xs text-slate-400 mt-3">
+                            {SYNC_STATUS_DISPLAY[syncStatus].icon} {SYNC_STATUS_DISPLAY[syncStatus].label} · 보낼 변경 {pendingSyncCount}건 · 마지막 동기화 {lastSyncedAt ? new Date(lastSyncedAt).toLocaleString('ko-KR') : '없음'}
+                        </p>
+                    )}
+                    <div className="flex space-x-3 mt-3">
+                        <button type="button" onClick={handleSaveSync} className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white text-sm">동기화 설정 저장</button>
+                        {syncSettings?.enabled && (
+                            <button type="button" onClick={onSyncNow} className="flex-1 px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white text-sm">🔄 지금 동기화</button>
+                        )}
+                    </div>
+                </div>
+            </div>
+            <ConfirmationModal
+                isOpen={showConfirmReplaceModal}
+                title="백업으로 덮어쓰기"
+                message="현재 기기의 나의 단어, 학습 통계, 기록, 설정이 모두 백업 파일의 내용으로 바뀝니다. 진행 중인 학습·퀴즈도 초기화됩니다. 계속하시겠습니까?"
+                onConfirm={() => handleRestore('replace')}
+                onCancel={() => setShowConfirmReplaceModal(false)}
+                confirmText="덮어쓰기"
+            />
+        </div>
+    );
+};
+
+
+// Navigation Bar Component
+interface NavBarProps {
+    currentScreen: AppScreen;
+    onNavigate: (screen: AppScreen) => void;
+    userSettings: UserSettings | null;
+    onOpenSettings: () => void;
+    onSwitchProfile: () => void;
+    dueCount: number;
+    syncStatus: SyncStatus;
+    pendingSyncCount: number;
+    onSyncNow: () => void;
+}
+
+const NavBar: React.FC<NavBarProps> = ({ currentScreen, onNavigate, userSettings, onOpenSettings, onSwitchProfile, dueCount, syncStatus, pendingSyncCount, onSyncNow }) => {
+    const { isDarkMode, toggleTheme } = useTheme();
+    const { isSpeaking, stopSpeaking } = useSpeech();
+    
+    const navItems: { screen: AppScreen; label: string; icon: string }[] = [
+        { screen: 'dashboard', label: '대시보드', icon: '🏠' },
+        { screen: 'learnWords', label: '단어 학습', icon: '📖' },
+        { screen: 'review', label: '복습', icon: '🔁' },
+        { screen: 'quiz', label: '퀴즈', icon: '📝' },
+        { screen: 'wrongNotes', label: '오답노트', icon: '📕' },
+        { screen: 'matchingGame', label: '짝 맞추기', icon: '🧩' },
+        { screen: 'allWords', label: '전체 단어', icon: '📚' },
+        { screen: 'manageWords', label: '단어 관리', icon: '➕' },
+        { screen: 'printTest', label: '시험지', icon: '🖨️' },
+        { screen: 'stats', label: '통계', icon: '📊' },
+    ];
+
+    if (!userSettings) return null;
+
+    return (
+        <nav className={`${isDarkMode ? 'bg-slate-700' : 'bg-white shadow-sm border-b border-gray-200'} p-3 shadow-md transition-colors duration-200`}>
+            <ul className="flex flex-wrap justify-around items-center space-x-1 sm:space-x-2">
+                {navItems.map((item) => (
+                    <li key={item.screen}>
+                        <button
+                            onClick={() => onNavigate(item.screen)}
+                            aria-current={currentScreen === item.screen ? "page" : undefined}
+                            className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out
+                                ${currentScreen === item.screen
+                                    ? isDarkMode
+                                        ? 'bg-cyan-500 text-white shadow-lg ring-2 ring-cyan-300'
+                                        : 'bg-blue-600 text-white shadow-lg ring-2 ring-blue-300'
+                                    : isDarkMode
+                                        ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
+                                        : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
+                                }`}
+                        >
+                            <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">{item.icon}</span>
+                            {item.label}
+                            {item.screen === 'review' && dueCount > 0 && (
+                                <span className="ml-1 min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs font-bold leading-none" aria-label={`복습할 단어 ${dueCount}개`}>
+                                    {dueCount > 99 ? '99+' : dueCount}
+                                </span>
+                            )}
+                        </button>
+                    </li>
+                ))}
+                
+                {/* Theme Toggle Button */}
+                <li>
+                    <button
+                        onClick={toggleTheme}
+                        title={isDarkMode ? '라이트 모드로 변경' : '다크 모드로 변경'}
+                        aria-label={isDarkMode ? '라이트 모드로 변경' : '다크 모드로 변경'}
+                        className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out ${
+                            isDarkMode
+                                ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
+                                : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
+                        }`}
+                    >
+                        <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">{isDarkMode ? '☀️' : '🌙'}</span>
+                        <span className="hidden sm:inline">{isDarkMode ? '라이트' : '다크'}</span>
+                        <span className="sm:hidden">테마</span>
+                    </button>
+                </li>
+
+                {/* Speech Control Button */}
+                {isSpeaking && (
+                    <li>
+                        <button
+                            onClick={stopSpeaking}
+                            title="음성 중지"
+                            aria-label="음성 중지"
+                            className="flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium text-white bg-red-500 hover:bg-red-600 transition-colors duration-150 ease-in-out animate-pulse"
+                        >
+                            <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">🔇</span>
+                            <span className="hidden sm:inline">음성중지</span>
+                            <span className="sm:hidden">중지</span>
+                        </button>
+                    </li>
+                )}
+
+                {/* Server Sync Status */}
+                {syncStatus !== 'disabled' && (
+                    <li>
+                        <button
+                            onClick={onSyncNow}
+                            title={`${SYNC_STATUS_DISPLAY[syncStatus].label}${pendingSyncCount > 0 ? ` · 보낼 변경 ${pendingSyncCount}건` : ''} · 눌러서 지금 동기화`}
+                            aria-label={`${SYNC_STATUS_DISPLAY[syncStatus].label}, 지금 동기화`}
+                            className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out ${
+                                syncStatus === 'error'
+                                    ? 'text-red-400 hover:bg-red-500 hover:text-white'
+                                    : isDarkMode
+                                        ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
+                                        : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
+                            }`}
+                        >
+                            <span className={`inline-block text-lg sm:mr-2 mb-0.5 sm:mb-0 ${syncStatus === 'syncing' ? 'animate-spin' : ''}`}>{SYNC_STATUS_DISPLAY[syncStatus].icon}</span>
+                            <span className="hidden sm:inline">{SYNC_STATUS_DISPLAY[syncStatus].label}</span>
+                            <span className="sm:hidden">동기화</span>
+                            {pendingSyncCount > 0 && (
+                                <span className="ml-1 min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-amber-500 text-white text-xs font-bold leading-none" aria-label={`보낼 변경 ${pendingSyncCount}건`}>
+                                    {pendingSyncCount > 99 ? '99+' : pendingSyncCount}
+                                </span>
+                            )}
+                        </button>
+                    </li>
+                )}
+                
+                <li>
+                    <button
+                        onClick={onOpenSettings}
+                        title="설정 변경"
+                        aria-label="설정 변경"
+                        className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out ${
+                            isDarkMode
+                                ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
+                                : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
+                        }`}
+                    >
+                        <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">⚙️</span>
+                        <span className="hidden sm:inline">설정</span>
+                        <span className="sm:hidden">설정</span>
+                    </button>
+                </li>
+
+                <li>
+                    <button
+                        onClick={onSwitchProfile}
+                        title={`${userSettings.username} · 프로필 전환`}
+                        aria-label="프로필 전환"
+                        className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out ${
+                            isDarkMode
+                                ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
+                                : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
+                        }`}
+                    >
+                        <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">👥</span>
+                        <span className="hidden sm:inline">프로필</span>
+                        <span className="sm:hidden">프로필</span>
+                    </button>
+                </li>
+            </ul>
+        </nav>
+    );
+};
+
+
+// Profile Picker Screen Component
+interface ProfilePickerScreenProps {
+    profiles: LearnerProfile[];
+    onSelectProfile: (profileId: string) => void;
+    onCreateProfile: () => void;
+    onRenameProfile: (profileId: string, name: string) => void;
+    onSetProfilePin: (profileId: string, pin: ProfilePinHash | null) => void;
+    onDeleteProfile: (profileId: string) => void;
+    addToast: (message: string, type: ToastMessage['type']) => void;
+}
+const ProfilePickerScreen: React.FC<ProfilePickerScreenProps> = ({ profiles, onSelectProfile, onCreateProfile, onRenameProfile, onSetProfilePin, onDeleteProfile, addToast }) => {
+    const [pinPrompt, setPinPrompt] = useState<{ profile: LearnerProfile; then: 'open' | 'manage' } | null>(null);
+    const [pinInput, setPinInput] = useState('');
+    const [managingProfile, setManagingProfile] = useState<LearnerProfile | null>(null);
+    const [renameInput, setRenameInput] = useState('');
+    const [newPinInput, setNewPinInput] = useState('');
+    const [showConfirmDeleteModal, setShowConfirmDeleteModal] = useState(false);
+    const pinInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (pinPrompt) pinInputRef.current?.focus();
+    }, [pinPrompt]);
+
+    const proceed = (profile: LearnerProfile, then: 'open' | 'manage') => {
+        if (then === 'open') {
+            onSelectProfile(profile.id);
+            return;
+        }
+        setManagingProfile(profile);
+        setRenameInput(profile.name);
+        setNewPinInput('');
+    };
+
+    const requestAccess = (profile: LearnerProfile, then: 'open' | 'manage') => {
+        if (profile.pin) {
+            setPinPrompt({ profile, then });
+            setPinInput('');
+        } else {
+            proceed(profile, then);
+        }
+    };
+
+    const handlePinSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pinPrompt) return;
+        const { profile, then } = pinPrompt;
+        if (!profile.pin) return;
+        const lockout = readPinLockouts()[profile.id] || { failures: 0, lockedUntil: 0 };
+        setPinInput('');
+        if (lockout.lockedUntil > Date.now()) {
+            addToast(`PIN을 여러 번 틀려 잠겨 있습니다. ${Math.ceil((lockout.lockedUntil - Date.now()) / 1000)}초 후에 다시 시도해주세요.`, "error");
+            return;
+        }
+        if (!(await verifyProfilePin(profile.pin, pinInput))) {
+            const failures = lockout.failures + 1;
+            if (failures >= PROFILE_PIN_MAX_ATTEMPTS) {
+                savePinLockout(profile.id, { failures: 0, lockedUntil: Date.now() + PROFILE_PIN_LOCKOUT_MS });
+                addToast(`PIN을 ${PROFILE_PIN_MAX_ATTEMPTS}번 틀려 ${PROFILE_PIN_LOCKOUT_MS / 1000}초 동안 잠급니다.`, "error");
+            } else {
+                savePinLockout(profile.id, { failures, lockedUntil: 0 });
+                addToast(`PIN이 올바르지 않습니다. (${PROFILE_PIN_MAX_ATTEMPTS - failures}번 남음)`, "error");
+            }
+            return;
+        }
+        savePinLockout(profile.id, null);
+        setPinPrompt(null);
+        proceed(profile, then);
+    };
+
+    const handleRename = () => {
+        if (!managingProfile) return;
+        if (!renameInput.trim()) {
+            addToast("프로필 이름은 비워둘 수 없습니다.", "warning");
+            return;
+        }
+        onRenameProfile(managingProfile.id, renameInput.trim());
+        setManagingProfile({ ...managingProfile, name: renameInput.trim() });
+    };
+
+    const handleSetPin = async () => {
+        if (!managingProfile) return;
+        if (!PROFILE_PIN_PATTERN.test(newPinInput)) {
+            addToast("PIN은 숫자 4자리로 입력해주세요.", "warning");
+            return;
+        }
+        const pin = await createProfilePinHash(newPinInput);
+        onSetProfilePin(managingProfile.id, pin);
+        setManagingProfile({ ...managingProfile, pin });
+        setNewPinInput('');
+    };
+
+    const handleClearPin = () => {
+        if (!managingProfile) return;
+        onSetProfilePin(managingProfile.id, null);
+        setManagingProfile({ ...managingProfile, pin: null });
+    };
+
+    const confirmDelete = () => {
+        if (!managingProfile) return;
+        onDeleteProfile(managingProfile.id);
+        setShowConfirmDeleteModal(false);
+        setManagingProfile(null);
+    };
+
+    const sortedProfiles = [...profiles].sort((a, b) => (b.lastUsedAt || '').localeCompare(a.lastUsedAt || ''));
+
+    return (
+        <div className="p-6 sm:p-8 bg-slate-800 min-h-screen flex flex-col justify-center items-center">
+            <div className="w-full max-w-2xl bg-slate-700 p-8 rounded-xl shadow-2xl">
+                <h1 className="text-3xl font-bold text-cyan-400 mb-2 text-center">누가 공부하나요?</h1>
+                <p className="text-sm text-slate-400 mb-8 text-center">프로필마다 단어, 학습 기록, 설정이 따로 저장됩니다.</p>
+                <ul className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                    {sortedProfiles.map(profile => (
+                        <li key={profile.id} className="relative">
+                            <button
+                                onClick={() => requestAccess(profile, 'open')}
+                                className="w-full p-4 bg-slate-600 hover:bg-slate-500 rounded-lg flex flex-col items-center transition-colors"
+                            >
+                                <span className="w-14 h-14 rounded-full bg-cyan-500 text-white text-2xl font-bold flex items-center justify-center mb-2">{profile.name.charAt(0).toUpperCase()}</span>
+                                <span className="text-white font-semibold truncate max-w-full">{profile.name}{profile.pin ? ' 🔒' : ''}</span>
+                                <span className="text-xs text-slate-400 mt-1">{profile.lastUsedAt ? `최근 ${new Date(profile.lastUsedAt).toLocaleDateString('ko-KR')}` : '새 프로필'}</span>
+                            </button>
+                            <button
+                                onClick={() => requestAccess(profile, 'manage')}
+                                title={`${profile.name} 프로필 관리`}
+                                aria-label={`${profile.name} 프로필 관리`}
+                                className="absolute top-2 right-2 p-1 text-slate-300 hover:text-white"
+                            >
+                                ⚙️
+                            </button>
+                        </li>
+                    ))}
+                    <li>
+                        <button
+                            onClick={onCreateProfile}
+                            className="w-full h-full min-h-[8rem] p-4 border-2 border-dashed border-slate-500 hover:border-cyan-400 rounded-lg flex flex-col items-center justify-center text-slate-300 hover:text-cyan-300 transition-colors"
+                        >
+                            <span className="text-3xl mb-1">➕</span>
+                            새 프로필 추가
+                        </button>
+                    </li>
+                </ul>
+            </div>
+
+            {pinPrompt && (
+                <div role="dialog" aria-modal="true" aria-labelledby="profile-pin-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-50 animate-fadeIn">
+                    <form onSubmit={handlePinSubmit} className="bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-xs">
+                        <h3 id="profile-pin-title" className="text-xl font-semibold text-cyan-400 mb-4 text-center">{pinPrompt.profile.name} 🔒</h3>
+                        <input
+                            ref={pinInputRef}
+                            type="password"
+                            inputMode="numeric"
+                            maxLength={4}
+                            value={pinInput}
+                            onChange={(e) => setPinInput(e.target.value.replace(/\D/g, ''))}
+                            placeholder="PIN 4자리"
+                            aria-label="PIN 4자리"
+                            className="w-full p-3 bg-slate-700 text-white text-center text-2xl tracking-[0.5em] rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        />
+                        <div className="flex justify-end space-x-3 mt-4">
+                            <button type="button" onClick={() => setPinPrompt(null)} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white">취소</button>
+                            <button type="submit" disabled={pinInput.length !== 4} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white disabled:opacity-50">확인</button>
+                        </div>
+                    </form>
+                </div>
+            )}
+
+            {managingProfile && (
+                <div role="dialog" aria-modal="true" aria-labelledby="profile-manage-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-50 animate-fadeIn">
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-md space-y-5">
+                        <h3 id="profile-manage-title" className="text-xl font-semibold text-cyan-400">프로필 관리</h3>
+                        <div>
+                            <label htmlFor="profile-rename" className="block text-sm font-medium text-slate-300 mb-1">이름</label>
+                            <div className="flex space-x-2">
+                                <input
+                                    id="profile-rename"
+                                    type="text"
+                                    value={renameInput}
+                                    onChange={(e) => setRenameInput(e.target.value)}
+                                    className="flex-grow p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                                />
+                                <button onClick={handleRename} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">변경</button>
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="profile-new-pin" className="block text-sm font-medium text-slate-300 mb-1">PIN (선택, 숫자 4자리) · 현재 {managingProfile.pin ? '설정됨' : '없음'}</label>
+                            <div className="flex space-x-2">
+                                <input
+                                    id="profile-new-pin"
+                                    type="password"
+                                    inputMode="numeric"
+                                    maxLength={4}
+                                    value={newPinInput}
+                                    onChange={(e) => setNewPinInput(e.target.value.replace(/\D/g, ''))}
+                                    placeholder="새 PIN"
+                                    className="flex-grow p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                                />
+                                <button onClick={handleSetPin} className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">설정</button>
+                                {managingProfile.pin && <button onClick={handleClearPin} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white">해제</button>}
+                            </div>
+                        </div>
+                        <div className="flex justify-between pt-2">
+                            <button onClick={() => setShowConfirmDeleteModal(true)} className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded text-white">프로필 삭제</button>
+                            <button onClick={() => setManagingProfile(null)} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white">닫기</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+            {managingProfile && (
+                <ConfirmationModal
+                    isOpen={showConfirmDeleteModal}
+                    title="프로필 삭제 확인"
+                    message={`'${managingProfile.name}' 프로필과 이 프로필의 단어, 학습 기록, 설정을 모두 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`}
+                    onConfirm={confirmDelete}
+                    onCancel={() => setShowConfirmDeleteModal(false)}
+                    confirmText="삭제"
+                />
+            )}
+        </div>
+    );
+};
+
+
+// Login/Setup Screen Component
+interface LoginSetupScreenProps extends Omit<ScreenProps, 'userSettings' | 'setGlobalLoading' | 'addToast' | 'openSettingsModal'> {
+    onSetupComplete: (settings: UserSettings) => void;
+    onBackToProfiles?: () => void; // Shown when other profiles exist to return to
+    addToast: (message: string, type: ToastMessage['type']) => void;
+}
+
+const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onNavigate, onSetupComplete, onBackToProfiles, addToast }) => {
+    const [username, setUsername] = useState('');
+    const [grade, setGrade] = useState('middle1');
+    const [dailyGoal, setDailyGoal] = useState(10);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!username.trim()) {
+            addToast("사용자 이름을 입력해주세요.", "warning");
+            return;
+        }
+        onSetupComplete({ username: username.trim(), grade, textbook: '', dailyGoal, cardDirection: 'enToKo' });
+    };
+
+    return (
+        <div className="p-6 sm:p-8 bg-slate-800 min-h-screen flex flex-col justify-center items-center">
+            <div className="w-full max-w-md bg-slate-700 p-8 rounded-xl shadow-2xl">
+                <h1 className="text-3xl font-bold text-cyan-400 mb-8 text-center">AI 영단어 학습 설정</h1>
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    <div>
+                        <label htmlFor="username" className="block text-sm font-medium text-slate-300 mb-1">사용자 이름</label>
+                        <input
+                            type="text"
+                            id="username"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            placeholder="이름을 입력하세요"
+                            aria-required="true"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="grade" className="block text-sm font-medium text-slate-300 mb-1">학년 선택</label>
+                        <select
+                            id="grade"
+                            value={grade}
+                            onChange={(e) => setGrade(e.target.value)}
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            aria-required="true"
+                        >
+                            <option value="middle1">중학교 1학년</option>
+                            <option value="middle2">중학교 2학년</option>
+                            <option value="middle3">중학교 3학년</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="dailyGoal" className="block text-sm font-medium text-slate-300 mb-1">일일 학습 목표 (단어 수)</label>
+                        <input
+                            type="number"
+                            id="dailyGoal"
+                            value={dailyGoal}
+                            onChange={(e) => setDailyGoal(Math.max(1, parseInt(e.target.value) || 1))}
+                            min="1"
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            aria-required="true"
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        className="w-full py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md transition-colors duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-opacity-75"
+                    >
+                        학습 시작
+                    </button>
+                </form>
+                {onBackToProfiles && (
+                    <button onClick={onBackToProfiles} className="w-full mt-4 text-sm text-slate-400 hover:text-cyan-300">
+                        ← 프로필 선택으로 돌아가기
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+
+// Dashboard Screen Component
+interface DashboardScreenProps extends ScreenProps {
+    myWords: Word[];
+    learnedWordsToday: number;
+    totalWordsLearned: number; 
+    dueCount: number;
+    learnSession: LearnSessionSnapshot | null;
+    quizSession: QuizSessionSnapshot | null;
+}
+const DashboardScreen: React.FC<DashboardScreenProps> = ({ userSettings, onNavigate, myWords, learnedWordsToday, totalWordsLearned, dueCount, learnSession, quizSession }) => {
+    return (
+        <div className="p-6 sm:p-8">
+            <h1 className="text-3xl font-bold text-cyan-400 mb-6">안녕하세요, {userSettings.username}님!</h1>
+            {(learnSession || quizSession) && (
+                <div className="bg-slate-700 p-4 rounded-lg shadow-lg mb-6 border border-cyan-600">
+                    <h2 className="text-lg font-semibold text-cyan-300 mb-3">진행 중인 학습이 있습니다</h2>
+                    <div className="space-y-2">
+                        {learnSession && (
+                            <button
+                                onClick={() => onNavigate('learnWords', { resumeSession: learnSession, reviewWordIds: learnSession.reviewWordIds })}
+                                className="w-full py-3 px-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-md shadow flex justify-between items-center"
+                            >
+                                <span>▶️ 이어서 하기: {learnSession.isQuickReview ? '복습' : '단어 학습'}</span>
+                                <span className="text-sm text-cyan-100">{learnSession.currentIndex + 1} / {learnSession.wordIds.length} · {new Date(learnSession.savedAt).toLocaleString()}</span>
+                            </button>
+                        )}
+                        {quizSession && (
+                            <button
+                                onClick={() => onNavigate('quiz', { resumeSession: quizSession })}
+                                className="w-full py-3 px-4 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-md shadow flex justify-between items-center"
+                            >
+                                <span>▶️ 이어서 하기: 퀴즈 (점수 {quizSession.score})</span>
+                                <span className="text-sm text-green-100">{quizSession.currentQuestionIndex + 1} / {quizSession.wordIds.length} · {new Date(quizSession.savedAt).toLocaleString()}</span>
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                <div className="bg-slate-700 p-6 rounded-lg shadow-lg">
+                    <h2 className="text-xl font-semibold text-cyan-300 mb-2">오늘의 학습 목표</h2>
+                    <p className="text-3xl font-bold text-white">{learnedWordsToday} / {userSettings.dailyGoal} 단어</p>
+                    <div className="w-full bg-slate-600 rounded-full h-4 mt-3 overflow-hidden" role="progressbar" aria-valuenow={learnedWordsToday} aria-valuemin={0} aria-valuemax={userSettings.dailyGoal}>
+                        <div
+                            className="bg-green-500 h-4 rounded-full transition-all duration-500 ease-out"
+                            style={{ width: `${Math.min(100, (learnedWordsToday / Math.max(1,userSettings.dailyGoal)) * 100)}%` }}
+                        ></div>
+                    </div>
+                </div>
+                <div className="bg-slate-700 p-6 rounded-lg shadow-lg">
+                    <h2 className="text-xl font-semibold text-cyan-300 mb-2">총 학습 단어 (역대)</h2>
+                    <p className="text-3xl font-bold text-white">{totalWordsLearned} 단어</p>
+                     <p className="text-sm text-slate-400 mt-2">나의 단어 (커스텀): {myWords.length}개</p>
+                </div>
+            </div>
+            <div className="space-y-4">
+                <button
+                    onClick={() => onNavigate('learnWords')}
+                    className="w-full py-4 px-6 bg-cyan-500 hover:bg-cyan-600 text-white text-lg font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out flex items-center justify-center"
+                >
+                    <span className="text-2xl mr-3" aria-hidden="true">📖</span> 단어 학습 시작하기
+                </button>
+                <button
+                    onClick={() => onNavigate('review')}
+                    className="w-full py-4 px-6 bg-teal-500 hover:bg-teal-600 text-white text-lg font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out flex items-center justify-center"
+                >
+                    <span className="text-2xl mr-3" aria-hidden="true">🔁</span> 오늘의 복습
+                    <span className={`ml-3 px-2.5 py-0.5 rounded-full text-sm font-bold ${dueCount > 0 ? 'bg-red-500 text-white' : 'bg-teal-700 text-teal-100'}`}>{dueCount}개</span>
+                </button>
+                <button
+                    onClick={() => onNavigate('quiz')}
+                    className="w-full py-4 px-6 bg-green-500 hover:bg-green-600 text-white text-lg font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out flex items-center justify-center"
+                >
+                     <span className="text-2xl mr-3" aria-hidden="true">📝</span> 퀴즈 풀기
+                </button>
+                 <button
+                    onClick={() => onNavigate('manageWords')}
+                    className="w-full py-4 px-6 bg-slate-600 hover:bg-slate-500 text-white text-lg font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out flex items-center justify-center"
+                >
+                    <span className="text-2xl mr-3" aria-hidden="true">➕</span> 단어 관리하기
+                </button>
+            </div>
+        </div>
+    );
+};
+
+
+// LearnWords Screen Component
+interface LearnWordsScreenProps extends ScreenProps {
+    words: Word[];
+    wordStats: Record<WordId, WordStat>;
+    onWordLearned: (wordId: WordId, quality: RecallQuality, isQuickReview?: boolean, direction?: CardDirection) => void;
+    updateWordStat: (wordId: WordId, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    reviewWordIds?: WordId[]; // Set when started from the review screen
+    resumeSession?: LearnSessionSnapshot | null; // Set when resuming from the dashboard
+    onSessionChange: (session: LearnSessionSnapshot | null) => void;
+}
+
+const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNavigate, words, wordStats, onWordLearned, updateWordStat, reviewWordIds, resumeSession, onSessionChange, addToast, setGlobalLoading }) => {
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [currentWordsSet, setCurrentWordsSet] = useState<Word[]>([]);
+    const [showMeaning, setShowMeaning] = useState(false);
+    const [isDailyGoalFinished, setIsDailyGoalFinished] = useState(false);
+    const [isQuickReviewActive, setIsQuickReviewActive] = useState(false);
+    const [isQuickReviewFinished, setIsQuickReviewFinished] = useState(false);
+    const [gradeCounts, setGradeCounts] = useState<Record<RecallGrade, number>>(createEmptyGradeCounts);
+    const [gradedWordIds, setGradedWordIds] = useState<Set<WordId>>(new Set());
+    const [directionMode, setDirectionMode] = useState<CardDirectionMode>(userSettings.cardDirection || 'enToKo');
+    const [currentDirection, setCurrentDirection] = useState<CardDirection>(() => resolveCardDirection(userSettings.cardDirection || 'enToKo'));
+    const [sessionRebuildCount, setSessionRebuildCount] = useState(0);
+
+    const [aiExample, setAiExample] = useState<AIExampleSentence | null>(null);
+    const [isFetchingAiExample, setIsFetchingAiExample] = useState(false);
+    
+    const getWordStat = useCallback((wordId: WordId) => {
+        return wordStats[wordId] || getDefaultWordStat(wordId);
+    }, [wordStats]);
+    
+    const selectWords = useCallback((count: number, forQuickReview: boolean) => {
+        const today = getTodayDateString();
+        const reviewedToday = (stat: WordStat) => !!stat.lastReviewed && stat.lastReviewed.split('T')[0] === today;
+        const gradeWords = words.filter(w => w.gradeLevel === userSettings.grade);
+
+        // Due reviews come first: most overdue, then hardest (lowest ease)
+        const dueWords = gradeWords
+            .filter(w => {
+                const stat = getWordStat(w.id);
+                return isWordDue(stat, today) && !reviewedToday(stat);
+            })
+            .sort((a, b) => {
+                const statA = getWordStat(a.id);
+                const statB = getWordStat(b.id);
+                if (statA.dueDate !== statB.dueDate) return (statA.dueDate || '').localeCompare(statB.dueDate || '');
+                return statA.easeFactor - statB.easeFactor;
+            });
+
+        if (forQuickReview) {
+            return shuffleArray(dueWords.slice(0, count));
+        }
+
+        // Remaining slots are filled with words that have never been studied (or were marked done by hand), custom words first
+        const newWords = shuffleArray(gradeWords.filter(w => getWordStat(w.id).dueDate === null && !getWordStat(w.id).isMastered))
+            .sort((a, b) => (a.isCustom === b.isCustom ? 0 : a.isCustom ? -1 : 1));
+        return shuffleArray([...dueWords, ...newWords].slice(0, count));
+    }, [words, userSettings.grade, getWordStat]);
+
+
+    useEffect(() => {
+        const resumedWords = resumeSession ? resolveWordsByIds(resumeSession.wordIds, words) : [];
+        if (resumeSession && resumedWords.length === resumeSession.wordIds.length && resumeSession.currentIndex < resumedWords.length) {
+            setCurrentWordsSet(resumedWords);
+            setCurrentIndex(resumeSession.currentIndex);
+            setShowMeaning(false);
+            setIsDailyGoalFinished(false);
+            setIsQuickReviewActive(resumeSession.isQuickReview);
+            setIsQuickReviewFinished(false);
+            setGradeCounts(resumeSession.gradeCounts);
+            setGradedWordIds(new Set(resumeSession.gradedWordIds));
+            setDirectionMode(resumeSession.directionMode);
+            setCurrentDirection(resumeSession.currentDirection);
+            setAiExample(null);
+            setIsFetchingAiExample(false);
+            if (resumeSession.currentDirection === 'enToKo') speak(resumedWords[resumeSession.currentIndex].term);
+            return;
+        }
+        if (resumeSession) {
+            addToast("이전 학습 세션의 단어 일부를 찾을 수 없어 새로 시작합니다.", "info");
+        }
+
+        const dailyWords = reviewWordIds
+            ? resolveWordsByIds(reviewWordIds, words)
+            : selectWords(userSettings.dailyGoal, false);
+        setCurrentWordsSet(dailyWords);
+        setCurrentIndex(0);
+        setShowMeaning(false);
+        setIsDailyGoalFinished(false);
+        setIsQuickReviewActive(!!reviewWordIds);
+        setIsQuickReviewFinished(false);
+        setGradeCounts(createEmptyGradeCounts());
+        setGradedWordIds(new Set());
+        setAiExample(null);
+        setIsFetchingAiExample(false);
+
+        if (dailyWords.length > 0 && dailyWords[0]) {
+            presentCard(dailyWords[0]);
+        } else if (reviewWordIds) {
+            setIsQuickReviewFinished(true);
+        } else {
+            setIsDailyGoalFinished(true); 
+        }
+        // words and wordStats (and therefore selectWords) change after every reviewed card, sync and pack load;
+        // the session set is only rebuilt when the settings change or its own words disappear.
+    }, [userSettings.grade, userSettings.dailyGoal, reviewWordIds, resumeSession, sessionRebuildCount]);
+
+    // A word deleted here or in another tab would leave a hole in the session, so it starts over
+    useEffect(() => {
+        if (isDailyGoalFinished || isQuickReviewFinished) return;
+        const wordIds = new Set(words.map(w => w.id));
+        if (currentWordsSet.some(w => !wordIds.has(w.id))) setSessionRebuildCount(count => count + 1);
+    }, [words]);
+
+    // Keep the saved session in sync with progress; a finished session is cleared
+    useEffect(() => {
+        if (isDailyGoalFinished || isQuickReviewFinished) {
+            onSessionChange(null);
+            return;
+        }
+        if (currentWordsSet.length === 0) return;
+        onSessionChange({
+            wordIds: currentWordsSet.map(w => w.id),
+            currentIndex,
+            isQuickReview: isQuickReviewActive,
+            reviewWordIds,
+            gradeCounts,
+            gradedWordIds: Array.from(gradedWordIds),
+            directionMode,
+            currentDirection,
+            savedAt: new Date().toISOString(),
+        });
+    }, [currentWordsSet, currentIndex, isQuickReviewActive, isDailyGoalFinished, isQuickReviewFinished, reviewWordIds, gradeCounts, gradedWordIds, directionMode, currentDirection, onSessionChange]);
+
+    const currentWord = currentWordsSet[currentIndex];
+
+    const resetWordSpecificStates = () => {
+        setShowMeaning(false);
+        setAiExample(null);
+        setIsFetchingAiExample(false);
+    };
+
+    // Picks the direction for a newly shown card. In KO→EN the term is only spoken after reveal.
+    const presentCard = (word: Word, mode: CardDirectionMode = directionMode) => {
+        const direction = resolveCardDirection(mode);
+        setCurrentDirection(direction);
+        if (direction === 'enToKo') speak(word.term);
+    };
+
+    const handleDirectionModeChange = (mode: CardDirectionMode) => {
+        setDirectionMode(mode);
+        resetWordSpecificStates();
+        if (currentWord) presentCard(currentWord, mode);
+    };
+
+    const handleToggleReveal = () => {
+        if (!showMeaning && currentWord && currentDirection === 'koToEn') {
+            speak(currentWord.term);
+        }
+        setShowMeaning(!showMeaning);
+    };
+
+    const handleGradeWord = (grade: RecallGrade) => {
+        if (!currentWord) return;
+        const gradeOption = RECALL_GRADE_OPTIONS.find(option => option.grade === grade);
+        if (!gradeOption) return;
+
+        // Only the first grade of a card in this session is scheduled; requeued repeats are practice
+        if (!gradedWordIds.has(currentWord.id)) {
+            onWordLearned(currentWord.id, gradeOption.quality, isQuickReviewActive, currentDirection);
+            setGradedWordIds(prev => new Set(prev).add(currentWord.id));
+            setGradeCounts(prev => ({ ...prev, [grade]: prev[grade] + 1 }));
+        }
+
+        let nextWordsSet = currentWordsSet;
+        if (grade === 'again') {
+            const insertAt = Math.min(currentIndex + 1 + AGAIN_REQUEUE_OFFSET, currentWordsSet.length);
+            nextWordsSet = [...currentWordsSet.slice(0, insertAt), currentWord, ...currentWordsSet.slice(insertAt)];
+            setCurrentWordsSet(nextWordsSet);
+        }
+        resetWordSpecificStates();
+
+        const nextIndex = currentIndex + 1;
+        if (nextIndex < nextWordsSet.length) {
+            setCurrentIndex(nextIndex);
+            if (nextWordsSet[nextIndex]) {
+                presentCard(nextWordsSet[nextIndex]);
+            }
+        } else {
+            if (isQuickReviewActive) setIsQuickReviewFinished(true);
+            else setIsDailyGoalFinished(true);
+        }
+    };
+    
+    const startQuickReview = () => {
+        const reviewWords = selectWords(3, true); 
+        if (reviewWords.length > 0 && reviewWords[0]) {
+            setCurrentWordsSet(reviewWords);
+            setCurrentIndex(0);
+            resetWordSpecificStates();
+            setIsQuickReviewActive(true);
+            setIsQuickReviewFinished(false);
+            setGradeCounts(createEmptyGradeCounts());
+            setGradedWordIds(new Set());
+            presentCard(reviewWords[0]);
+        } else {
+            addToast("복습할 이전 학습 단어가 더 이상 없습니다.", "info");
+            setIsQuickReviewFinished(true); 
+        }
+    };
+
+    const handleGenerateAiExample = async () => {
+        if (!currentWord || !process.env.API_KEY) {
+            if(!process.env.API_KEY) addToast("AI 예문 생성을 위해 API 키를 설정해주세요.", "warning");
+            return;
+        }
+        setIsFetchingAiExample(true);
+        setAiExample(null);
+        const example = await generateDifferentExampleSentenceWithGemini(currentWord, userSettings.grade, addToast, setGlobalLoading);
+        setAiExample(example);
+        setIsFetchingAiExample(false);
+    };
+
+    if (currentWordsSet.length === 0 && !isDailyGoalFinished) { 
+         return <div className="p-8 text-center text-xl">오늘 학습할 단어를 준비 중입니다...</div>;
+    }
+    
+    if (isDailyGoalFinished && !isQuickReviewActive && !isQuickReviewFinished) {
+        const potentialReviewWords = words.filter(w => {
+            const stat = getWordStat(w.id);
+            return w.gradeLevel === userSettings.grade && isWordDue(stat) && (!stat.lastReviewed || stat.lastReviewed.split('T')[0] !== getTodayDateString());
+        }).length;
+
+        return (
+            <div className="p-8 text-center">
+                <h2 className="text-3xl font-bold text-cyan-400 mb-6">오늘의 학습 목표 완료! 🎉</h2>
+                <p className="text-lg text-slate-300 mb-6">수고하셨습니다, {userSettings.username}님!</p>
+                <RecallGradeSummary gradeCounts={gradeCounts} />
+                {potentialReviewWords > 0 ? (
+                    <button
+                        onClick={startQuickReview}
+                        className="py-3 px-6 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-lg shadow-md mb-4"
+                    >
+                        💡 빠른 복습 시작하기 ({Math.min(3, potentialReviewWords)} 단어)
+                    </button>
+                ) : (
+                    <p className="text-slate-400 mb-4">복습할 이전 학습 단어가 없습니다.</p>
+                )}
+                <button
+                    onClick={() => onNavigate('dashboard')}
+                    className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
+                >
+                    대시보드로 돌아가기
+                </button>
+            </div>
+        );
+    }
+    
+    if (isQuickReviewFinished) {
+        return (
+             <div className="p-8 text-center">
+                <h2 className="text-3xl font-bold text-cyan-400 mb-6">{reviewWordIds ? '복습 완료! 👍' : '빠른 복습 완료! 👍'}</h2>
+                <p className="text-lg text-slate-300 mb-6">모든 학습 활동을 마쳤습니다!</p>
+                <RecallGradeSummary gradeCounts={gradeCounts} />
+                {reviewWordIds && (
+                    <button
+                        onClick={() => onNavigate('review')}
+                        className="py-3 px-6 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-lg shadow-md mb-4 mr-2"
+                    >
+                        복습 목록으로
+                    </button>
+                )}
+                <button
+                    onClick={() => onNavigate('dashboard')}
+                    className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
+                >
+                    대시보드로 돌아가기
+                </button>
+            </div>
+        );
+    }
+
+    if (!currentWord) { 
+        return (
+            <div className="p-8 text-center">
+                <h2 className="text-2xl font-bold text-slate-300 mb-4">학습할 단어를 불러오는 중...</h2>
+                <button
+                    onClick={() => onNavigate('dashboard')}
+                    className="mt-4 py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
+                >
+                    대시보드로 돌아가기
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 sm:p-8 flex flex-col items-center">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-4">
+                {isQuickReviewActive ? "빠른 복습" : "단어 학습"} ({currentIndex + 1} / {currentWordsSet.length})
+            </h1>
+            <div className="mb-4 flex items-center space-x-2">
+                <label htmlFor="card-direction-mode" className="text-sm text-slate-400">카드 방향</label>
+                <select
+                    id="card-direction-mode"
+                    value={directionMode}
+                    onChange={(e) => handleDirectionModeChange(e.target.value as CardDirectionMode)}
+                    className="p-2 bg-slate-700 text-white rounded-md border border-slate-600 text-sm focus:ring-2 focus:ring-cyan-500"
+                >
+                    {(Object.keys(CARD_DIRECTION_MODE_LABELS) as CardDirectionMode[]).map(mode => (
+                        <option key={mode} value={mode}>{CARD_DIRECTION_MODE_LABELS[mode]}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="w-full max-w-lg bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8 text-center">
+                {currentDirection === 'enToKo' ? (
+                    <>
+                        <div className="mb-2">
+                            <button onClick={() => speak(currentWord.term)} className="text-slate-400 hover:text-cyan-400 text-2xl" aria-label="단어 발음 듣기">
+                                🔊
+                            </button>
+                        </div>
+                        <h2 className="text-4xl sm:text-5xl font-bold text-white mb-3">{currentWord.term}</h2>
+                        {currentWord.pronunciation && <p className="text-slate-400 text-lg mb-2">[{currentWord.pronunciation}]</p>}
+                    </>
+                ) : (
+                    <>
+                        <p className="text-slate-400 text-sm mb-2">이 뜻의 영어 단어는 무엇일까요?</p>
+                        <h2 className="text-3xl sm:text-4xl font-bold text-white mb-2">{currentWord.meaning}</h2>
+                        <p className="text-slate-400 text-lg mb-3">({currentWord.partOfSpeech})</p>
+                    </>
+                )}
+                
+                <button
+                    onClick={handleToggleReveal}
+                    className="w-full py-3 px-4 mb-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-md shadow transition-colors"
+                    aria-expanded={showMeaning}
+                >
+                    {currentDirection === 'enToKo' ? (showMeaning ? '뜻 숨기기' : '뜻 보기') : (showMeaning ? '단어 숨기기' : '단어 보기')}
+                </button>
+
+                {showMeaning && (
+                    <div className="bg-slate-600 p-4 sm:p-6 rounded-lg mb-4 text-left animate-fadeIn">
+                        {currentDirection === 'enToKo' ? (
+                            <p className="text-xl text-cyan-300 font-semibold mb-1">{currentWord.partOfSpeech}: {currentWord.meaning}</p>
+                        ) : (
+                            <div className="flex items-center">
+                                <p className="text-2xl text-cyan-300 font-bold mr-2">{currentWord.term}</p>
+                                {currentWord.pronunciation && <p className="text-slate-400 mr-2">[{currentWord.pronunciation}]</p>}
+                                <button onClick={() => speak(currentWord.term)} className="text-slate-400 hover:text-cyan-400 text-xl" aria-label="단어 발음 듣기">🔊</button>
+                            </div>
+                        )}
+                        <hr className="border-slate-500 my-3"/>
+                        <p className="text-slate-200 mb-1"><span className="font-semibold">예문:</span> {currentWord.exampleSentence}</p>
+                        {currentWord.exampleSentenceMeaning && <p className="text-sm text-slate-400"><span className="font-semibold">해석:</span> {currentWord.exampleSentenceMeaning}</p>}
+                    
+                        <div className="mt-4">
+                            <button
+                                onClick={handleGenerateAiExample}
+                                disabled={isFetchingAiExample || !process.env.API_KEY || isCurrentlyGeminiQuotaExhausted}
+                                className="w-full py-2 px-3 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
+                            >
+                                <span role="img" aria-label="ai" className="mr-2">✨</span>
+                                {isFetchingAiExample ? 'AI 예문 생성 중...' : 'AI: 다른 예문'}
+                                {(!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted) && <span className="text-xs ml-1">({!process.env.API_KEY ? "Key 필요" : "Quota 소진"})</span>}
+                            </button>
+                        </div>
+                        {aiExample && (
+                            <div className="mt-3 pt-3 border-t border-slate-500 animate-fadeIn">
+                                <p className="text-teal-300 font-semibold mb-1">✨ AI 추가 예문:</p>
+                                <button onClick={() => speak(aiExample.newExampleSentence)} className="text-slate-400 hover:text-cyan-400 text-lg mr-1" aria-label="AI 예문 발음 듣기">🔊</button>
+                                <span className="text-slate-200">{aiExample.newExampleSentence}</span>
+                                <p className="text-sm text-slate-400 mt-0.5"><span className="font-semibold">해석:</span> {aiExample.newExampleSentenceMeaning}</p>
+                            </div>
+                        )}
                     </div>
+                )}
+                
+                {showMeaning ? (
                     <div>
-                        <label htmlFor="edit-dailyGoal" className="block text-sm font-medium text-slate-300 mb-1">일일 학습 목표 (단어 수)</label>
-                        <input
-                            type="number"
-                            id="edit-dailyGoal"
-                            value={dailyGoal}
-                            onChange={(e) => setDailyGoal(Math.max(1, parseInt(e.target.value) || 1))}
-                            min="1"
-                            className="w-full p-3 bg-slate-700 text-white rounded-md border border-slate-600 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
-                        />
-                    </div>
-                    <div className="flex justify-end space-x-3 pt-2">
-                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded text-white">취소</button>
-                        <button type="submit" className="px-4 py-2 bg-cyan-500 hover:bg-cyan-600 rounded text-white">저장</button>
+                        <p className="text-sm text-slate-400 mb-2">얼마나 잘 기억했나요?</p>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                            {RECALL_GRADE_OPTIONS.map(option => (
+                                <button
+                                    key={option.grade}
+                                    onClick={() => handleGradeWord(option.grade)}
+                                    className={`py-3 px-2 text-white font-bold rounded-md shadow-lg transition-transform transform hover:scale-105 ${option.buttonClass}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
                     </div>
-                </form>
+                ) : (
+                    <p className="text-sm text-slate-400">
+                        {currentDirection === 'enToKo'
+                            ? "뜻을 떠올려 본 뒤 '뜻 보기'로 확인하고 기억 정도를 선택하세요."
+                            : "영어 단어를 떠올려 본 뒤 '단어 보기'로 확인하고 기억 정도를 선택하세요."}
+                    </p>
+                )}
             </div>
+            <button 
+                onClick={() => onNavigate('dashboard')} 
+                className="mt-8 text-sm text-cyan-400 hover:text-cyan-300"
+            >
+                {isQuickReviewActive ? "복습" : "학습"} 중단하고 대시보드로
+            </button>
         </div>
     );
 };
 
+// Per-grade breakdown shown when a flashcard session ends
+const RecallGradeSummary: React.FC<{ gradeCounts: Record<RecallGrade, number> }> = ({ gradeCounts }) => {
+    const total = RECALL_GRADE_OPTIONS.reduce((sum, option) => sum + gradeCounts[option.grade], 0);
+    if (total === 0) return null;
+    return (
+        <div className="mb-8 bg-slate-700 p-4 rounded-lg max-w-md mx-auto">
+            <h3 className="text-lg font-semibold text-cyan-300 mb-3">기억 평가 결과 ({total} 단어)</h3>
+            <div className="grid grid-cols-4 gap-2">
+                {RECALL_GRADE_OPTIONS.map(option => (
+                    <div key={option.grade} className="bg-slate-600 rounded-md p-2">
+                        <p className={`text-sm font-semibold ${option.textClass}`}>{option.label}</p>
+                        <p className="text-2xl font-bold text-white">{gradeCounts[option.grade]}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
 
-// Navigation Bar Component
-interface NavBarProps {
-    currentScreen: AppScreen;
-    onNavigate: (screen: AppScreen) => void;
-    userSettings: UserSettings | null;
-    onOpenSettings: () => void;
+// Review Screen Component
+interface ReviewScreenProps extends ScreenProps {
+    allWords: Word[];
+    wordStats: Record<WordId, WordStat>;
 }
 
-const NavBar: React.FC<NavBarProps> = ({ currentScreen, onNavigate, userSettings, onOpenSettings }) => {
-    const { isDarkMode, toggleTheme } = useTheme();
-    const { isSpeaking, stopSpeaking } = useSpeech();
-    
-    const navItems: { screen: AppScreen; label: string; icon: string }[] = [
-        { screen: 'dashboard', label: '대시보드', icon: '🏠' },
-        { screen: 'learnWords', label: '단어 학습', icon: '📖' },
-        { screen: 'quiz', label: '퀴즈', icon: '📝' },
-        { screen: 'allWords', label: '전체 단어', icon: '📚' },
-        { screen: 'manageWords', label: '단어 관리', icon: '➕' },
-        { screen: 'stats', label: '통계', icon: '📊' },
-    ];
+const ReviewScreen: React.FC<ReviewScreenProps> = ({ userSettings, onNavigate, allWords, wordStats }) => {
+    const today = getTodayDateString();
+    const dueWords = useMemo(() => getDueWords(allWords, wordStats, userSettings.grade, today), [allWords, wordStats, userSettings.grade, today]);
+    const [sessionSize, setSessionSize] = useState(10);
 
-    if (!userSettings) return null;
+    const getWordStat = useCallback((wordId: WordId) => {
+        return wordStats[wordId] || getDefaultWordStat(wordId);
+    }, [wordStats]);
+
+    const effectiveSessionSize = Math.min(Math.max(1, sessionSize), dueWords.length);
+
+    const startReviewSession = (size: number) => {
+        const reviewWordIds = shuffleArray(dueWords.slice(0, size)).map(w => w.id);
+        onNavigate('learnWords', { reviewWordIds });
+    };
 
     return (
-        <nav className={`${isDarkMode ? 'bg-slate-700' : 'bg-white shadow-sm border-b border-gray-200'} p-3 shadow-md transition-colors duration-200`}>
-            <ul className="flex flex-wrap justify-around items-center space-x-1 sm:space-x-2">
-                {navItems.map((item) => (
-                    <li key={item.screen}>
+        <div className="p-4 sm:p-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-2">오늘의 복습 ({dueWords.length}개)</h1>
+            <p className="text-sm text-slate-400 mb-6">현재 학년 단어와 나의 단어 중 복습 시기가 된 단어입니다. 오래 밀린 단어부터 표시됩니다.</p>
+
+            {dueWords.length > 0 ? (
+                <>
+                    <div className="bg-slate-700 p-4 rounded-lg shadow mb-6 flex flex-col sm:flex-row sm:items-end gap-3">
+                        <div className="flex-grow">
+                            <label htmlFor="review-session-size" className="block text-sm font-medium text-slate-300 mb-1">이번에 복습할 단어 수</label>
+                            <input
+                                type="number"
+                                id="review-session-size"
+                                value={effectiveSessionSize}
+                                onChange={(e) => setSessionSize(Math.max(1, parseInt(e.target.value) || 1))}
+                                min="1"
+                                max={dueWords.length}
+                                className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            />
+                        </div>
                         <button
-                            onClick={() => onNavigate(item.screen)}
-                            aria-current={currentScreen === item.screen ? "page" : undefined}
-                            className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out
-                                ${currentScreen === item.screen
-                                    ? isDarkMode
-                                        ? 'bg-cyan-500 text-white shadow-lg ring-2 ring-cyan-300'
-                                        : 'bg-blue-600 text-white shadow-lg ring-2 ring-blue-300'
-                                    : isDarkMode
-                                        ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
-                                        : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
-                                }`}
+                            onClick={() => startReviewSession(effectiveSessionSize)}
+                            className="py-3 px-6 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-md"
                         >
-                            <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">{item.icon}</span>
-                            {item.label}
+                            🔁 {effectiveSessionSize}개 복습 시작
                         </button>
-                    </li>
-                ))}
-                
-                {/* Theme Toggle Button */}
-                <li>
-                    <button
-                        onClick={toggleTheme}
-                        title={isDarkMode ? '라이트 모드로 변경' : '다크 모드로 변경'}
-                        aria-label={isDarkMode ? '라이트 모드로 변경' : '다크 모드로 변경'}
-                        className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out ${
-                            isDarkMode
-                                ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
-                                : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
-                        }`}
-                    >
-                        <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">{isDarkMode ? '☀️' : '🌙'}</span>
-                        <span className="hidden sm:inline">{isDarkMode ? '라이트' : '다크'}</span>
-                        <span className="sm:hidden">테마</span>
-                    </button>
-                </li>
-
-                {/* Speech Control Button */}
-                {isSpeaking && (
-                    <li>
                         <button
-                            onClick={stopSpeaking}
-                            title="음성 중지"
-                            aria-label="음성 중지"
-                            className="flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium text-white bg-red-500 hover:bg-red-600 transition-colors duration-150 ease-in-out animate-pulse"
+                            onClick={() => startReviewSession(dueWords.length)}
+                            className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md"
                         >
-                            <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">🔇</span>
-                            <span className="hidden sm:inline">음성중지</span>
-                            <span className="sm:hidden">중지</span>
+                            전체 복습 ({dueWords.length})
                         </button>
-                    </li>
-                )}
-                
-                <li>
+                    </div>
+
+                    <ul className="space-y-2">
+                        {dueWords.map(word => {
+                            const stat = getWordStat(word.id);
+                            const overdueDays = stat.dueDate ? getDaysBetween(stat.dueDate, today) : 0;
+                            return (
+                                <li key={word.id} className="flex justify-between items-center p-3 bg-slate-700 rounded-lg shadow">
+                                    <div>
+                                        <span className="text-lg font-semibold text-cyan-300">{word.term}</span>
+                                        {word.isCustom && <span className="text-xs bg-yellow-500 text-slate-900 px-1.5 py-0.5 rounded-full ml-2">나의 단어</span>}
+                                        <p className="text-sm text-slate-300">{word.partOfSpeech} - {word.meaning}</p>
+                                    </div>
+                                    <div className="text-right flex-shrink-0 ml-2">
+                                        <p className={`text-sm font-semibold ${overdueDays > 0 ? 'text-red-400' : 'text-teal-300'}`}>
+                                            {overdueDays > 0 ? `${overdueDays}일 지남` : '오늘'}
+                                        </p>
+                                        <p className="text-xs text-slate-400">간격 {stat.interval}일 · 오답 {stat.quizIncorrectCount}</p>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </>
+            ) : (
+                <div className="text-center py-8">
+                    <p className="text-slate-300 text-lg mb-4">오늘 복습할 단어가 없습니다. 🎉</p>
                     <button
-                        onClick={onOpenSettings}
-                        title="설정 변경"
-                        aria-label="설정 변경"
-                        className={`flex flex-col sm:flex-row items-center justify-center p-2 sm:px-3 sm:py-2 rounded-md text-xs sm:text-sm font-medium transition-colors duration-150 ease-in-out ${
-                            isDarkMode
-                                ? 'text-slate-300 hover:bg-slate-600 hover:text-white'
-                                : 'text-gray-600 hover:bg-gray-100 hover:text-gray-800'
-                        }`}
+                        onClick={() => onNavigate('learnWords')}
+                        className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
                     >
-                        <span className="text-lg sm:mr-2 mb-0.5 sm:mb-0">⚙️</span>
-                        <span className="hidden sm:inline">설정</span>
-                        <span className="sm:hidden">설정</span>
+                        새 단어 학습하기
                     </button>
-                </li>
-            </ul>
-        </nav>
+                </div>
+            )}
+        </div>
     );
 };
 
-
-// Login/Setup Screen Component
-interface LoginSetupScreenProps extends Omit<ScreenProps, 'userSettings' | 'setGlobalLoading' | 'addToast' | 'openSettingsModal'> {
-    onSetupComplete: (settings: UserSettings) => void;
-    addToast: (message: string, type: ToastMessage['type']) => void;
+// Personal best speed challenge results for one grade
+const SpeedChallengeBestsTable: React.FC<{ grade: string; bests: SpeedChallengeRecord[] }> = ({ grade, bests }) => (
+    <div className="bg-slate-800 p-3 rounded-md text-left">
+        <h3 className="text-sm font-semibold text-cyan-300 mb-2">🏅 {GRADE_LABELS[grade] || grade} 최고 기록</h3>
+        {bests.length > 0 ? (
+            <ol className="space-y-1 text-sm">
+                {bests.map((record, index) => (
+                    <li key={index} className="flex justify-between text-slate-300">
+                        <span>{index + 1}. {new Date(record.date).toLocaleDateString('ko-KR')}</span>
+                        <span><span className="text-white font-semibold">{record.points}점</span> · {record.correct}/{record.answered} · 콤보 {record.maxCombo}</span>
+                    </li>
+                ))}
+            </ol>
+        ) : (
+            <p className="text-sm text-slate-400">아직 기록이 없습니다.</p>
+        )}
+    </div>
+);
+
+// Wrong-Answer Notebook Screen Component
+interface WrongNotesScreenProps extends ScreenProps {
+    allWords: Word[];
+    wordStats: Record<WordId, WordStat>;
 }
 
-const LoginSetupScreen: React.FC<LoginSetupScreenProps> = ({ onNavigate, onSetupComplete, addToast }) => {
-    const [username, setUsername] = useState('');
-    const [grade, setGrade] = useState('middle1');
-    const [dailyGoal, setDailyGoal] = useState(10);
+const WrongNotesScreen: React.FC<WrongNotesScreenProps> = ({ userSettings, onNavigate, allWords, wordStats, addToast, setGlobalLoading }) => {
+    const [retryMode, setRetryMode] = useState<QuizMode>('meaning');
+    const [explanations, setExplanations] = useState<Record<WordId, string>>({});
+    const [explainingWordId, setExplainingWordId] = useState<WordId | null>(null);
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!username.trim()) {
-            addToast("사용자 이름을 입력해주세요.", "warning");
-            return;
-        }
-        onSetupComplete({ username: username.trim(), grade, textbook: '', dailyGoal });
+    // Most recently missed first; migrated entries without miss details go last
+    const notebookWords = useMemo(() => {
+        return allWords
+            .filter(word => wordStats[word.id]?.wrongNote)
+            .map(word => ({ word, note: wordStats[word.id].wrongNote as WrongNote, stat: wordStats[word.id] }))
+            .sort((a, b) => (b.note.misses[0]?.date || '').localeCompare(a.note.misses[0]?.date || ''));
+    }, [allWords, wordStats]);
+
+    const handleStartRetryQuiz = () => {
+        const quizConfig: QuizConfig = { source: 'wrongNote', grades: [userSettings.grade], questionCount: 0, mode: retryMode };
+        onNavigate('quiz', { quizConfig });
+    };
+
+    const handleExplain = async (word: Word, confusedAnswer: string | null) => {
+        setExplainingWordId(word.id);
+        const explanation = await generateWrongAnswerExplanationWithGemini(word, confusedAnswer, userSettings.grade, addToast, setGlobalLoading);
+        if (explanation) setExplanations(prev => ({ ...prev, [word.id]: explanation }));
+        setExplainingWordId(null);
     };
 
     return (
-        <div className="p-6 sm:p-8 bg-slate-800 min-h-screen flex flex-col justify-center items-center">
-            <div className="w-full max-w-md bg-slate-700 p-8 rounded-xl shadow-2xl">
-                <h1 className="text-3xl font-bold text-cyan-400 mb-8 text-center">AI 영단어 학습 설정</h1>
-                <form onSubmit={handleSubmit} className="space-y-6">
-                    <div>
-                        <label htmlFor="username" className="block text-sm font-medium text-slate-300 mb-1">사용자 이름</label>
-                        <input
-                            type="text"
-                            id="username"
-                            value={username}
-                            onChange={(e) => setUsername(e.target.value)}
-                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
-                            placeholder="이름을 입력하세요"
-                            aria-required="true"
-                        />
-                    </div>
-                    <div>
-                        <label htmlFor="grade" className="block text-sm font-medium text-slate-300 mb-1">학년 선택</label>
-                        <select
-                            id="grade"
-                            value={grade}
-                            onChange={(e) => setGrade(e.target.value)}
-                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
-                            aria-required="true"
+        <div className="p-4 sm:p-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-2">📕 오답노트 ({notebookWords.length}개)</h1>
+            <p className="text-sm text-slate-400 mb-6">퀴즈에서 틀린 단어가 모입니다. {WRONG_NOTE_CLEAR_STREAK}번 연속으로 맞히면 오답노트에서 빠져요.</p>
+
+            {notebookWords.length > 0 ? (
+                <>
+                    <div className="bg-slate-700 p-4 rounded-lg shadow mb-6 flex flex-col sm:flex-row sm:items-end gap-3">
+                        <div className="flex-grow">
+                            <label htmlFor="wrong-note-retry-mode" className="block text-sm font-medium text-slate-300 mb-1">문제 유형</label>
+                            <select
+                                id="wrong-note-retry-mode"
+                                value={retryMode}
+                                onChange={(e) => setRetryMode(e.target.value as QuizMode)}
+                                className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                            >
+                                {(Object.keys(QUIZ_MODE_LABELS) as QuizMode[]).map(mode => (
+                                    <option key={mode} value={mode}>{QUIZ_MODE_LABELS[mode]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <button
+                            onClick={handleStartRetryQuiz}
+                            className="py-3 px-6 bg-red-500 hover:bg-red-600 text-white font-semibold rounded-md shadow-md"
                         >
-                            <option value="middle1">중학교 1학년</option>
-                            <option value="middle2">중학교 2학년</option>
-                            <option value="middle3">중학교 3학년</option>
-                        </select>
-                    </div>
-                    <div>
-                        <label htmlFor="dailyGoal" className="block text-sm font-medium text-slate-300 mb-1">일일 학습 목표 (단어 수)</label>
-                        <input
-                            type="number"
-                            id="dailyGoal"
-                            value={dailyGoal}
-                            onChange={(e) => setDailyGoal(Math.max(1, parseInt(e.target.value) || 1))}
-                            min="1"
-                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
-                            aria-required="true"
-                        />
+                            ✍️ 오답만 다시 풀기 ({notebookWords.length})
+                        </button>
                     </div>
-                    <button
-                        type="submit"
-                        className="w-full py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-md shadow-md transition-colors duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-opacity-75"
-                    >
-                        학습 시작
-                    </button>
-                </form>
-            </div>
-        </div>
-    );
-};
-
 
-// Dashboard Screen Component
-interface DashboardScreenProps extends ScreenProps {
-    myWords: Word[];
-    learnedWordsToday: number;
-    totalWordsLearned: number; 
-}
-const DashboardScreen: React.FC<DashboardScreenProps> = ({ userSettings, onNavigate, myWords, learnedWordsToday, totalWordsLearned }) => {
-    return (
-        <div className="p-6 sm:p-8">
-            <h1 className="text-3xl font-bold text-cyan-400 mb-6">안녕하세요, {userSettings.username}님!</h1>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                <div className="bg-slate-700 p-6 rounded-lg shadow-lg">
-                    <h2 className="text-xl font-semibold text-cyan-300 mb-2">오늘의 학습 목표</h2>
-                    <p className="text-3xl font-bold text-white">{learnedWordsToday} / {userSettings.dailyGoal} 단어</p>
-                    <div className="w-full bg-slate-600 rounded-full h-4 mt-3 overflow-hidden" role="progressbar" aria-valuenow={learnedWordsToday} aria-valuemin={0} aria-valuemax={userSettings.dailyGoal}>
-                        <div
-                            className="bg-green-500 h-4 rounded-full transition-all duration-500 ease-out"
-                            style={{ width: `${Math.min(100, (learnedWordsToday / Math.max(1,userSettings.dailyGoal)) * 100)}%` }}
-                        ></div>
-                    </div>
-                </div>
-                <div className="bg-slate-700 p-6 rounded-lg shadow-lg">
-                    <h2 className="text-xl font-semibold text-cyan-300 mb-2">총 학습 단어 (역대)</h2>
-                    <p className="text-3xl font-bold text-white">{totalWordsLearned} 단어</p>
-                     <p className="text-sm text-slate-400 mt-2">나의 단어 (커스텀): {myWords.length}개</p>
+                    <ul className="space-y-3">
+                        {notebookWords.map(({ word, note, stat }) => {
+                            const confusedAnswer = note.misses.find(miss => miss.chosenAnswer)?.chosenAnswer || null;
+                            return (
+                                <li key={word.id} className="p-4 bg-slate-700 rounded-lg shadow">
+                                    <div className="flex justify-between items-start">
+                                        <div>
+                                            <span className="text-lg font-semibold text-cyan-300">{word.term}</span>
+                                            {word.isCustom && <span className="text-xs bg-yellow-500 text-slate-900 px-1.5 py-0.5 rounded-full ml-2">나의 단어</span>}
+                                            <p className="text-sm text-slate-300">{word.partOfSpeech} - {word.meaning}</p>
+                                        </div>
+                                        <div className="text-right flex-shrink-0 ml-2">
+                                            <p className="text-sm text-red-400 font-semibold">오답 {stat.quizIncorrectCount}회</p>
+                                            <p className="text-xs text-slate-400" aria-label={`연속 정답 ${note.correctStreak}회`}>
+                                                {Array.from({ length: WRONG_NOTE_CLEAR_STREAK }, (_, index) => (index < note.correctStreak ? '●' : '○')).join('')} 연속 정답
+                                            </p>
+                                        </div>
+                                    </div>
+
+                                    {note.misses.length > 0 ? (
+                                        <ul className="mt-3 space-y-1 text-sm">
+                                            {note.misses.slice(0, 3).map((miss, index) => (
+                                                <li key={index} className="text-slate-400">
+                                                    <span className="text-slate-300">{new Date(miss.date).toLocaleString('ko-KR', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                                                    {' · '}{QUIZ_MODE_LABELS[miss.mode]}
+                                                    {' · '}문제: <span className="text-slate-300">{miss.prompt}</span>
+                                                    {' · '}고른 답: <span className="text-red-300">{miss.chosenAnswer}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    ) : (
+                                        <p className="mt-3 text-sm text-slate-500">오답노트가 생기기 전에 틀린 단어입니다.</p>
+                                    )}
+                                    {note.misses.length > 3 && <p className="text-xs text-slate-500 mt-1">외 {note.misses.length - 3}건</p>}
+
+                                    {explanations[word.id] ? (
+                                        <div className="mt-3 p-3 bg-slate-800 rounded-md text-sm text-slate-200 whitespace-pre-line animate-fadeIn">
+                                            <p className="text-teal-300 font-semibold mb-1">✨ AI 오답 설명</p>
+                                            {explanations[word.id]}
+                                        </div>
+                                    ) : (
+                                        <button
+                                            onClick={() => handleExplain(word, confusedAnswer)}
+                                            disabled={!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted || explainingWordId !== null}
+                                            className="mt-3 text-teal-400 hover:text-teal-300 text-sm px-2 py-1 rounded hover:bg-slate-600 disabled:opacity-50"
+                                        >
+                                            {explainingWordId === word.id ? 'AI 설명 생성 중...' : '✨ AI로 다시 설명 듣기'}
+                                            {(!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted) && <span className="text-xs ml-1">({!process.env.API_KEY ? "Key 필요" : "Quota 소진"})</span>}
+                                        </button>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </>
+            ) : (
+                <div className="text-center py-8">
+                    <p className="text-slate-300 text-lg mb-4">오답노트가 비어 있습니다. 🎉</p>
+                    <button
+                        onClick={() => onNavigate('quiz')}
+                        className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
+                    >
+                        퀴즈 풀러 가기
+                    </button>
                 </div>
-            </div>
-            <div className="space-y-4">
-                <button
-                    onClick={() => onNavigate('learnWords')}
-                    className="w-full py-4 px-6 bg-cyan-500 hover:bg-cyan-600 text-white text-lg font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out flex items-center justify-center"
-                >
-                    <span className="text-2xl mr-3" aria-hidden="true">📖</span> 단어 학습 시작하기
-                </button>
-                <button
-                    onClick={() => onNavigate('quiz')}
-                    className="w-full py-4 px-6 bg-green-500 hover:bg-green-600 text-white text-lg font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out flex items-center justify-center"
-                >
-                     <span className="text-2xl mr-3" aria-hidden="true">📝</span> 퀴즈 풀기
-                </button>
-                 <button
-                    onClick={() => onNavigate('manageWords')}
-                    className="w-full py-4 px-6 bg-slate-600 hover:bg-slate-500 text-white text-lg font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out flex items-center justify-center"
-                >
-                    <span className="text-2xl mr-3" aria-hidden="true">➕</span> 단어 관리하기
-                </button>
-            </div>
+            )}
         </div>
     );
 };
 
-
-// LearnWords Screen Component
-interface LearnWordsScreenProps extends ScreenProps {
-    words: Word[];
-    wordStats: Record<string | number, WordStat>;
-    onWordLearned: (wordId: number | string, isQuickReview?: boolean) => void;
-    updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+// Matching Game Screen Component
+interface MatchingGameScreenProps extends ScreenProps {
+    allWords: Word[];
+    wordStats: Record<WordId, WordStat>;
+    updateWordStat: (wordId: WordId, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    matchingGameHistory: MatchingGameRecord[];
+    onMatchingGameComplete: (record: MatchingGameRecord) => void;
 }
 
-const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNavigate, words, wordStats, onWordLearned, updateWordStat, addToast, setGlobalLoading }) => {
-    const [currentIndex, setCurrentIndex] = useState(0);
-    const [currentWordsSet, setCurrentWordsSet] = useState<Word[]>([]);
-    const [showMeaning, setShowMeaning] = useState(false);
-    const [isDailyGoalFinished, setIsDailyGoalFinished] = useState(false);
-    const [isQuickReviewActive, setIsQuickReviewActive] = useState(false);
-    const [isQuickReviewFinished, setIsQuickReviewFinished] = useState(false);
-
-    const [aiExample, setAiExample] = useState<AIExampleSentence | null>(null);
-    const [isFetchingAiExample, setIsFetchingAiExample] = useState(false);
-    
-    const getWordStat = useCallback((wordId: string | number) => {
-        return wordStats[wordId] || getDefaultWordStat(wordId);
-    }, [wordStats]);
-    
-    const selectWords = useCallback((count: number, forQuickReview: boolean) => {
-        const today = getTodayDateString();
-        let eligibleWords = words.filter(w => {
-            const stat = getWordStat(w.id);
-            return w.gradeLevel === userSettings.grade && !stat.isMastered;
-        });
+const MATCHING_PAIR_OPTIONS = [6, 8];
+const MIN_MATCHING_PAIRS = 3;
 
-        if (forQuickReview) {
-            eligibleWords = eligibleWords.filter(w => {
-                const stat = getWordStat(w.id);
-                return stat.lastReviewed && stat.lastReviewed.split('T')[0] !== today;
-            });
-        } else {
-             eligibleWords = eligibleWords.filter(w => {
-                const stat = getWordStat(w.id);
-                return !stat.lastReviewed || stat.lastReviewed.split('T')[0] !== today;
-             });
-        }
-        
-        eligibleWords.sort((a, b) => {
-            const statA = getWordStat(a.id);
-            const statB = getWordStat(b.id);
-            if (statB.quizIncorrectCount !== statA.quizIncorrectCount) return statB.quizIncorrectCount - statA.quizIncorrectCount;
-            const dateA = statA.lastReviewed ? new Date(statA.lastReviewed).getTime() : 0;
-            const dateB = statB.lastReviewed ? new Date(statB.lastReviewed).getTime() : 0;
-            if (dateA !== dateB) return dateA - dateB;
-            if (a.isCustom && !b.isCustom) return -1;
-            if (!a.isCustom && b.isCustom) return 1;
-            return 0;
-        });
-        return shuffleArray(eligibleWords).slice(0, count);
-    }, [words, userSettings.grade, getWordStat]);
+// Picks words whose terms and meanings are all distinguishable, so every card has exactly one partner
+const pickMatchingWords = (pool: Word[], pairCount: number): Word[] => {
+    const picked: Word[] = [];
+    for (const word of shuffleArray(pool)) {
+        if (picked.length >= pairCount) break;
+        const isAmbiguous = picked.some(p => p.term.toLowerCase() === word.term.toLowerCase() || sharesSense(p.meaning, word.meaning));
+        if (!isAmbiguous) picked.push(word);
+    }
+    return picked;
+};
 
+const MatchingGameScreen: React.FC<MatchingGameScreenProps> = ({ userSettings, allWords, wordStats, updateWordStat, matchingGameHistory, onMatchingGameComplete, addToast }) => {
+    const [source, setSource] = useState<MatchingGameSource>('currentGrade');
+    const [pairCount, setPairCount] = useState(MATCHING_PAIR_OPTIONS[0]);
+    const [gameWords, setGameWords] = useState<Word[]>([]);
+    const [termOrder, setTermOrder] = useState<Word[]>([]);
+    const [meaningOrder, setMeaningOrder] = useState<Word[]>([]);
+    const [selectedTermId, setSelectedTermId] = useState<WordId | null>(null);
+    const [selectedMeaningId, setSelectedMeaningId] = useState<WordId | null>(null);
+    const [matchedIds, setMatchedIds] = useState<WordId[]>([]);
+    const [wrongPair, setWrongPair] = useState<{ termId: WordId; meaningId: WordId } | null>(null);
+    const [mismatches, setMismatches] = useState(0);
+    const [startedAt, setStartedAt] = useState(0);
+    const [elapsedMs, setElapsedMs] = useState(0);
+    const [result, setResult] = useState<MatchingGameRecord | null>(null);
+
+    const pool = useMemo(() => {
+        return source === 'customWords'
+            ? allWords.filter(w => w.isCustom)
+            : allWords.filter(w => w.gradeLevel === userSettings.grade);
+    }, [allWords, source, userSettings.grade]);
+
+    const isPlaying = gameWords.length > 0 && !result;
 
     useEffect(() => {
-        const dailyWords = selectWords(userSettings.dailyGoal, false);
-        setCurrentWordsSet(dailyWords);
-        setCurrentIndex(0);
-        setShowMeaning(false);
-        setIsDailyGoalFinished(false);
-        setIsQuickReviewActive(false);
-        setIsQuickReviewFinished(false);
-        setAiExample(null);
-        setIsFetchingAiExample(false);
+        if (!isPlaying) return;
+        const timerId = setInterval(() => setElapsedMs(Date.now() - startedAt), 500);
+        return () => clearInterval(timerId);
+    }, [isPlaying, startedAt]);
 
-        if (dailyWords.length > 0 && dailyWords[0]) {
-            speak(dailyWords[0].term);
-        } else {
-            setIsDailyGoalFinished(true); 
+    useEffect(() => {
+        if (!wrongPair) return;
+        const timeoutId = setTimeout(() => setWrongPair(null), 600);
+        return () => clearTimeout(timeoutId);
+    }, [wrongPair]);
+
+    const bestTime = useMemo(() => {
+        const sameSizeGames = matchingGameHistory.filter(record => record.pairCount === (result?.pairCount ?? pairCount));
+        return sameSizeGames.length > 0 ? Math.min(...sameSizeGames.map(record => record.durationMs)) : null;
+    }, [matchingGameHistory, result, pairCount]);
+
+    const startGame = () => {
+        const words = pickMatchingWords(pool, pairCount);
+        if (words.length < MIN_MATCHING_PAIRS) {
+            addToast(`짝 맞추기를 하려면 뜻이 겹치지 않는 단어가 최소 ${MIN_MATCHING_PAIRS}개 필요합니다.`, "warning");
+            return;
         }
-    }, [words, userSettings.grade, userSettings.dailyGoal, selectWords]);
-
-    const currentWord = currentWordsSet[currentIndex];
-
-    const resetWordSpecificStates = () => {
-        setShowMeaning(false);
-        setAiExample(null);
-        setIsFetchingAiExample(false);
+        if (words.length < pairCount) {
+            addToast(`단어가 부족해 ${words.length}쌍으로 시작합니다.`, "info");
+        }
+        setGameWords(words);
+        setTermOrder(shuffleArray(words));
+        setMeaningOrder(shuffleArray(words));
+        setSelectedTermId(null);
+        setSelectedMeaningId(null);
+        setMatchedIds([]);
+        setWrongPair(null);
+        setMismatches(0);
+        setStartedAt(Date.now());
+        setElapsedMs(0);
+        setResult(null);
     };
 
-    const handleNextWord = () => {
-        if (!currentWord) return;
-        onWordLearned(currentWord.id, isQuickReviewActive);
-        resetWordSpecificStates();
-
-        const nextIndex = currentIndex + 1;
-        if (nextIndex < currentWordsSet.length) {
-            setCurrentIndex(nextIndex);
-            if (currentWordsSet[nextIndex]) {
-                 speak(currentWordsSet[nextIndex].term); 
+    const tryMatch = (termId: WordId, meaningId: WordId) => {
+        setSelectedTermId(null);
+        setSelectedMeaningId(null);
+        if (termId === meaningId) {
+            const nextMatchedIds = [...matchedIds, termId];
+            setMatchedIds(nextMatchedIds);
+            if (nextMatchedIds.length === gameWords.length) {
+                const record: MatchingGameRecord = {
+                    date: new Date().toISOString(),
+                    source,
+                    pairCount: gameWords.length,
+                    mismatches,
+                    durationMs: Date.now() - startedAt,
+                };
+                setResult(record);
+                onMatchingGameComplete(record);
             }
-        } else {
-            if (isQuickReviewActive) setIsQuickReviewFinished(true);
-            else setIsDailyGoalFinished(true);
+            return;
         }
+        setWrongPair({ termId, meaningId });
+        setMismatches(mismatches + 1);
+        const stat = wordStats[termId] || getDefaultWordStat(termId);
+        updateWordStat(termId, {
+            matchingMismatchCount: stat.matchingMismatchCount + 1,
+            confusedWordIds: [meaningId, ...stat.confusedWordIds.filter(id => id !== meaningId)].slice(0, MAX_CONFUSED_WORDS),
+        });
     };
-    
-    const startQuickReview = () => {
-        const reviewWords = selectWords(3, true); 
-        if (reviewWords.length > 0 && reviewWords[0]) {
-            setCurrentWordsSet(reviewWords);
-            setCurrentIndex(0);
-            resetWordSpecificStates();
-            setIsQuickReviewActive(true);
-            setIsQuickReviewFinished(false);
-            speak(reviewWords[0].term);
+
+    const handleSelectTerm = (word: Word) => {
+        if (matchedIds.includes(word.id) || wrongPair) return;
+        speak(word.term);
+        if (selectedMeaningId !== null) {
+            tryMatch(word.id, selectedMeaningId);
         } else {
-            addToast("복습할 이전 학습 단어가 더 이상 없습니다.", "info");
-            setIsQuickReviewFinished(true); 
+            setSelectedTermId(selectedTermId === word.id ? null : word.id);
         }
     };
 
-    const handleGenerateAiExample = async () => {
-        if (!currentWord || !process.env.API_KEY) {
-            if(!process.env.API_KEY) addToast("AI 예문 생성을 위해 API 키를 설정해주세요.", "warning");
-            return;
+    const handleSelectMeaning = (word: Word) => {
+        if (matchedIds.includes(word.id) || wrongPair) return;
+        if (selectedTermId !== null) {
+            tryMatch(selectedTermId, word.id);
+        } else {
+            setSelectedMeaningId(selectedMeaningId === word.id ? null : word.id);
         }
-        setIsFetchingAiExample(true);
-        setAiExample(null);
-        const example = await generateDifferentExampleSentenceWithGemini(currentWord, userSettings.grade, addToast, setGlobalLoading);
-        setAiExample(example);
-        setIsFetchingAiExample(false);
     };
 
-    if (currentWordsSet.length === 0 && !isDailyGoalFinished) { 
-         return <div className="p-8 text-center text-xl">오늘 학습할 단어를 준비 중입니다...</div>;
-    }
-    
-    if (isDailyGoalFinished && !isQuickReviewActive && !isQuickReviewFinished) {
-        const potentialReviewWords = words.filter(w => {
-            const stat = getWordStat(w.id);
-            return w.gradeLevel === userSettings.grade && !stat.isMastered && stat.lastReviewed && stat.lastReviewed.split('T')[0] !== getTodayDateString();
-        }).length;
+    const getCardClass = (wordId: WordId, isSelected: boolean, isWrong: boolean) => {
+        if (matchedIds.includes(wordId)) return 'bg-green-600 text-white opacity-60 cursor-default';
+        if (isWrong) return 'bg-red-500 text-white animate-pulse';
+        if (isSelected) return 'bg-cyan-500 text-white ring-2 ring-cyan-300';
+        return 'bg-slate-600 hover:bg-slate-500 text-white';
+    };
 
+    if (result) {
+        const isBestTime = bestTime !== null && result.durationMs <= bestTime;
         return (
             <div className="p-8 text-center">
-                <h2 className="text-3xl font-bold text-cyan-400 mb-6">오늘의 학습 목표 완료! 🎉</h2>
-                <p className="text-lg text-slate-300 mb-8">수고하셨습니다, {userSettings.username}님!</p>
-                {potentialReviewWords > 0 ? (
-                    <button
-                        onClick={startQuickReview}
-                        className="py-3 px-6 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-lg shadow-md mb-4"
-                    >
-                        💡 빠른 복습 시작하기 ({Math.min(3, potentialReviewWords)} 단어)
+                <h2 className="text-3xl font-bold text-cyan-400 mb-4">짝 맞추기 완료! 🧩</h2>
+                <p className="text-4xl font-bold text-white mb-2">{formatDuration(result.durationMs)}</p>
+                {isBestTime && <p className="text-yellow-400 font-semibold mb-2 animate-fadeIn">🎉 {result.pairCount}쌍 최고 기록!</p>}
+                <p className="text-slate-300 mb-1">{result.pairCount}쌍 · 틀린 짝 {result.mismatches}번</p>
+                {bestTime !== null && !isBestTime && <p className="text-sm text-slate-400 mb-6">최고 기록: {formatDuration(bestTime)}</p>}
+                <div className="space-x-4 mt-6">
+                    <button onClick={startGame} className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md">
+                        한 번 더
                     </button>
-                ) : (
-                    <p className="text-slate-400 mb-4">복습할 이전 학습 단어가 없습니다.</p>
-                )}
-                <button
-                    onClick={() => onNavigate('dashboard')}
-                    className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
-                >
-                    대시보드로 돌아가기
-                </button>
+                    <button onClick={() => { setResult(null); setGameWords([]); }} className="py-3 px-6 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md">
+                        설정 바꾸기
+                    </button>
+                </div>
             </div>
         );
     }
-    
-    if (isQuickReviewFinished) {
+
+    if (!isPlaying) {
         return (
-             <div className="p-8 text-center">
-                <h2 className="text-3xl font-bold text-cyan-400 mb-6">빠른 복습 완료! 👍</h2>
-                <p className="text-lg text-slate-300 mb-8">모든 학습 활동을 마쳤습니다!</p>
-                <button
-                    onClick={() => onNavigate('dashboard')}
-                    className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
-                >
-                    대시보드로 돌아가기
-                </button>
+            <div className="p-4 sm:p-6 flex flex-col items-center">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-2">🧩 짝 맞추기</h1>
+                <p className="text-sm text-slate-400 mb-6">영어 단어와 알맞은 뜻을 짝지어 보세요. 빨리, 적게 틀릴수록 좋아요!</p>
+                <div className="w-full max-w-md bg-slate-700 rounded-xl shadow-2xl p-6 space-y-5">
+                    <div>
+                        <label htmlFor="matching-source" className="block text-sm font-medium text-slate-300 mb-1">단어 범위</label>
+                        <select
+                            id="matching-source"
+                            value={source}
+                            onChange={(e) => setSource(e.target.value as MatchingGameSource)}
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            <option value="currentGrade">현재 학년 ({GRADE_LABELS[userSettings.grade] || userSettings.grade})</option>
+                            <option value="customWords">나의 단어</option>
+                        </select>
+                    </div>
+                    <div>
+                        <span className="block text-sm font-medium text-slate-300 mb-1">짝 개수</span>
+                        <div className="grid grid-cols-2 gap-2">
+                            {MATCHING_PAIR_OPTIONS.map(count => (
+                                <button
+                                    key={count}
+                                    onClick={() => setPairCount(count)}
+                                    aria-pressed={pairCount === count}
+                                    className={`py-2 rounded-md font-medium transition-colors ${pairCount === count ? 'bg-cyan-500 text-white' : 'bg-slate-600 text-slate-300 hover:bg-slate-500'}`}
+                                >
+                                    {count}쌍
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-sm text-slate-400">
+                        사용할 수 있는 단어: {pool.length}개
+                        {bestTime !== null && ` · ${pairCount}쌍 최고 기록 ${formatDuration(bestTime)}`}
+                    </p>
+                    <button
+                        onClick={startGame}
+                        disabled={pool.length < MIN_MATCHING_PAIRS}
+                        className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-bold rounded-md shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        시작하기
+                    </button>
+                </div>
             </div>
         );
     }
 
-    if (!currentWord) { 
-        return (
-            <div className="p-8 text-center">
-                <h2 className="text-2xl font-bold text-slate-300 mb-4">학습할 단어를 불러오는 중...</h2>
-                <button
-                    onClick={() => onNavigate('dashboard')}
-                    className="mt-4 py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md"
-                >
-                    대시보드로 돌아가기
-                </button>
+    return (
+        <div className="p-4 sm:p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h1 className="text-2xl font-bold text-cyan-400">🧩 짝 맞추기</h1>
+                <div className="text-right text-sm">
+                    <p className="text-white font-semibold">⏱ {formatDuration(elapsedMs)}</p>
+                    <p className="text-slate-400">{matchedIds.length} / {gameWords.length}쌍 · 틀림 {mismatches}</p>
+                </div>
             </div>
-        );
-    }
+            <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                <div className="space-y-2 sm:space-y-3">
+                    {termOrder.map(word => (
+                        <button
+                            key={word.id}
+                            onClick={() => handleSelectTerm(word)}
+                            disabled={matchedIds.includes(word.id)}
+                            className={`w-full p-3 sm:p-4 rounded-lg shadow-md text-lg font-semibold transition-all ${getCardClass(word.id, selectedTermId === word.id, wrongPair?.termId === word.id)}`}
+                            aria-pressed={selectedTermId === word.id}
+                        >
+                            {word.term}
+                        </button>
+                    ))}
+                </div>
+                <div className="space-y-2 sm:space-y-3">
+                    {meaningOrder.map(word => (
+                        <button
+                            key={word.id}
+                            onClick={() => handleSelectMeaning(word)}
+                            disabled={matchedIds.includes(word.id)}
+                            className={`w-full p-3 sm:p-4 rounded-lg shadow-md transition-all ${getCardClass(word.id, selectedMeaningId === word.id, wrongPair?.meaningId === word.id)}`}
+                            aria-pressed={selectedMeaningId === word.id}
+                        >
+                            {word.meaning}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <button onClick={() => setGameWords([])} className="mt-8 text-sm text-cyan-400 hover:text-cyan-300">
+                그만하고 설정으로
+            </button>
+        </div>
+    );
+};
+
+// Print Test Screen Component
+interface PrintTestScreenProps extends ScreenProps {
+    allWords: Word[];
+    wordStats: Record<WordId, WordStat>;
+}
+
+const PRINT_TEST_LENGTH_OPTIONS = [10, 20, 30, 50];
+
+const PrintTestScreen: React.FC<PrintTestScreenProps> = ({ userSettings, allWords, wordStats, addToast, setGlobalLoading }) => {
+    const [title, setTitle] = useState('영단어 테스트');
+    const [wordSet, setWordSet] = useState<QuizConfig>(() => ({ ...getDefaultQuizConfig(userSettings.grade), questionCount: 20 }));
+    const [questionTypes, setQuestionTypes] = useState<PrintQuestionType[]>(['choice', 'spelling', 'cloze']);
+    const [test, setTest] = useState<PrintableTest | null>(null);
+
+    const pool = useMemo(
+        () => getQuizQuestionPool(allWords, wordStats, { ...wordSet, mode: questionTypes.length === 1 && questionTypes[0] === 'cloze' ? 'cloze' : 'meaning' }, userSettings.grade),
+        [allWords, wordStats, wordSet, questionTypes, userSettings.grade]
+    );
+
+    const handleToggleQuestionType = (type: PrintQuestionType) => {
+        setQuestionTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+    };
+
+    const handleToggleGrade = (grade: string) => {
+        setWordSet(prev => ({ ...prev, grades: prev.grades.includes(grade) ? prev.grades.filter(g => g !== grade) : [...prev.grades, grade] }));
+    };
+
+    const handleCreateTest = () => {
+        if (questionTypes.length === 0) {
+            addToast("문제 유형을 하나 이상 선택하세요.", "warning");
+            return;
+        }
+        if (questionTypes.includes('choice') && allWords.length < MIN_CHOICE_QUIZ_WORDS) {
+            addToast(`객관식 보기를 만들 단어가 부족합니다. (최소 ${MIN_CHOICE_QUIZ_WORDS}개 필요)`, "warning");
+            return;
+        }
+        const count = wordSet.questionCount > 0 ? wordSet.questionCount : pool.length;
+        const selectedWords = shuffleArray(pool).slice(0, count);
+        const sourceLabel = wordSet.source === 'grades'
+            ? wordSet.grades.map(g => GRADE_LABELS[g] || g).join(', ')
+            : wordSet.source === 'currentGrade' ? (GRADE_LABELS[userSettings.grade] || userSettings.grade) : QUIZ_SOURCE_LABELS[wordSet.source];
+        const newTest = buildPrintableTest(selectedWords, allWords, questionTypes, title.trim() || '영단어 테스트', `${sourceLabel} · ${getTodayDateString()}`);
+        if (newTest.questions.length === 0) {
+            addToast("선택한 범위로 만들 수 있는 문제가 없습니다.", "warning");
+            return;
+        }
+        setTest(newTest);
+    };
+
+    const handleOpen = (includeQuestions: boolean, includeAnswerKey: boolean) => {
+        if (!test) return;
+        if (!openPrintWindow(buildTestSheetHtml(test, { includeQuestions, includeAnswerKey }))) {
+            addToast("팝업이 차단되어 인쇄 창을 열 수 없습니다. 브라우저에서 팝업을 허용해주세요.", "error");
+        }
+    };
+
+    const handleDownloadHtml = () => {
+        if (!test) return;
+        downloadTextFile(buildTestSheetHtml(test, { includeQuestions: true, includeAnswerKey: true }), `${test.title}_${getTodayDateString()}.html`, 'text/html;charset=utf-8');
+    };
+
+    const handleDownloadPdf = async () => {
+        if (!test) return;
+        setGlobalLoading(true);
+        try {
+            const pdf = await buildPdfFromPages(drawTestSheetPdfPages(test, { includeQuestions: true, includeAnswerKey: true }), test.title);
+            downloadBlob(pdf, `${test.title}_${getTodayDateString()}.pdf`);
+        } catch (e) {
+            console.error("Failed to create the test PDF:", e);
+            addToast("PDF 파일을 만들지 못했습니다.", "error");
+        } finally {
+            setGlobalLoading(false);
+        }
+    };
 
     return (
-        <div className="p-4 sm:p-8 flex flex-col items-center">
-            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-6 sm:mb-8">
-                {isQuickReviewActive ? "빠른 복습" : "단어 학습"} ({currentIndex + 1} / {currentWordsSet.length})
-            </h1>
-            <div className="w-full max-w-lg bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8 text-center">
-                <div className="mb-2">
-                    <button onClick={() => speak(currentWord.term)} className="text-slate-400 hover:text-cyan-400 text-2xl" aria-label="단어 발음 듣기">
-                        🔊
+        <div className="p-4 sm:p-6">
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-2">🖨️ 시험지 만들기</h1>
+            <p className="text-sm text-slate-400 mb-6">단어 범위와 문제 유형을 고르면 인쇄용 시험지와 정답지를 만들어 드려요. 바로 인쇄하거나 PDF 파일로 받을 수 있습니다.</p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-slate-700 p-5 rounded-lg shadow space-y-5">
+                    <div>
+                        <label htmlFor="print-test-title" className="block text-sm font-medium text-slate-300 mb-1">시험지 제목</label>
+                        <input
+                            id="print-test-title"
+                            type="text"
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="print-test-source" className="block text-sm font-medium text-slate-300 mb-1">단어 범위</label>
+                        <select
+                            id="print-test-source"
+                            value={wordSet.source}
+                            onChange={(e) => setWordSet(prev => ({ ...prev, source: e.target.value as QuizSource }))}
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            {(Object.keys(QUIZ_SOURCE_LABELS) as QuizSource[]).map(source => (
+                                <option key={source} value={source}>{QUIZ_SOURCE_LABELS[source]}</option>
+                            ))}
+                        </select>
+                        {wordSet.source === 'grades' && (
+                            <div className="flex space-x-4 mt-2">
+                                {Object.entries(GRADE_LABELS).map(([grade, label]) => (
+                                    <label key={grade} className="flex items-center text-slate-300 cursor-pointer">
+                                        <input type="checkbox" checked={wordSet.grades.includes(grade)} onChange={() => handleToggleGrade(grade)} className="mr-1.5 accent-cyan-500" />
+                                        {label}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <fieldset>
+                        <legend className="text-sm font-medium text-slate-300 mb-1">문제 유형</legend>
+                        <div className="flex flex-wrap gap-4">
+                            {(Object.keys(PRINT_QUESTION_TYPE_LABELS) as PrintQuestionType[]).map(type => (
+                                <label key={type} className="flex items-center text-slate-300 cursor-pointer">
+                                    <input type="checkbox" checked={questionTypes.includes(type)} onChange={() => handleToggleQuestionType(type)} className="mr-1.5 accent-cyan-500" />
+                                    {PRINT_QUESTION_TYPE_LABELS[type]}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                    <div>
+                        <label htmlFor="print-test-length" className="block text-sm font-medium text-slate-300 mb-1">문항 수</label>
+                        <select
+                            id="print-test-length"
+                            value={wordSet.questionCount}
+                            onChange={(e) => setWordSet(prev => ({ ...prev, questionCount: Number(e.target.value) }))}
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            {PRINT_TEST_LENGTH_OPTIONS.map(count => (
+                                <option key={count} value={count}>{count}문항</option>
+                            ))}
+                            <option value={0}>전체 ({pool.length}문항)</option>
+                        </select>
+                    </div>
+                    <p className="text-sm text-slate-400">사용할 수 있는 단어: <span className="text-white font-semibold">{pool.length}개</span></p>
+                    <button
+                        onClick={handleCreateTest}
+                        disabled={pool.length === 0}
+                        className="w-full py-3 bg-cyan-500 hover:bg-cyan-600 text-white font-bold rounded-md shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {test ? '🔀 새로 만들기' : '시험지 만들기'}
                     </button>
                 </div>
-                <h2 className="text-4xl sm:text-5xl font-bold text-white mb-3">{currentWord.term}</h2>
-                {currentWord.pronunciation && <p className="text-slate-400 text-lg mb-2">[{currentWord.pronunciation}]</p>}
-                
-                <button
-                    onClick={() => setShowMeaning(!showMeaning)}
-                    className="w-full py-3 px-4 mb-4 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-md shadow transition-colors"
-                    aria-expanded={showMeaning}
-                >
-                    {showMeaning ? '뜻 숨기기' : '뜻 보기'}
-                </button>
 
-                {showMeaning && (
-                    <div className="bg-slate-600 p-4 sm:p-6 rounded-lg mb-4 text-left animate-fadeIn">
-                        <p className="text-xl text-cyan-300 font-semibold mb-1">{currentWord.partOfSpeech}: {currentWord.meaning}</p>
-                        <hr className="border-slate-500 my-3"/>
-                        <p className="text-slate-200 mb-1"><span className="font-semibold">예문:</span> {currentWord.exampleSentence}</p>
-                        {currentWord.exampleSentenceMeaning && <p className="text-sm text-slate-400"><span className="font-semibold">해석:</span> {currentWord.exampleSentenceMeaning}</p>}
-                    
-                        <div className="mt-4">
-                            <button
-                                onClick={handleGenerateAiExample}
-                                disabled={isFetchingAiExample || !process.env.API_KEY || isCurrentlyGeminiQuotaExhausted}
-                                className="w-full py-2 px-3 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-md shadow-sm disabled:opacity-50 flex items-center justify-center text-sm"
-                            >
-                                <span role="img" aria-label="ai" className="mr-2">✨</span>
-                                {isFetchingAiExample ? 'AI 예문 생성 중...' : 'AI: 다른 예문'}
-                                {(!process.env.API_KEY || isCurrentlyGeminiQuotaExhausted) && <span className="text-xs ml-1">({!process.env.API_KEY ? "Key 필요" : "Quota 소진"})</span>}
-                            </button>
-                        </div>
-                        {aiExample && (
-                            <div className="mt-3 pt-3 border-t border-slate-500 animate-fadeIn">
-                                <p className="text-teal-300 font-semibold mb-1">✨ AI 추가 예문:</p>
-                                <button onClick={() => speak(aiExample.newExampleSentence)} className="text-slate-400 hover:text-cyan-400 text-lg mr-1" aria-label="AI 예문 발음 듣기">🔊</button>
-                                <span className="text-slate-200">{aiExample.newExampleSentence}</span>
-                                <p className="text-sm text-slate-400 mt-0.5"><span className="font-semibold">해석:</span> {aiExample.newExampleSentenceMeaning}</p>
+                <div className="bg-slate-700 p-5 rounded-lg shadow">
+                    {test ? (
+                        <>
+                            <h2 className="text-xl font-semibold text-cyan-300">{test.title}</h2>
+                            <p className="text-sm text-slate-400 mb-4">{test.subtitle} · {test.questions.length}문항</p>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+                                <button onClick={() => handleOpen(true, false)} className="py-2 px-3 bg-teal-500 hover:bg-teal-600 text-white rounded-md text-sm font-semibold">📄 시험지 인쇄</button>
+                                <button onClick={() => handleOpen(false, true)} className="py-2 px-3 bg-teal-600 hover:bg-teal-700 text-white rounded-md text-sm font-semibold">🔑 정답지 인쇄</button>
+                                <button onClick={handleDownloadPdf} className="py-2 px-3 bg-cyan-600 hover:bg-cyan-700 text-white rounded-md text-sm font-semibold">⬇️ PDF 다운로드 (시험지+정답지)</button>
+                                <button onClick={handleDownloadHtml} className="py-2 px-3 bg-slate-600 hover:bg-slate-500 text-white rounded-md text-sm font-semibold">⬇️ HTML 다운로드</button>
                             </div>
-                        )}
-                    </div>
-                )}
-                
-                <button
-                    onClick={handleNextWord}
-                    className="w-full py-3 px-4 bg-green-500 hover:bg-green-600 text-white font-bold rounded-md shadow-lg transition-transform transform hover:scale-105"
-                >
-                    {currentIndex === currentWordsSet.length - 1 ? (isQuickReviewActive ? '복습 완료' : '학습 완료') : '다음 단어'}
-                </button>
+                            <ol className="space-y-1 text-sm max-h-96 overflow-y-auto list-decimal list-inside">
+                                {test.questions.map((q, index) => (
+                                    <li key={index} className="text-slate-300">
+                                        <span className="text-xs text-slate-400 mr-1">[{PRINT_QUESTION_TYPE_LABELS[q.type]}]</span>
+                                        {q.prompt}
+                                        <span className="text-green-400 ml-2">→ {q.answer}</span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </>
+                    ) : (
+                        <p className="text-slate-400">왼쪽에서 설정을 고르고 "시험지 만들기"를 누르면 미리보기가 여기에 표시됩니다.</p>
+                    )}
+                </div>
             </div>
-            <button 
-                onClick={() => onNavigate('dashboard')} 
-                className="mt-8 text-sm text-cyan-400 hover:text-cyan-300"
-            >
-                {isQuickReviewActive ? "복습" : "학습"} 중단하고 대시보드로
-            </button>
         </div>
     );
 };
@@ -1731,12 +5044,18 @@ const LearnWordsScreen: React.FC<LearnWordsScreenProps> = ({ userSettings, onNav
 // Quiz Screen Component
 interface QuizScreenProps extends ScreenProps {
     words: Word[];
-    wordStats: Record<string | number, WordStat>;
-    onQuizComplete: (score: number, totalQuestions: number, incorrectWords: Word[]) => void; 
-    updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    wordStats: Record<WordId, WordStat>;
+    onQuizComplete: (score: number, totalQuestions: number, incorrectWords: Word[], mode: QuizMode, details: QuizAttemptDetails) => void; 
+    updateWordStat: (wordId: WordId, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    onWordReviewed: (wordId: WordId, quality: RecallQuality) => void;
+    resumeSession?: QuizSessionSnapshot | null; // Set when resuming from the dashboard
+    presetConfig?: QuizConfig; // Starts this quiz right away instead of showing the setup
+    onSessionChange: (session: QuizSessionSnapshot | null) => void;
+    speedChallengeBests: Record<string, SpeedChallengeRecord[]>;
+    onSpeedChallengeComplete: (grade: string, record: SpeedChallengeRecord) => void;
 }
 
-const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words, wordStats, onQuizComplete, updateWordStat, addToast, setGlobalLoading }) => {
+const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words, wordStats, onQuizComplete, updateWordStat, onWordReviewed, resumeSession, presetConfig, onSessionChange, speedChallengeBests, onSpeedChallengeComplete, addToast, setGlobalLoading }) => {
     const [quizWords, setQuizWords] = useState<Word[]>([]);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
     const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
@@ -1745,6 +5064,39 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
     const [options, setOptions] = useState<string[]>([]);
     const [isFinished, setIsFinished] = useState(false);
     const [incorrectlyAnsweredWordsDetails, setIncorrectlyAnsweredWordsDetails] = useState<Word[]>([]);
+    const [quizMode, setQuizMode] = useState<QuizMode>(resumeSession?.mode || 'meaning');
+    const [isAnswerCorrect, setIsAnswerCorrect] = useState(false);
+    const [answerLog, setAnswerLog] = useState<QuizAnswerRecord[]>([]);
+    const [quizStartedAt, setQuizStartedAt] = useState(() => new Date().toISOString());
+    const questionStartedAtRef = useRef(Date.now());
+    const [quizConfig, setQuizConfig] = useState<QuizConfig>(() => resumeSession?.config || presetConfig || getDefaultQuizConfig(userSettings.grade));
+    const [isConfiguring, setIsConfiguring] = useState(!resumeSession && !presetConfig);
+    const [sessionRebuildCount, setSessionRebuildCount] = useState(0);
+
+    // Speed challenge
+    const isTimedQuiz = !!quizConfig.timeLimitSeconds;
+    const [timeLeftMs, setTimeLeftMs] = useState(0);
+    const [comboCount, setComboCount] = useState(0);
+    const [maxCombo, setMaxCombo] = useState(0);
+    const [challengePoints, setChallengePoints] = useState(0);
+    const [lastSpeedFeedback, setLastSpeedFeedback] = useState<{ isCorrect: boolean; text: string } | null>(null);
+    const [isNewSpeedBest, setIsNewSpeedBest] = useState(false);
+    const speedChallengeEndsAtRef = useRef(0);
+    const gradeSpeedBests = speedChallengeBests[userSettings.grade] || [];
+
+    // Spelling mode
+    const [typedAnswer, setTypedAnswer] = useState('');
+    const [hintCount, setHintCount] = useState(0);
+    const [almostCorrectFeedback, setAlmostCorrectFeedback] = useState<string | null>(null);
+    const [isSpellingAudioEnabled, setIsSpellingAudioEnabled] = useState(false);
+    const answerInputRef = useRef<HTMLInputElement>(null);
+
+    // Dictation mode
+    const [dictationTarget, setDictationTarget] = useState<DictationTarget>(resumeSession?.dictationTarget || 'sentence');
+    const [usedSlowReplay, setUsedSlowReplay] = useState(false);
+
+    // Cloze mode
+    const [clozeAnswerStyle, setClozeAnswerStyle] = useState<ClozeAnswerStyle>(resumeSession?.clozeAnswerStyle || 'choice');
     
     const [showReviewModal, setShowReviewModal] = useState(false);
     const [reviewWord, setReviewWord] = useState<Word | null>(null);
@@ -1753,46 +5105,207 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
     const reviewModalCloseButtonRef = useRef<HTMLButtonElement>(null);
 
 
-    const getWordStat = useCallback((wordId: string | number) => {
+    const getWordStat = useCallback((wordId: WordId) => {
         return wordStats[wordId] || getDefaultWordStat(wordId);
     }, [wordStats]);
 
+    const getDistractorWords = useCallback((correctWord: Word) => {
+        // Distractors come from the word's own grade, or from every word when that grade is too small
+        const sameGradeWords = words.filter(w => w.gradeLevel === correctWord.gradeLevel);
+        const candidates = sameGradeWords.length >= MIN_CHOICE_QUIZ_WORDS ? sameGradeWords : words;
+        return pickDistractors(correctWord, candidates, getWordStat(correctWord.id).confusedWordIds);
+    }, [words, getWordStat]);
+
     const generateOptions = useCallback((correctWord: Word) => {
-        const gradeWords = words.filter(w => w.gradeLevel === userSettings.grade);
-        let incorrectMeaningPool = shuffleArray(
-            gradeWords
-                .filter(w => w.id !== correctWord.id) 
-                .map(w => w.meaning)
-                .filter(meaning => meaning !== correctWord.meaning) 
-        );
-        const uniqueIncorrectOptions = Array.from(new Set(incorrectMeaningPool)).slice(0, 3);
-        const finalGeneratedOptions = shuffleArray([correctWord.meaning, ...uniqueIncorrectOptions]);
-        setOptions(finalGeneratedOptions);
-    }, [words, userSettings.grade]);
+        const distractors = getDistractorWords(correctWord).map(w => w.meaning);
+        setOptions(shuffleArray([correctWord.meaning, ...distractors]));
+    }, [getDistractorWords]);
 
+    const generateTermOptions = useCallback((correctWord: Word) => {
+        const distractors = getDistractorWords(correctWord).map(w => w.term);
+        setOptions(shuffleArray([correctWord.term, ...distractors]));
+    }, [getDistractorWords]);
 
-    useEffect(() => {
-        const gradeFilteredWords = words.filter(w => w.gradeLevel === userSettings.grade);
-        if (gradeFilteredWords.length < 4) { 
-            setQuizWords([]);
-            setIsFinished(true);
-            if (gradeFilteredWords.length > 0) addToast(`현재 학년에 퀴즈를 위한 단어가 부족합니다. (최소 4개 필요)`, "warning");
-            return;
+    const prepareQuestion = useCallback((word: Word, mode: QuizMode) => {
+        setSelectedAnswer(null);
+        setShowResult(false);
+        setIsAnswerCorrect(false);
+        setTypedAnswer('');
+        setHintCount(0);
+        setAlmostCorrectFeedback(null);
+        setUsedSlowReplay(false);
+        questionStartedAtRef.current = Date.now();
+        if (mode === 'meaning') {
+            generateOptions(word);
+            speak(word.term);
+        } else if (mode === 'cloze' && clozeAnswerStyle === 'choice') {
+            generateTermOptions(word);
+        } else {
+            setOptions([]);
+            if (mode === 'dictation') speak(getDictationText(word, dictationTarget));
+            else if (isSpellingAudioEnabled) speak(word.term);
+            setTimeout(() => answerInputRef.current?.focus(), 0);
+        }
+    }, [generateOptions, generateTermOptions, isSpellingAudioEnabled, dictationTarget, clozeAnswerStyle]);
+
+    const usesChoiceOptions = (mode: QuizMode) => mode === 'meaning' || (mode === 'cloze' && clozeAnswerStyle === 'choice');
+
+    const setupPool = useMemo(
+        () => getQuizQuestionPool(words, wordStats, quizConfig, userSettings.grade),
+        [words, wordStats, quizConfig, userSettings.grade]
+    );
+    const setupProblem = getQuizPoolProblem(setupPool, words, quizConfig, usesChoiceOptions(quizConfig.mode));
+
+    // Returns false (with a warning toast) when the configured pool cannot make a quiz
+    const startQuiz = useCallback((config: QuizConfig): boolean => {
+        const questionPool = getQuizQuestionPool(words, wordStats, config, userSettings.grade);
+        const problem = getQuizPoolProblem(questionPool, words, config, config.mode === 'meaning' || (config.mode === 'cloze' && clozeAnswerStyle === 'choice'));
+        if (problem) {
+            addToast(problem, "warning");
+            return false;
         }
-        const actualNumQuizQuestions = Math.min(10, gradeFilteredWords.length);
-        const selectedQuizWords = shuffleArray(gradeFilteredWords).slice(0, actualNumQuizQuestions);
+        // A speed challenge cycles through the whole pool until time runs out
+        const actualNumQuizQuestions = config.questionCount > 0 && !config.timeLimitSeconds ? Math.min(config.questionCount, questionPool.length) : questionPool.length;
+        const selectedQuizWords = shuffleArray(questionPool).slice(0, actualNumQuizQuestions);
+        setQuizConfig(config);
+        setQuizMode(config.mode);
+        setIsConfiguring(false);
         setQuizWords(selectedQuizWords);
         setCurrentQuestionIndex(0);
         setScore(0);
-        setSelectedAnswer(null);
-        setShowResult(false);
         setIsFinished(false);
         setIncorrectlyAnsweredWordsDetails([]);
+        setAnswerLog([]);
+        setQuizStartedAt(new Date().toISOString());
+        setComboCount(0);
+        setMaxCombo(0);
+        setChallengePoints(0);
+        setLastSpeedFeedback(null);
+        setIsNewSpeedBest(false);
+        if (config.timeLimitSeconds) {
+            speedChallengeEndsAtRef.current = Date.now() + config.timeLimitSeconds * 1000;
+            setTimeLeftMs(config.timeLimitSeconds * 1000);
+        }
         if (selectedQuizWords.length > 0 && selectedQuizWords[0]) { 
-            generateOptions(selectedQuizWords[0]);
-            speak(selectedQuizWords[0].term);
+            prepareQuestion(selectedQuizWords[0], config.mode);
+        }
+        return true;
+    }, [words, wordStats, userSettings.grade, clozeAnswerStyle, addToast, prepareQuestion]);
+
+
+    useEffect(() => {
+        const resumedWords = resumeSession ? resolveWordsByIds(resumeSession.wordIds, words) : [];
+        if (resumeSession && resumedWords.length === resumeSession.wordIds.length && resumeSession.currentQuestionIndex < resumedWords.length) {
+            setQuizMode(resumeSession.mode);
+            setQuizWords(resumedWords);
+            setCurrentQuestionIndex(resumeSession.currentQuestionIndex);
+            setScore(resumeSession.score);
+            setOptions(resumeSession.options);
+            setSelectedAnswer(resumeSession.selectedAnswer);
+            setShowResult(resumeSession.showResult);
+            setIsAnswerCorrect(resumeSession.isAnswerCorrect);
+            if (resumeSession.clozeAnswerStyle) setClozeAnswerStyle(resumeSession.clozeAnswerStyle);
+            setTypedAnswer(resumeSession.mode !== 'meaning' ? resumeSession.selectedAnswer || '' : '');
+            setHintCount(resumeSession.hintCount);
+            setAlmostCorrectFeedback(null);
+            setIsFinished(false);
+            setIncorrectlyAnsweredWordsDetails(resolveWordsByIds(resumeSession.incorrectWordIds, words));
+            setAnswerLog(resumeSession.answers || []);
+            setQuizStartedAt(resumeSession.startedAt || resumeSession.savedAt);
+            questionStartedAtRef.current = Date.now();
+            const resumedWord = resumedWords[resumeSession.currentQuestionIndex];
+            if (!resumeSession.showResult && resumeSession.mode === 'meaning') speak(resumedWord.term);
+            if (!resumeSession.showResult && resumeSession.mode === 'dictation') speak(getDictationText(resumedWord, resumeSession.dictationTarget || dictationTarget));
+            return;
+        }
+        if (resumeSession) {
+            addToast("이전 퀴즈의 단어 일부를 찾을 수 없어 새 퀴즈를 설정합니다.", "info");
         }
-    }, [words, userSettings.grade, generateOptions, addToast]);
+        if (presetConfig && startQuiz(presetConfig)) return;
+        setIsConfiguring(true);
+        // Only settings changes and disappearing quiz words rebuild the quiz, not every new words array
+    }, [userSettings.grade, addToast, resumeSession, presetConfig, sessionRebuildCount]);
+
+    // A quiz word deleted here or in another tab cannot be asked, so the quiz is set up again
+    useEffect(() => {
+        if (isConfiguring || isFinished) return;
+        const wordIds = new Set(words.map(w => w.id));
+        if (quizWords.some(w => !wordIds.has(w.id))) setSessionRebuildCount(count => count + 1);
+    }, [words]);
+
+    // Keep the saved quiz in sync with progress; a finished quiz is cleared
+    useEffect(() => {
+        if (isFinished) {
+            onSessionChange(null);
+            return;
+        }
+        // Opening the setup keeps the last saved quiz so it can still be resumed; speed challenges are never resumed
+        if (isConfiguring || isTimedQuiz) return;
+        const usesOptions = quizMode === 'meaning' || (quizMode === 'cloze' && clozeAnswerStyle === 'choice');
+        if (quizWords.length === 0 || (usesOptions && options.length === 0)) return;
+        onSessionChange({
+            mode: quizMode,
+            wordIds: quizWords.map(w => w.id),
+            currentQuestionIndex,
+            score,
+            options,
+            selectedAnswer,
+            showResult,
+            isAnswerCorrect,
+            hintCount,
+            dictationTarget,
+            clozeAnswerStyle,
+            answers: answerLog,
+            startedAt: quizStartedAt,
+            config: quizConfig,
+            incorrectWordIds: incorrectlyAnsweredWordsDetails.map(w => w.id),
+            savedAt: new Date().toISOString(),
+        });
+    }, [quizMode, quizWords, currentQuestionIndex, score, options, selectedAnswer, showResult, isAnswerCorrect, hintCount, dictationTarget, clozeAnswerStyle, answerLog, quizStartedAt, quizConfig, incorrectlyAnsweredWordsDetails, isFinished, isConfiguring, isTimedQuiz, onSessionChange]);
+
+    useEffect(() => {
+        if (!isTimedQuiz || isFinished || isConfiguring) return;
+        const timerId = setInterval(() => {
+            setTimeLeftMs(Math.max(0, speedChallengeEndsAtRef.current - Date.now()));
+        }, 200);
+        return () => clearInterval(timerId);
+    }, [isTimedQuiz, isFinished, isConfiguring]);
+
+    const finishSpeedChallenge = () => {
+        setIsFinished(true);
+        if (answerLog.length === 0) return;
+        const record: SpeedChallengeRecord = {
+            date: new Date().toISOString(),
+            points: challengePoints,
+            correct: score,
+            answered: answerLog.length,
+            maxCombo,
+        };
+        setIsNewSpeedBest(gradeSpeedBests.length === 0 || record.points > gradeSpeedBests[0].points);
+        onSpeedChallengeComplete(userSettings.grade, record);
+        onQuizComplete(score, answerLog.length, incorrectlyAnsweredWordsDetails, 'meaning', {
+            startedAt: quizStartedAt,
+            durationMs: answerLog.reduce((sum, answer) => sum + answer.timeMs, 0),
+            answers: answerLog,
+            challengePoints,
+        });
+    };
+
+    // Runs in the render after the countdown reaches zero, so it sees the final score
+    useEffect(() => {
+        if (isTimedQuiz && !isFinished && !isConfiguring && quizWords.length > 0 && timeLeftMs <= 0) {
+            finishSpeedChallenge();
+        }
+    }, [timeLeftMs, isTimedQuiz, isFinished, isConfiguring]);
+
+    const updateQuizConfig = (changes: Partial<QuizConfig>) => setQuizConfig(prev => ({ ...prev, ...changes }));
+
+    const handleToggleConfigGrade = (grade: string) => {
+        setQuizConfig(prev => ({
+            ...prev,
+            grades: prev.grades.includes(grade) ? prev.grades.filter(g => g !== grade) : [...prev.grades, grade],
+        }));
+    };
 
     useEffect(() => {
         if (showReviewModal && reviewModalCloseButtonRef.current) {
@@ -1814,18 +5327,131 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
         }
     };
 
+    if (isConfiguring) {
+        return (
+            <div className="p-4 sm:p-6 flex flex-col items-center">
+                <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-6">퀴즈 설정</h1>
+                <div className="w-full max-w-xl bg-slate-700 rounded-xl shadow-2xl p-6 space-y-6">
+                    <fieldset>
+                        <legend className="text-sm font-medium text-slate-300 mb-2">출제 범위</legend>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {(Object.keys(QUIZ_SOURCE_LABELS) as QuizSource[]).map(source => (
+                                <button
+                                    key={source}
+                                    type="button"
+                                    onClick={() => updateQuizConfig({ source })}
+                                    aria-pressed={quizConfig.source === source}
+                                    className={`px-3 py-2 rounded-md text-sm font-medium text-left transition-colors ${quizConfig.source === source ? 'bg-cyan-500 text-white' : 'bg-slate-600 text-slate-300 hover:bg-slate-500'}`}
+                                >
+                                    {QUIZ_SOURCE_LABELS[source]}
+                                </button>
+                            ))}
+                        </div>
+                        {quizConfig.source === 'grades' && (
+                            <div className="flex space-x-4 mt-3">
+                                {Object.entries(GRADE_LABELS).map(([grade, label]) => (
+                                    <label key={grade} className="flex items-center text-slate-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={quizConfig.grades.includes(grade)}
+                                            onChange={() => handleToggleConfigGrade(grade)}
+                                            className="mr-1.5 accent-cyan-500"
+                                        />
+                                        {label}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </fieldset>
+
+                    <label className="flex items-center p-3 bg-slate-600 rounded-md cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={isTimedQuiz}
+                            onChange={(e) => updateQuizConfig(e.target.checked ? { timeLimitSeconds: SPEED_CHALLENGE_SECONDS, mode: 'meaning' } : { timeLimitSeconds: 0 })}
+                            className="mr-2 accent-cyan-500"
+                        />
+                        <span className="text-white font-medium">⏱ 스피드 챌린지</span>
+                        <span className="text-xs text-slate-400 ml-2">{SPEED_CHALLENGE_SECONDS}초 동안 최대한 많이! 연속 정답 콤보 보너스</span>
+                    </label>
+
+                    <fieldset disabled={isTimedQuiz} className="disabled:opacity-50">
+                        <legend className="text-sm font-medium text-slate-300 mb-2">문제 유형</legend>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(Object.keys(QUIZ_MODE_LABELS) as QuizMode[]).map(mode => (
+                                <button
+                                    key={mode}
+                                    type="button"
+                                    onClick={() => updateQuizConfig({ mode })}
+                                    aria-pressed={quizConfig.mode === mode}
+                                    className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${quizConfig.mode === mode ? 'bg-cyan-500 text-white' : 'bg-slate-600 text-slate-300 hover:bg-slate-500'}`}
+                                >
+                                    {QUIZ_MODE_LABELS[mode]}
+                                </button>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <div className={isTimedQuiz ? 'opacity-50' : ''}>
+                        <label htmlFor="quiz-question-count" className="block text-sm font-medium text-slate-300 mb-2">문제 수</label>
+                        <select
+                            id="quiz-question-count"
+                            value={quizConfig.questionCount}
+                            onChange={(e) => updateQuizConfig({ questionCount: Number(e.target.value) })}
+                            disabled={isTimedQuiz}
+                            className="w-full p-3 bg-slate-600 text-white rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        >
+                            {QUIZ_LENGTH_OPTIONS.map(count => (
+                                <option key={count} value={count}>{count}문제</option>
+                            ))}
+                            <option value={0}>전체 ({setupPool.length}문제)</option>
+                        </select>
+                    </div>
+
+                    <p className="text-sm text-slate-400">
+                        출제 가능한 단어: <span className="text-white font-semibold">{setupPool.length}개</span>
+                        {!isTimedQuiz && quizConfig.questionCount > setupPool.length && setupPool.length > 0 && ` (${setupPool.length}문제만 출제됩니다)`}
+                    </p>
+                    {setupProblem && <p className="text-sm text-yellow-400">{setupProblem}</p>}
+                    {isTimedQuiz && <SpeedChallengeBestsTable grade={userSettings.grade} bests={gradeSpeedBests} />}
+
+                    <button
+                        onClick={() => startQuiz(quizConfig)}
+                        disabled={!!setupProblem}
+                        className="w-full py-3 px-4 bg-cyan-500 hover:bg-cyan-600 text-white font-bold rounded-md shadow-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        퀴즈 시작
+                    </button>
+                </div>
+                <button
+                    onClick={() => onNavigate('dashboard')}
+                    className="mt-8 text-sm text-cyan-400 hover:text-cyan-300"
+                >
+                    대시보드로
+                </button>
+            </div>
+        );
+    }
+
     if (quizWords.length === 0 && !isFinished) { 
-        return <div className="p-8 text-center text-xl">퀴즈를 위한 단어를 준비 중이거나, 현재 학년에 단어가 부족합니다. (최소 4개 필요)</div>;
+        return <div className="p-8 text-center text-xl">퀴즈를 위한 단어를 준비 중입니다...</div>;
     }
     
     if (isFinished) { 
         return (
             <div className="p-8 text-center">
-                <h2 className="text-3xl font-bold text-cyan-400 mb-4">퀴즈 완료! 🏆</h2>
-                {quizWords.length > 0 ? (
-                    <p className="text-xl text-slate-200 mb-6">총 {quizWords.length}문제 중 <span className="text-green-400 font-bold">{score}</span>문제를 맞혔습니다.</p>
+                <h2 className="text-3xl font-bold text-cyan-400 mb-4">{isTimedQuiz ? '⏱ 스피드 챌린지 종료!' : '퀴즈 완료! 🏆'}</h2>
+                {isTimedQuiz ? (
+                    <div className="mb-6">
+                        <p className="text-4xl font-bold text-white mb-1">{challengePoints}점</p>
+                        {isNewSpeedBest && <p className="text-yellow-400 font-semibold mb-1 animate-fadeIn">🎉 새로운 최고 기록!</p>}
+                        <p className="text-slate-300">{answerLog.length}문제 중 <span className="text-green-400 font-bold">{score}</span>문제 정답 · 최대 콤보 {maxCombo}</p>
+                        <div className="max-w-md mx-auto mt-4">
+                            <SpeedChallengeBestsTable grade={userSettings.grade} bests={gradeSpeedBests} />
+                        </div>
+                    </div>
                 ) : (
-                    <p className="text-xl text-slate-200 mb-6">퀴즈를 진행할 단어가 없습니다. '단어 관리'에서 단어를 추가하거나 다른 학년을 선택해보세요. (최소 4개 필요)</p>
+                    <p className="text-xl text-slate-200 mb-6">총 {quizWords.length}문제 중 <span className="text-green-400 font-bold">{score}</span>문제를 맞혔습니다.</p>
                 )}
                 {incorrectlyAnsweredWordsDetails.length > 0 && (
                     <div className="mb-6 bg-slate-700 p-4 rounded-lg">
@@ -1849,31 +5475,18 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                 )}
                 <div className="space-x-4">
                     <button
-                        onClick={() => { 
-                            const gradeFilteredRetryWords = words.filter(w => w.gradeLevel === userSettings.grade);
-                            if (gradeFilteredRetryWords.length < 4) {
-                                addToast("퀴즈를 다시 풀기 위한 단어가 부족합니다. (최소 4개 필요)", "warning");
-                                return;
-                            }
-                            const actualRetryNumQuestions = Math.min(10, gradeFilteredRetryWords.length);
-                            const selectedRetryQuizWords = shuffleArray(gradeFilteredRetryWords).slice(0, actualRetryNumQuestions);
-                            setQuizWords(selectedRetryQuizWords);
-                            setCurrentQuestionIndex(0);
-                            setScore(0);
-                            setSelectedAnswer(null);
-                            setShowResult(false);
-                            setIsFinished(false); 
-                            setIncorrectlyAnsweredWordsDetails([]);
-                            if (selectedRetryQuizWords.length > 0 && selectedRetryQuizWords[0]) {
-                                generateOptions(selectedRetryQuizWords[0]);
-                                speak(selectedRetryQuizWords[0].term); 
-                            }
-                        }}
+                        onClick={() => startQuiz(quizConfig)}
                         className="py-3 px-6 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold rounded-lg shadow-md disabled:opacity-60"
-                        disabled={words.filter(w => w.gradeLevel === userSettings.grade).length < 4}
+                        disabled={!!setupProblem}
                     >
                         다시 풀기
                     </button>
+                    <button
+                        onClick={() => setIsConfiguring(true)}
+                        className="py-3 px-6 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md"
+                    >
+                        설정 바꾸기
+                    </button>
                     <button
                         onClick={() => onNavigate('dashboard')}
                         className="py-3 px-6 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md"
@@ -1921,41 +5534,222 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
         return <div className="p-8 text-center">퀴즈 단어 로딩 중... 또는 더 이상 문제가 없습니다. 대시보드로 돌아가세요.</div>;
     }
 
-    const handleAnswerSelection = (answer: string) => {
-        if (showResult) return;
+    const dictationText = getDictationText(currentWord, dictationTarget);
+    const clozeBlank = quizMode === 'cloze' ? findClozeBlank(currentWord.exampleSentence, currentWord.term) : null;
+
+    const getQuestionPromptAndAnswer = (): { prompt: string; correctAnswer: string } => {
+        switch (quizMode) {
+            case 'spelling':
+                return { prompt: currentWord.meaning, correctAnswer: currentWord.term };
+            case 'dictation':
+                return { prompt: `🔊 ${DICTATION_TARGET_LABELS[dictationTarget]} 받아쓰기`, correctAnswer: dictationText };
+            case 'cloze':
+                return clozeBlank
+                    ? { prompt: `${clozeBlank.before}____${clozeBlank.after}`, correctAnswer: clozeBlank.answer }
+                    : { prompt: currentWord.exampleSentence, correctAnswer: currentWord.term };
+            default:
+                return { prompt: currentWord.term, correctAnswer: currentWord.meaning };
+        }
+    };
+
+    const recordAnswer = (answer: string, isCorrect: boolean, correctQuality: RecallQuality = 4) => {
+        const { prompt, correctAnswer } = getQuestionPromptAndAnswer();
+        // A speed challenge cycles through its pool; only the first answer to a word counts towards its schedule and wrong note
+        const isFirstAnswer = !answerLog.some(entry => entry.wordId === currentWord.id);
         setSelectedAnswer(answer);
         setShowResult(true);
-        if (answer === currentWord.meaning) {
-            setScore(score + 1);
+        setIsAnswerCorrect(isCorrect);
+        setAnswerLog(prev => [...prev, {
+            wordId: currentWord.id,
+            term: currentWord.term,
+            meaning: currentWord.meaning,
+            prompt,
+            correctAnswer,
+            chosenAnswer: answer,
+            ...(options.length > 0 && { options }),
+            isCorrect,
+            timeMs: Date.now() - questionStartedAtRef.current,
+        }]);
+        if (isCorrect) setScore(score + 1);
+        else setIncorrectlyAnsweredWordsDetails(prev => (prev.some(w => w.id === currentWord.id) ? prev : [...prev, currentWord]));
+        if (!isFirstAnswer) return;
+
+        const currentStat = getWordStat(currentWord.id);
+        const wrongNote = applyQuizAnswerToWrongNote(currentStat.wrongNote, isCorrect, {
+            date: new Date().toISOString(),
+            mode: quizMode,
+            prompt,
+            chosenAnswer: answer,
+        });
+        if (isCorrect) {
+            onWordReviewed(currentWord.id, correctQuality);
+            if (currentStat.wrongNote) {
+                updateWordStat(currentWord.id, { wrongNote });
+                if (!wrongNote) addToast(`'${currentWord.term}' 단어를 ${WRONG_NOTE_CLEAR_STREAK}번 연속 맞혀 오답노트에서 뺐어요! 🎉`, "success");
+            }
+        } else {
+            // Remember which word the student mixed this one up with, so it shows up as a distractor again
+            const confusedWord = words.find(w => w.id !== currentWord.id && (quizMode === 'meaning'
+                ? w.meaning === answer
+                : normalizeTypedAnswer(w.term) === normalizeTypedAnswer(answer)));
+            updateWordStat(currentWord.id, {
+                quizIncorrectCount: currentStat.quizIncorrectCount + 1,
+                wrongNote,
+                ...(confusedWord && {
+                    confusedWordIds: [confusedWord.id, ...currentStat.confusedWordIds.filter(id => id !== confusedWord.id)].slice(0, MAX_CONFUSED_WORDS),
+                }),
+            });
+            onWordReviewed(currentWord.id, 1);
+        }
+    };
+
+    // Speed challenge answers move straight on to the next question; the last result stays as a small banner
+    const handleSpeedAnswer = (answer: string) => {
+        const isCorrect = answer === currentWord.meaning;
+        recordAnswer(answer, isCorrect);
+        const nextCombo = isCorrect ? comboCount + 1 : 0;
+        const multiplier = getComboMultiplier(nextCombo);
+        const earnedPoints = isCorrect ? SPEED_CHALLENGE_BASE_POINTS * multiplier : 0;
+        setComboCount(nextCombo);
+        setMaxCombo(Math.max(maxCombo, nextCombo));
+        setChallengePoints(challengePoints + earnedPoints);
+        setLastSpeedFeedback(isCorrect
+            ? { isCorrect, text: `⭕ +${earnedPoints}${multiplier > 1 ? ` (×${multiplier})` : ''}` }
+            : { isCorrect, text: `❌ ${currentWord.term} = ${currentWord.meaning}` });
+        const nextIndex = (currentQuestionIndex + 1) % quizWords.length;
+        setCurrentQuestionIndex(nextIndex);
+        prepareQuestion(quizWords[nextIndex], 'meaning');
+    };
+
+    const handleAnswerSelection = (answer: string) => {
+        if (showResult || (isTimedQuiz && timeLeftMs <= 0)) return;
+        if (isTimedQuiz) {
+            handleSpeedAnswer(answer);
+            return;
+        }
+        recordAnswer(answer, answer === currentWord.meaning);
+    };
+
+    const handleSpellingSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (showResult || !typedAnswer.trim()) return;
+        const distance = getEditDistance(normalizeTypedAnswer(typedAnswer), normalizeTypedAnswer(currentWord.term));
+        // A near miss gets one more try before it is marked wrong
+        if (distance > 0 && distance <= getTypoTolerance(currentWord.term) && !almostCorrectFeedback) {
+            setAlmostCorrectFeedback(`거의 맞았어요! 철자 ${distance}개만 고쳐 보세요.`);
+            answerInputRef.current?.focus();
+            return;
+        }
+        const usedHelp = hintCount > 0 || !!almostCorrectFeedback;
+        recordAnswer(typedAnswer.trim(), distance === 0, usedHelp ? 3 : 4);
+    };
+
+    const handleShowHint = () => {
+        if (showResult || hintCount >= currentWord.term.length - 1) return;
+        const nextHintCount = hintCount + 1;
+        setHintCount(nextHintCount);
+        setTypedAnswer(currentWord.term.slice(0, nextHintCount));
+        answerInputRef.current?.focus();
+    };
+
+    const dictationResult = quizMode === 'dictation' && showResult ? scoreDictation(dictationText, selectedAnswer || '') : null;
+
+    const handleDictationSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (showResult || !typedAnswer.trim()) return;
+        const result = scoreDictation(dictationText, typedAnswer);
+        recordAnswer(typedAnswer.trim(), result.isPerfect, usedSlowReplay ? 3 : 4);
+    };
+
+    const handleDictationReplay = (rate: number) => {
+        if (rate < 1) setUsedSlowReplay(true);
+        speak(dictationText, 'en-US', rate);
+        answerInputRef.current?.focus();
+    };
+
+    const handleDictationTargetChange = (target: DictationTarget) => {
+        if (target === dictationTarget || showResult) return;
+        setDictationTarget(target);
+        setTypedAnswer('');
+        setUsedSlowReplay(false);
+        speak(getDictationText(currentWord, target));
+    };
+
+
+    const isClozeAnswerCorrect = (answer: string) => {
+        const normalized = normalizeTypedAnswer(answer);
+        return normalized === normalizeTypedAnswer(currentWord.term) || (!!clozeBlank && normalized === normalizeTypedAnswer(clozeBlank.answer));
+    };
+
+    const handleClozeSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (showResult || !typedAnswer.trim()) return;
+        recordAnswer(typedAnswer.trim(), isClozeAnswerCorrect(typedAnswer));
+    };
+
+    const handleClozeAnswerStyleChange = (style: ClozeAnswerStyle) => {
+        if (style === clozeAnswerStyle || showResult) return;
+        setClozeAnswerStyle(style);
+        setTypedAnswer('');
+        if (style === 'choice') {
+            generateTermOptions(currentWord);
         } else {
-            setIncorrectlyAnsweredWordsDetails(prev => [...prev, currentWord]);
-            const currentStat = getWordStat(currentWord.id);
-            updateWordStat(currentWord.id, { quizIncorrectCount: currentStat.quizIncorrectCount + 1 });
+            setOptions([]);
+            setTimeout(() => answerInputRef.current?.focus(), 0);
         }
     };
 
     const handleNextQuestion = () => {
         if (currentQuestionIndex < quizWords.length - 1) {
             const nextQuestionWord = quizWords[currentQuestionIndex + 1];
-            if (nextQuestionWord) {
-                speak(nextQuestionWord.term); 
-            }
             setCurrentQuestionIndex(currentQuestionIndex + 1);
-            setSelectedAnswer(null);
-            setShowResult(false);
             if (nextQuestionWord) {
-                generateOptions(nextQuestionWord);
+                prepareQuestion(nextQuestionWord, quizMode);
             }
         } else {
-            onQuizComplete(score, quizWords.length, incorrectlyAnsweredWordsDetails);
+            onQuizComplete(score, quizWords.length, incorrectlyAnsweredWordsDetails, quizMode, {
+                startedAt: quizStartedAt,
+                durationMs: answerLog.reduce((sum, answer) => sum + answer.timeMs, 0),
+                answers: answerLog,
+            });
             setIsFinished(true);
         }
     };
     
     return (
         <div className="p-4 sm:p-8 flex flex-col items-center">
-            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-4">퀴즈 ({currentQuestionIndex + 1} / {quizWords.length})</h1>
+            <h1 className="text-2xl sm:text-3xl font-bold text-cyan-400 mb-4">
+                {isTimedQuiz ? `⏱ 스피드 챌린지 (${Math.ceil(timeLeftMs / 1000)}초)` : `퀴즈 (${currentQuestionIndex + 1} / ${quizWords.length})`}
+            </h1>
+            <div className="mb-4 flex items-center space-x-3 text-sm">
+                <span className="px-3 py-1 rounded-full bg-slate-700 text-cyan-300">{QUIZ_MODE_LABELS[quizMode]} · {QUIZ_SOURCE_LABELS[quizConfig.source]}</span>
+                <button onClick={() => setIsConfiguring(true)} className="text-slate-400 hover:text-cyan-300 underline">설정 바꾸기</button>
+            </div>
             <div className="w-full max-w-xl bg-slate-700 rounded-xl shadow-2xl p-6 sm:p-8">
+                {isTimedQuiz ? (
+                    <>
+                        <div className="w-full bg-slate-600 rounded-full h-2.5 mb-3">
+                            <div
+                                className={`h-2.5 rounded-full transition-all duration-200 ease-linear ${timeLeftMs <= 10000 ? 'bg-red-500' : 'bg-cyan-500'}`}
+                                style={{ width: `${(timeLeftMs / ((quizConfig.timeLimitSeconds || SPEED_CHALLENGE_SECONDS) * 1000)) * 100}%` }}
+                                aria-valuenow={Math.ceil(timeLeftMs / 1000)}
+                                aria-valuemin={0}
+                                aria-valuemax={quizConfig.timeLimitSeconds}
+                                role="progressbar"
+                                aria-label="남은 시간"
+                            ></div>
+                        </div>
+                        <div className="flex justify-between items-center mb-4 text-sm">
+                            <span className="text-white font-bold text-lg">{challengePoints}점</span>
+                            <span className={comboCount >= 3 ? 'text-yellow-400 font-semibold' : 'text-slate-400'}>
+                                콤보 {comboCount}{getComboMultiplier(comboCount) > 1 && ` · ×${getComboMultiplier(comboCount)}`}
+                            </span>
+                        </div>
+                        <div className={`h-6 mb-2 text-center text-sm ${lastSpeedFeedback?.isCorrect ? 'text-green-400' : 'text-red-400'}`} aria-live="polite">
+                            {lastSpeedFeedback?.text}
+                        </div>
+                    </>
+                ) : (
                 <div className="w-full bg-slate-600 rounded-full h-2.5 mb-6">
                     <div 
                         className="bg-cyan-500 h-2.5 rounded-full transition-all duration-300 ease-in-out" 
@@ -1967,6 +5761,9 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                         aria-label="Quiz progress"
                     ></div>
                 </div>
+                )}
+                {quizMode === 'meaning' && (
+                <>
                 <div className="text-center mb-6">
                     <p className="text-slate-400 text-sm mb-1">다음 단어의 뜻은 무엇일까요?</p>
                     <div className="flex items-center justify-center">
@@ -1999,13 +5796,239 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                         </button>
                     ))}
                 </div>
+                </>
+                )}
+
+                {quizMode === 'spelling' && (
+                    <form onSubmit={handleSpellingSubmit} className="mb-6">
+                        <div className="text-center mb-4">
+                            <p className="text-slate-400 text-sm mb-1">다음 뜻을 가진 영어 단어를 쓰세요.</p>
+                            <h2 className="text-3xl sm:text-4xl font-bold text-white">{currentWord.meaning}</h2>
+                            <p className="text-slate-400 text-lg">({currentWord.partOfSpeech})</p>
+                            <div className="mt-2 flex items-center justify-center space-x-3 text-sm">
+                                <label className="flex items-center text-slate-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={isSpellingAudioEnabled}
+                                        onChange={(e) => setIsSpellingAudioEnabled(e.target.checked)}
+                                        className="mr-1.5 accent-cyan-500"
+                                    />
+                                    발음 들려주기
+                                </label>
+                                {isSpellingAudioEnabled && (
+                                    <button type="button" onClick={() => speak(currentWord.term)} className="text-slate-400 hover:text-cyan-400 text-xl" aria-label="단어 발음 듣기">🔊</button>
+                                )}
+                            </div>
+                        </div>
+                        <p className="text-center font-mono text-xl tracking-widest text-cyan-300 mb-3" aria-label="글자 수 힌트">
+                            {currentWord.term.split('').map((char, index) => (char === ' ' ? ' ' : index < hintCount ? char : '_')).join(' ')}
+                        </p>
+                        <input
+                            ref={answerInputRef}
+                            type="text"
+                            value={typedAnswer}
+                            onChange={(e) => setTypedAnswer(e.target.value)}
+                            disabled={showResult}
+                            autoComplete="off"
+                            autoCapitalize="off"
+                            spellCheck={false}
+                            className="w-full p-3 bg-slate-600 text-white text-xl text-center rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-70"
+                            placeholder="영어 단어 입력"
+                            aria-label="영어 단어 입력"
+                        />
+                        {almostCorrectFeedback && !showResult && (
+                            <p className="mt-2 text-center text-yellow-400 text-sm animate-fadeIn">{almostCorrectFeedback}</p>
+                        )}
+                        {!showResult && (
+                            <div className="grid grid-cols-2 gap-3 mt-3">
+                                <button
+                                    type="button"
+                                    onClick={handleShowHint}
+                                    disabled={hintCount >= currentWord.term.length - 1}
+                                    className="py-2 px-3 bg-slate-600 hover:bg-slate-500 text-white rounded-md disabled:opacity-50"
+                                >
+                                    💡 글자 힌트 ({hintCount})
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={!typedAnswer.trim()}
+                                    className="py-2 px-3 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-md disabled:opacity-50"
+                                >
+                                    확인
+                                </button>
+                            </div>
+                        )}
+                    </form>
+                )}
+
+                {quizMode === 'cloze' && clozeBlank && (
+                    <div className="mb-6">
+                        <div className="flex justify-center space-x-2 mb-4" role="group" aria-label="빈칸 답하기 방식">
+                            {(Object.keys(CLOZE_ANSWER_STYLE_LABELS) as ClozeAnswerStyle[]).map(style => (
+                                <button
+                                    key={style}
+                                    type="button"
+                                    onClick={() => handleClozeAnswerStyleChange(style)}
+                                    disabled={showResult}
+                                    aria-pressed={clozeAnswerStyle === style}
+                                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-50 ${clozeAnswerStyle === style ? 'bg-cyan-600 text-white' : 'bg-slate-600 text-slate-300 hover:bg-slate-500'}`}
+                                >
+                                    {CLOZE_ANSWER_STYLE_LABELS[style]}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="text-center mb-5">
+                            <p className="text-slate-400 text-sm mb-2">빈칸에 알맞은 단어는 무엇일까요?</p>
+                            <p className="text-xl sm:text-2xl text-white leading-relaxed">
+                                {clozeBlank.before}
+                                <span className={`inline-block min-w-[4rem] mx-1 px-2 border-b-2 ${showResult ? (isAnswerCorrect ? 'border-green-400 text-green-300' : 'border-red-400 text-red-300') : 'border-cyan-400 text-transparent'}`}>
+                                    {showResult ? clozeBlank.answer : '_'.repeat(clozeBlank.answer.length)}
+                                </span>
+                                {clozeBlank.after}
+                            </p>
+                            {currentWord.exampleSentenceMeaning && (
+                                <p className="mt-2 text-sm text-slate-400">💡 {currentWord.exampleSentenceMeaning}</p>
+                            )}
+                        </div>
+                        {clozeAnswerStyle === 'choice' ? (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                                {options.map((option, index) => (
+                                    <button
+                                        key={index}
+                                        onClick={() => { if (!showResult) recordAnswer(option, option === currentWord.term); }}
+                                        disabled={showResult}
+                                        className={`w-full p-3 sm:p-4 text-left rounded-lg shadow-md transition-all duration-150 ease-in-out
+                                            ${showResult
+                                                ? option === currentWord.term
+                                                    ? 'bg-green-500 text-white ring-2 ring-green-300 scale-105'
+                                                    : selectedAnswer === option
+                                                        ? 'bg-red-500 text-white ring-2 ring-red-300'
+                                                        : 'bg-slate-600 text-slate-300 opacity-70'
+                                                : 'bg-sky-600 hover:bg-sky-500 text-white focus:ring-2 focus:ring-sky-300'
+                                            }`}
+                                        aria-live="polite"
+                                    >
+                                        {option}
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <form onSubmit={handleClozeSubmit}>
+                                <input
+                                    ref={answerInputRef}
+                                    type="text"
+                                    value={typedAnswer}
+                                    onChange={(e) => setTypedAnswer(e.target.value)}
+                                    disabled={showResult}
+                                    autoComplete="off"
+                                    autoCapitalize="off"
+                                    spellCheck={false}
+                                    className="w-full p-3 bg-slate-600 text-white text-xl text-center rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-70"
+                                    placeholder="빈칸에 들어갈 단어"
+                                    aria-label="빈칸에 들어갈 단어 입력"
+                                />
+                                {!showResult && (
+                                    <button
+                                        type="submit"
+                                        disabled={!typedAnswer.trim()}
+                                        className="w-full mt-3 py-2 px-3 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-md disabled:opacity-50"
+                                    >
+                                        확인
+                                    </button>
+                                )}
+                            </form>
+                        )}
+                    </div>
+                )}
+
+                {quizMode === 'dictation' && (
+                    <form onSubmit={handleDictationSubmit} className="mb-6">
+                        <div className="text-center mb-4">
+                            <p className="text-slate-400 text-sm mb-3">잘 듣고 들은 내용을 그대로 쓰세요. 글자는 보이지 않아요.</p>
+                            <div className="flex justify-center space-x-2 mb-3" role="group" aria-label="받아쓰기 대상">
+                                {(Object.keys(DICTATION_TARGET_LABELS) as DictationTarget[]).map(target => (
+                                    <button
+                                        key={target}
+                                        type="button"
+                                        onClick={() => handleDictationTargetChange(target)}
+                                        disabled={showResult}
+                                        aria-pressed={dictationTarget === target}
+                                        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-50 ${dictationTarget === target ? 'bg-cyan-600 text-white' : 'bg-slate-600 text-slate-300 hover:bg-slate-500'}`}
+                                    >
+                                        {DICTATION_TARGET_LABELS[target]}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex justify-center flex-wrap gap-2">
+                                {DICTATION_RATES.map(({ rate, label }) => (
+                                    <button
+                                        key={rate}
+                                        type="button"
+                                        onClick={() => handleDictationReplay(rate)}
+                                        className="px-3 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md text-sm"
+                                        aria-label={`${label} 다시 듣기`}
+                                    >
+                                        🔊 {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {usedSlowReplay && !showResult && <p className="mt-2 text-xs text-slate-400">느리게 듣기를 사용했습니다.</p>}
+                        </div>
+                        <input
+                            ref={answerInputRef}
+                            type="text"
+                            value={typedAnswer}
+                            onChange={(e) => setTypedAnswer(e.target.value)}
+                            disabled={showResult}
+                            autoComplete="off"
+                            autoCapitalize="off"
+                            spellCheck={false}
+                            className="w-full p-3 bg-slate-600 text-white text-lg text-center rounded-md border border-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-70"
+                            placeholder="들은 내용을 입력하세요"
+                            aria-label="받아쓰기 입력"
+                        />
+                        {!showResult && (
+                            <button
+                                type="submit"
+                                disabled={!typedAnswer.trim()}
+                                className="w-full mt-3 py-2 px-3 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-md disabled:opacity-50"
+                            >
+                                확인
+                            </button>
+                        )}
+                    </form>
+                )}
 
                 {showResult && (
-                    <div className={`text-center p-3 mb-4 rounded-md text-white ${selectedAnswer === currentWord.meaning ? 'bg-green-600' : 'bg-red-600'} animate-fadeIn`}>
-                        {selectedAnswer === currentWord.meaning ? '🎉 정답입니다!' : `❌ 오답입니다. 정답: ${currentWord.meaning}`}
+                    <div className={`text-center p-3 mb-4 rounded-md text-white ${isAnswerCorrect ? 'bg-green-600' : 'bg-red-600'} animate-fadeIn`}>
+                        {quizMode === 'meaning' && (isAnswerCorrect ? '🎉 정답입니다!' : `❌ 오답입니다. 정답: ${currentWord.meaning}`)}
+                        {quizMode === 'spelling' && (isAnswerCorrect
+                            ? `🎉 정답입니다!${hintCount > 0 ? ` (힌트 ${hintCount}개 사용)` : ''}`
+                            : `❌ 오답입니다. 정답: ${currentWord.term} (입력: ${selectedAnswer})`)}
+                        {quizMode === 'cloze' && (
+                            <span>
+                                {isAnswerCorrect ? '🎉 정답입니다!' : `❌ 오답입니다. 정답: ${clozeBlank && clozeBlank.answer.toLowerCase() !== currentWord.term.toLowerCase() ? `${clozeBlank.answer} (${currentWord.term})` : currentWord.term}`}
+                                {' '}<button onClick={() => speak(currentWord.exampleSentence)} className="ml-1 hover:text-cyan-200" aria-label="예문 발음 듣기">🔊</button>
+                            </span>
+                        )}
+                        {quizMode === 'dictation' && dictationResult && (
+                            <>
+                                <p>{isAnswerCorrect ? '🎉 완벽해요!' : `❌ ${dictationResult.total}단어 중 ${dictationResult.correctCount}단어를 맞혔어요.`}</p>
+                                <p className="mt-2 text-lg bg-slate-800/40 rounded p-2">
+                                    {dictationResult.words.map((w, index) => (
+                                        <span key={index} className={w.isCorrect ? 'text-green-300' : 'text-red-300 underline decoration-wavy'}>{w.word} </span>
+                                    ))}
+                                </p>
+                                {dictationTarget === 'sentence' && currentWord.exampleSentenceMeaning && (
+                                    <p className="mt-1 text-sm text-slate-200">{currentWord.exampleSentenceMeaning}</p>
+                                )}
+                                {!isAnswerCorrect && <p className="mt-1 text-sm text-slate-200">입력: {selectedAnswer}</p>}
+                            </>
+                        )}
                     </div>
                 )}
 
+                {!isTimedQuiz && (
                 <button
                     onClick={handleNextQuestion}
                     disabled={!showResult}
@@ -2013,6 +6036,7 @@ const QuizScreen: React.FC<QuizScreenProps> = ({ userSettings, onNavigate, words
                 >
                     {currentQuestionIndex === quizWords.length - 1 ? '결과 보기' : '다음 문제'}
                 </button>
+                )}
             </div>
              <button 
                 onClick={() => onNavigate('dashboard')} 
@@ -2163,10 +6187,10 @@ const EditWordModal = ({
 // AllWords Screen Component
 interface AllWordsScreenProps extends ScreenProps {
     allWords: Word[]; 
-    wordStats: Record<string | number, WordStat>;
-    onDeleteCustomWord: (wordId: number | string) => void;
+    wordStats: Record<WordId, WordStat>;
+    onDeleteCustomWord: (wordId: WordId) => void;
     onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string) => Promise<boolean>;
-    updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void;
+    updateWordStat: (wordId: WordId, newStat: Partial<Omit<WordStat, 'id'>>) => void;
 }
 
 const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigate, allWords, wordStats, onDeleteCustomWord, onSaveCustomWord, updateWordStat, addToast, setGlobalLoading }) => {
@@ -2175,8 +6199,9 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
     const [editingWord, setEditingWord] = useState<Word | null>(null);
     const [showConfirmDeleteModal, setShowConfirmDeleteModal] = useState(false);
     const [wordToDelete, setWordToDelete] = useState<Word | null>(null);
+    const [showFlashcardPrintModal, setShowFlashcardPrintModal] = useState(false);
     
-    const getWordStat = useCallback((wordId: string | number) => {
+    const getWordStat = useCallback((wordId: WordId) => {
         return wordStats[wordId] || getDefaultWordStat(wordId);
     }, [wordStats]);
 
@@ -2255,6 +6280,13 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
                     <option value="middle2">중학교 2학년</option>
                     <option value="middle3">중학교 3학년</option>
                 </select>
+                <button
+                    onClick={() => setShowFlashcardPrintModal(true)}
+                    disabled={wordsToDisplay.length === 0}
+                    className="p-3 bg-slate-700 hover:bg-slate-600 text-white rounded-md border border-slate-600 disabled:opacity-50 whitespace-nowrap"
+                >
+                    🖨️ 플래시카드 인쇄
+                </button>
             </div>
 
             {wordsToDisplay.length > 0 ? (
@@ -2271,7 +6303,10 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
 
                                     </h3>
                                     <p className="text-sm text-slate-300">{word.partOfSpeech} - {word.meaning}</p>
-                                    <p className="text-xs text-slate-400 mt-1">학년: {word.gradeLevel} | 복습: {word.stat.lastReviewed ? new Date(word.stat.lastReviewed).toLocaleDateString() : '안함'} | 오답: {word.stat.quizIncorrectCount}</p>
+                                    <p className="text-xs text-slate-400 mt-1">학년: {word.gradeLevel} | 복습: {word.stat.lastReviewed ? new Date(word.stat.lastReviewed).toLocaleDateString() : '안함'} | 다음 복습: {word.stat.dueDate || '미학습'} | 오답: {word.stat.quizIncorrectCount}</p>
+                                    {word.stat.directionStats.koToEn.reviewCount > 0 && (
+                                        <p className="text-xs text-slate-400">카드: 영→뜻 {word.stat.directionStats.enToKo.reviewCount}회 (다시 {word.stat.directionStats.enToKo.failedCount}) | 뜻→영 {word.stat.directionStats.koToEn.reviewCount}회 (다시 {word.stat.directionStats.koToEn.failedCount})</p>
+                                    )}
                                 </div>
                                 <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-1 flex-shrink-0 ml-2 items-end">
                                      <button onClick={() => speak(word.term)} className="text-slate-400 hover:text-cyan-400 text-xl p-1.5 rounded-md hover:bg-slate-500" aria-label={`${word.term} 발음 듣기`}>
@@ -2322,11 +6357,18 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
                 <p className="text-center text-slate-400 py-8">해당 조건에 맞는 단어가 없습니다.</p>
             )}
             {editingWord && <EditWordModal word={editingWord} onSave={handleSaveEdit} onCancel={() => setEditingWord(null)} userGrade={userSettings.grade} isCustomWordOnly={!editingWord.isCustom} addToast={addToast} setGlobalLoading={setGlobalLoading}/>}
+            <FlashcardPrintModal
+                isOpen={showFlashcardPrintModal}
+                words={wordsToDisplay}
+                sourceLabel={`${filterGrade === 'all' ? '모든 학년' : GRADE_LABELS[filterGrade] || filterGrade}${searchTerm.trim() ? ` '${searchTerm.trim()}' 검색` : ''}`}
+                onClose={() => setShowFlashcardPrintModal(false)}
+                addToast={addToast}
+            />
             {wordToDelete && (
                 <ConfirmationModal
                     isOpen={showConfirmDeleteModal}
                     title="단어 삭제 확인"
-                    message={`'${wordToDelete.term}' 단어를 정말 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`}
+                    message={`'${wordToDelete.term}' 단어를 삭제하시겠습니까? 휴지통으로 옮겨지며 ${TRASH_RETENTION_DAYS}일 안에 복원할 수 있습니다.`}
                     onConfirm={confirmDelete}
                     onCancel={() => { setShowConfirmDeleteModal(false); setWordToDelete(null); }}
                 />
@@ -2338,9 +6380,9 @@ const AllWordsScreen: React.FC<AllWordsScreenProps> = ({ userSettings, onNavigat
 // Stats Screen Component
 interface StatsScreenProps extends ScreenProps {
     learnedWordsHistory: { date: string; count: number }[]; 
-    quizHistory: { date: string; score: number; total: number }[];
+    quizHistory: QuizHistoryEntry[];
     allWords: Word[]; 
-    wordStats: Record<string | number, WordStat>;
+    wordStats: Record<WordId, WordStat>;
 }
 const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, learnedWordsHistory, quizHistory, allWords, wordStats }) => {
     const totalWordsLearnedOverall = learnedWordsHistory.reduce((sum, item) => sum + item.count, 0);
@@ -2348,12 +6390,20 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, lea
         ? (quizHistory.reduce((sum, item) => sum + (item.score / Math.max(1, item.total)), 0) / quizHistory.length) * 100
         : 0;
 
-    const getWordStat = useCallback((wordId: string | number) => {
+    const getWordStat = useCallback((wordId: WordId) => {
         return wordStats[wordId] || getDefaultWordStat(wordId);
     }, [wordStats]);
 
     const masteredWordsCount = Object.values(wordStats).filter(stat => stat.isMastered).length;
 
+    const [openedQuizIndex, setOpenedQuizIndex] = useState<number | null>(null);
+    const openedQuiz = openedQuizIndex !== null ? quizHistory[openedQuizIndex] : null;
+    const quizDetailCloseButtonRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        if (openedQuiz) setTimeout(() => quizDetailCloseButtonRef.current?.focus(), 0);
+    }, [openedQuiz]);
+
     const wordsToReview = useMemo(() => {
         return allWords
             .map(word => ({ ...word, stat: getWordStat(word.id) }))
@@ -2384,7 +6434,10 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, lea
 
             {wordsToReview.length > 0 && (
                  <div className="mb-8">
-                    <h3 className="text-xl font-semibold text-cyan-300 mb-3">집중 복습 추천 단어 (현재 학년)</h3>
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 className="text-xl font-semibold text-cyan-300">집중 복습 추천 단어 (현재 학년)</h3>
+                        <button onClick={() => onNavigate('wrongNotes')} className="text-sm text-cyan-400 hover:text-cyan-300">📕 오답노트 전체 보기 →</button>
+                    </div>
                     <ul className="space-y-2 bg-slate-700 p-3 rounded-md">
                         {wordsToReview.map(word => (
                             <li key={word.id} className="flex justify-between p-2 bg-slate-600 rounded items-center">
@@ -2420,10 +6473,19 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, lea
                     <h3 className="text-xl font-semibold text-cyan-300 mb-3">퀴즈 기록</h3>
                     {quizHistory.length > 0 ? (
                         <ul className="space-y-2 max-h-60 overflow-y-auto bg-slate-700 p-3 rounded-md">
-                            {quizHistory.slice().reverse().map((item, index) => (
-                                <li key={index} className="flex justify-between p-2 bg-slate-600 rounded">
-                                    <span className="text-slate-300">{item.date}</span>
-                                    <span className="text-white font-semibold">{item.score} / {item.total}</span>
+                            {quizHistory.map((item, index) => ({ item, index })).reverse().map(({ item, index }) => (
+                                <li key={index}>
+                                    <button
+                                        onClick={() => setOpenedQuizIndex(index)}
+                                        className="w-full flex justify-between p-2 bg-slate-600 hover:bg-slate-500 rounded text-left transition-colors"
+                                        aria-label={`${item.date} 퀴즈 기록 보기`}
+                                    >
+                                        <span className="text-slate-300">{item.date} <span className="text-xs text-slate-400">({QUIZ_MODE_LABELS[item.mode || 'meaning']})</span></span>
+                                        <span className="text-white font-semibold">
+                                            {item.challengePoints !== undefined && <span className="text-yellow-400 text-xs mr-2">⏱ {item.challengePoints}점</span>}
+                                            {item.score} / {item.total} <span className="text-slate-400 text-xs ml-1">›</span>
+                                        </span>
+                                    </button>
                                 </li>
                             ))}
                         </ul>
@@ -2432,6 +6494,50 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, lea
                     )}
                 </div>
             </div>
+
+            {openedQuiz && (
+                <div role="dialog" aria-modal="true" aria-labelledby="quiz-detail-modal-title" className="fixed inset-0 bg-slate-900 bg-opacity-75 flex justify-center items-center p-4 z-50 animate-fadeIn">
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                        <h3 id="quiz-detail-modal-title" className="text-xl font-semibold text-cyan-400 mb-1">
+                            퀴즈 기록: {openedQuiz.date} ({QUIZ_MODE_LABELS[openedQuiz.mode || 'meaning']})
+                        </h3>
+                        <p className="text-sm text-slate-400 mb-4">
+                            {openedQuiz.score} / {openedQuiz.total} 정답
+                            {openedQuiz.startedAt && ` · 시작 ${new Date(openedQuiz.startedAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}`}
+                            {openedQuiz.durationMs !== undefined && ` · 풀이 시간 ${formatDuration(openedQuiz.durationMs)}`}
+                        </p>
+                        {openedQuiz.answers && openedQuiz.answers.length > 0 ? (
+                            <ol className="space-y-2 overflow-y-auto pr-1">
+                                {openedQuiz.answers.map((answer, index) => (
+                                    <li key={index} className={`p-3 rounded-md border-l-4 ${answer.isCorrect ? 'bg-slate-700 border-green-500' : 'bg-slate-700 border-red-500'}`}>
+                                        <div className="flex justify-between items-start">
+                                            <p className="text-white font-medium">{index + 1}. {answer.prompt}</p>
+                                            <span className="text-xs text-slate-400 ml-2 whitespace-nowrap">{formatDuration(answer.timeMs)}</span>
+                                        </div>
+                                        <p className="text-sm text-slate-300 mt-1">
+                                            정답: <span className="text-green-400">{answer.correctAnswer}</span>
+                                            {!answer.isCorrect && <> · 고른 답: <span className="text-red-400">{answer.chosenAnswer}</span></>}
+                                        </p>
+                                        {answer.options && (
+                                            <p className="text-xs text-slate-400 mt-1">보기: {answer.options.join(' / ')}</p>
+                                        )}
+                                        <p className="text-xs text-slate-500 mt-1">{answer.term} - {answer.meaning}</p>
+                                    </li>
+                                ))}
+                            </ol>
+                        ) : (
+                            <p className="text-slate-400">이 퀴즈는 문제별 기록이 저장되기 전에 응시한 기록입니다.</p>
+                        )}
+                        <button
+                            ref={quizDetailCloseButtonRef}
+                            onClick={() => setOpenedQuizIndex(null)}
+                            className="mt-4 w-full py-2 bg-cyan-500 hover:bg-cyan-600 text-white rounded"
+                        >
+                            닫기
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -2440,15 +6546,26 @@ const StatsScreen: React.FC<StatsScreenProps> = ({ userSettings, onNavigate, lea
 interface ManageWordsScreenProps extends ScreenProps {
     myWords: Word[];
     allWords: Word[]; 
-    wordStats: Record<string | number, WordStat>;
+    wordStats: Record<WordId, WordStat>;
     onSaveCustomWord: (wordData: Partial<Word>, gradeLevelForNew?: string) => Promise<boolean>;
-    onDeleteCustomWord: (wordId: number | string) => void;
-    updateWordStat: (wordId: string | number, newStat: Partial<Omit<WordStat, 'id'>>) => void; 
+    onDeleteCustomWord: (wordId: WordId) => void;
+    updateWordStat: (wordId: WordId, newStat: Partial<Omit<WordStat, 'id'>>) => void; 
+    trashedWords: TrashedWord[];
+    onRestoreTrashedWord: (wordId: WordId) => void;
+    onPurgeTrashedWord: (wordId: WordId) => void;
+    onEmptyTrash: () => void;
+    wordPackManifest: WordPackInfo[] | null;
+    loadedWordPacks: Record<string, LoadedWordPack>;
+    loadingPackIds: string[];
+    wordPackPreferences: WordPackPreferences;
+    onToggleWordPack: (packId: string, enabled: boolean) => void;
 }
 
-const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onNavigate, myWords, allWords, wordStats, onSaveCustomWord, onDeleteCustomWord, updateWordStat, addToast, setGlobalLoading }) => {
-    type ManageTab = 'myWordsManage' | 'addManual' | 'fileExtract';
+const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onNavigate, myWords, allWords, wordStats, onSaveCustomWord, onDeleteCustomWord, updateWordStat, trashedWords, onRestoreTrashedWord, onPurgeTrashedWord, onEmptyTrash, wordPackManifest, loadedWordPacks, loadingPackIds, wordPackPreferences, onToggleWordPack, addToast, setGlobalLoading }) => {
+    type ManageTab = 'myWordsManage' | 'addManual' | 'fileExtract' | 'trash' | 'wordPacks';
     const [activeTab, setActiveTab] = useState<ManageTab>('myWordsManage');
+    const [showFlashcardPrintModal, setShowFlashcardPrintModal] = useState(false);
+    const [trashPurgeTarget, setTrashPurgeTarget] = useState<TrashedWord | 'all' | null>(null);
     
     const [newWordData, setNewWordData] = useState<Partial<Word>>({ term: '', meaning: '', partOfSpeech: '', exampleSentence: '', exampleSentenceMeaning: '', pronunciation: '' });
     const [isSubmittingManualAdd, setIsSubmittingManualAdd] = useState(false);
@@ -2718,7 +6835,11 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
         { id: 'myWordsManage', label: '나의 단어 관리' },
         { id: 'addManual', label: '단어 직접 추가' },
         { id: 'fileExtract', label: '파일에서 추출 및 자동 추가' },
+        { id: 'trash', label: `🗑️ 휴지통 (${trashedWords.length})` },
+        { id: 'wordPacks', label: '📦 단어 팩' },
     ];
+
+    const packGrades = Array.from(new Set((wordPackManifest || []).map(pack => pack.grade)));
     
     return (
         <div className="p-4 sm:p-6">
@@ -2744,7 +6865,14 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
 
             {activeTab === 'myWordsManage' && (
                 <div>
-                    <h2 className="text-xl font-semibold text-cyan-300 mb-4">나의 단어 목록 ({myWords.length}개)</h2>
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-semibold text-cyan-300">나의 단어 목록 ({myWords.length}개)</h2>
+                        {myWords.length > 0 && (
+                            <button onClick={() => setShowFlashcardPrintModal(true)} className="px-3 py-2 bg-slate-600 hover:bg-slate-500 text-white rounded-md text-sm">
+                                🖨️ 플래시카드 인쇄
+                            </button>
+                        )}
+                    </div>
                     {myWords.length > 0 ? (
                         <ul className="space-y-3">
                             {myWords.map((word) => (
@@ -2799,6 +6927,102 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
                 </div>
             )}
             
+            {activeTab === 'trash' && (
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <h2 className="text-xl font-semibold text-cyan-300">휴지통 ({trashedWords.length}개)</h2>
+                        {trashedWords.length > 0 && (
+                            <button onClick={() => setTrashPurgeTarget('all')} className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm">
+                                휴지통 비우기
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-sm text-slate-400 mb-4">삭제한 단어는 학습 기록과 함께 {TRASH_RETENTION_DAYS}일 동안 보관된 뒤 자동으로 영구 삭제됩니다.</p>
+                    {trashedWords.length > 0 ? (
+                        <ul className="space-y-3">
+                            {[...trashedWords].reverse().map(item => (
+                                <li key={item.word.id} className="p-4 bg-slate-700 rounded-lg shadow flex justify-between items-center">
+                                    <div>
+                                        <h4 className="font-semibold text-lg text-slate-300">{item.word.term}</h4>
+                                        <p className="text-sm text-slate-400 mt-1">{item.word.meaning}</p>
+                                        <p className="text-xs text-slate-500 mt-1">
+                                            {new Date(item.deletedAt).toLocaleDateString('ko-KR')} 삭제 · {getTrashDaysLeft(item)}일 후 영구 삭제
+                                        </p>
+                                    </div>
+                                    <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2 items-center flex-shrink-0 ml-2">
+                                        <button
+                                            onClick={() => onRestoreTrashedWord(item.word.id)}
+                                            className="px-3 py-1.5 bg-cyan-500 hover:bg-cyan-600 text-white rounded-md text-sm whitespace-nowrap"
+                                            aria-label={`${item.word.term} 복원`}
+                                        >
+                                            ♻️ 복원
+                                        </button>
+                                        <button
+                                            onClick={() => setTrashPurgeTarget(item)}
+                                            className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm whitespace-nowrap"
+                                            aria-label={`${item.word.term} 영구 삭제`}
+                                        >
+                                            영구 삭제
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-center text-slate-400 py-6">휴지통이 비어 있습니다.</p>
+                    )}
+                </div>
+            )}
+
+            {activeTab === 'wordPacks' && (
+                <div>
+                    <h2 className="text-xl font-semibold text-cyan-300 mb-2">단어 팩</h2>
+                    <p className="text-sm text-slate-400 mb-4">학년별 기본 단어는 단어 팩으로 제공되며, 학습하는 학년의 팩만 필요할 때 불러옵니다. 팩을 끄면 학습·퀴즈에서 빠지고, 다시 켜면 이전 학습 기록이 그대로 이어집니다.</p>
+                    {wordPackManifest === null ? (
+                        <p className="text-center text-slate-400 py-6">단어 팩 목록을 불러오는 중...</p>
+                    ) : wordPackManifest.length === 0 ? (
+                        <p className="text-center text-slate-400 py-6">사용할 수 있는 단어 팩이 없습니다.</p>
+                    ) : (
+                        <div className="space-y-6">
+                            {packGrades.map(grade => (
+                                <section key={grade}>
+                                    <h3 className="text-lg font-semibold text-slate-200 mb-2">
+                                        {GRADE_LABELS[grade] || grade}
+                                        {grade === userSettings.grade && <span className="ml-2 text-xs text-cyan-400">현재 학년</span>}
+                                    </h3>
+                                    <ul className="space-y-3">
+                                        {wordPackManifest.filter(pack => pack.grade === grade).map(pack => {
+                                            const isEnabled = isWordPackEnabled(pack, wordPackPreferences);
+                                            const loadedPack = loadedWordPacks[pack.id];
+                                            return (
+                                                <li key={pack.id} className="p-4 bg-slate-700 rounded-lg shadow flex justify-between items-center">
+                                                    <div>
+                                                        <h4 className={`font-semibold text-lg ${isEnabled ? 'text-cyan-400' : 'text-slate-400'}`}>{pack.title}</h4>
+                                                        <p className="text-sm text-slate-300 mt-1">
+                                                            {pack.textbook && `${pack.textbook} · `}단어 {loadedPack ? loadedPack.words.length : pack.wordCount}개 · v{pack.version}
+                                                        </p>
+                                                        <p className="text-xs text-slate-500 mt-1">
+                                                            {loadingPackIds.includes(pack.id) ? '불러오는 중...' : loadedPack ? '불러옴' : '필요할 때 불러옵니다'}
+                                                        </p>
+                                                    </div>
+                                                    <button
+                                                        onClick={() => onToggleWordPack(pack.id, !isEnabled)}
+                                                        className={`px-3 py-1.5 rounded-md text-sm whitespace-nowrap ml-2 ${isEnabled ? 'bg-slate-600 hover:bg-slate-500 text-white' : 'bg-cyan-500 hover:bg-cyan-600 text-white'}`}
+                                                        aria-label={`${pack.title} ${isEnabled ? '끄기' : '켜기'}`}
+                                                    >
+                                                        {isEnabled ? '사용 중 · 끄기' : '켜기'}
+                                                    </button>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </section>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {activeTab === 'addManual' && (
                 <div className="space-y-4">
                     <h2 className="text-xl font-semibold text-cyan-300 mb-2">단어 직접 추가</h2>
@@ -2891,11 +7115,34 @@ const ManageWordsScreen: React.FC<ManageWordsScreenProps> = ({ userSettings, onN
                 <ConfirmationModal
                     isOpen={showConfirmDeleteModal}
                     title="단어 삭제 확인"
-                    message={`'${wordToDelete.term}' 단어를 정말 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`}
+                    message={`'${wordToDelete.term}' 단어를 삭제하시겠습니까? 휴지통으로 옮겨지며 ${TRASH_RETENTION_DAYS}일 안에 복원할 수 있습니다.`}
                     onConfirm={confirmDeleteMyWord}
                     onCancel={() => { setShowConfirmDeleteModal(false); setWordToDelete(null); }}
                 />
             )}
+            {trashPurgeTarget && (
+                <ConfirmationModal
+                    isOpen={true}
+                    title={trashPurgeTarget === 'all' ? "휴지통 비우기" : "영구 삭제 확인"}
+                    message={trashPurgeTarget === 'all'
+                        ? `휴지통의 단어 ${trashedWords.length}개를 학습 기록과 함께 영구 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`
+                        : `'${trashPurgeTarget.word.term}' 단어를 학습 기록과 함께 영구 삭제하시겠습니까? 이 작업은 되돌릴 수 없습니다.`}
+                    onConfirm={() => {
+                        if (trashPurgeTarget === 'all') onEmptyTrash();
+                        else onPurgeTrashedWord(trashPurgeTarget.word.id);
+                        setTrashPurgeTarget(null);
+                    }}
+                    onCancel={() => setTrashPurgeTarget(null)}
+                    confirmText="영구 삭제"
+                />
+            )}
+            <FlashcardPrintModal
+                isOpen={showFlashcardPrintModal && activeTab === 'myWordsManage'}
+                words={myWords}
+                sourceLabel="나의 단어"
+                onClose={() => setShowFlashcardPrintModal(false)}
+                addToast={addToast}
+            />
         </div>
     );
 };
@@ -2909,126 +7156,551 @@ const App = (): React.ReactElement => {
     const [screenParams, setScreenParams] = useState<any>(null);
     const [isGlobalLoading, setGlobalLoading] = useState<boolean>(false);
     
+    // Profiles are null until the registry is known; no profile is active until one is picked
+    const [profiles, setProfiles] = useState<LearnerProfile[] | null>(() => readLocalStorageJson(PROFILE_REGISTRY_KEY));
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+
+    // Storage is null until saved data has loaded, and stays null if loading failed so nothing gets overwritten
+    const [storage, setStorage] = useState<AppStorage | null>(null);
+    const [isDataLoaded, setIsDataLoaded] = useState(false);
+    const storageRef = useRef<AppStorage | null>(null);
+    storageRef.current = storage;
+    const savedRecordsRef = useRef<{ [K in LearningRecordStoreName]: StorageRecord<StoredRecords[K]>[] }>({ myWords: [], wordStats: [] });
+
+    // Cross-tab sync bookkeeping: values last received from (or loaded for) other tabs are not written again,
+    // and local record change times decide per-record conflicts
+    const syncChannelRef = useRef<BroadcastChannel | null>(null);
+    const syncedValuesRef = useRef<Partial<Record<StoredValueKey, unknown>>>({});
+    const localChangeTimesRef = useRef<Record<LearningRecordStoreName, Map<string, number>>>({ myWords: new Map(), wordStats: new Map() });
+
+    // Server sync: outbox writes are chained so they never interleave, and syncNowRef runs a sync when one is set up
+    const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(null);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>('disabled');
+    const [pendingSyncCount, setPendingSyncCount] = useState(0);
+    const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+    const outboxQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+    const syncNowRef = useRef<(() => void) | null>(null);
+    const syncTimeoutRef = useRef<number | null>(null);
+
     // Word data state
-    const [myWords, setMyWords] = useState<Word[]>(() => {
-        try {
-            const savedWords = localStorage.getItem('myWords');
-            return savedWords ? JSON.parse(savedWords) : [];
-        } catch (e) {
-            console.error("Failed to parse myWords from localStorage:", e);
-            localStorage.removeItem('myWords');
-            return [];
-        }
-    });
+    const [myWords, setMyWords] = useState<Word[]>([]);
     const [allWords, setAllWords] = useState<Word[]>([]); 
+
+    // Word packs: the manifest and fetched packs are shared by all profiles, the choice of packs is per profile
+    const [wordPackManifest, setWordPackManifest] = useState<WordPackInfo[] | null>(null);
+    const [loadedWordPacks, setLoadedWordPacks] = useState<Record<string, LoadedWordPack>>({});
+    const [loadingPackIds, setLoadingPackIds] = useState<string[]>([]);
+    const [wordPackPreferences, setWordPackPreferences] = useState<WordPackPreferences>(DEFAULT_WORD_PACK_PREFERENCES);
+    const packRequestsRef = useRef<Map<string, Promise<LoadedWordPack | null>>>(new Map());
     
-    const [wordStats, setWordStats] = useState<Record<string | number, WordStat>>(() => {
-        try {
-            const savedStats = localStorage.getItem('wordStats');
-            return savedStats ? JSON.parse(savedStats) : {};
-        } catch (e) {
-            console.error("Failed to parse wordStats from localStorage:", e);
-            localStorage.removeItem('wordStats');
-            return {};
-        }
-    });
+    const [wordStats, setWordStats] = useState<Record<WordId, WordStat>>({});
+    const [trashedWords, setTrashedWords] = useState<TrashedWord[]>([]);
 
     // History state
-    const [learnedWordsHistory, setLearnedWordsHistory] = useState<{ date: string; count: number }[]>(() => {
-        try {
-            const savedHistory = localStorage.getItem('learnedWordsHistory');
-            return savedHistory ? JSON.parse(savedHistory) : [];
-        } catch (e) {
-            console.error("Failed to parse learnedWordsHistory from localStorage:", e);
-            localStorage.removeItem('learnedWordsHistory');
-            return [];
-        }
-    });
-    const [quizHistory, setQuizHistory] = useState<{ date: string; score: number; total: number }[]>(() => {
-        try {
-            const savedHistory = localStorage.getItem('quizHistory');
-            return savedHistory ? JSON.parse(savedHistory) : [];
-        } catch (e) {
-            console.error("Failed to parse quizHistory from localStorage:", e);
-            localStorage.removeItem('quizHistory');
-            return [];
-        }
-    });
+    const [learnedWordsHistory, setLearnedWordsHistory] = useState<{ date: string; count: number }[]>([]);
+    const [quizHistory, setQuizHistory] = useState<QuizHistoryEntry[]>([]);
+    
+    const [speedChallengeBests, setSpeedChallengeBests] = useState<Record<string, SpeedChallengeRecord[]>>({});
+
+    const [matchingGameHistory, setMatchingGameHistory] = useState<MatchingGameRecord[]>([]);
+
+    const [learnSession, setLearnSession] = useState<LearnSessionSnapshot | null>(null);
+    const [quizSession, setQuizSession] = useState<QuizSessionSnapshot | null>(null);
     
     const [isEditSettingsModalOpen, setIsEditSettingsModalOpen] = useState(false);
 
 
-    // --- Data Persistence Effects ---
+    // First run with profiles: data saved before profiles existed becomes the first profile
+    useEffect(() => {
+        if (profiles !== null) return;
+        let cancelled = false;
+        const detectLegacyProfile = async () => {
+            const legacyStorage = await openAppStorage();
+            const legacySettings = await legacyStorage.loadValue('userSettings');
+            legacyStorage.close();
+            if (cancelled) return;
+            setProfiles(legacySettings ? [{ id: LEGACY_PROFILE_ID, name: legacySettings.username, pin: null, createdAt: new Date().toISOString(), lastUsedAt: null }] : []);
+        };
+        detectLegacyProfile().catch(e => {
+            console.error("Failed to check for data saved before profiles:", e);
+            if (!cancelled) setProfiles([]);
+        });
+        return () => { cancelled = true; };
+    }, [profiles]);
+
+    // PINs saved before they were hashed are replaced by a hash once
+    useEffect(() => {
+        const plainPinProfiles = profiles?.filter(profile => typeof profile.pin === 'string') || [];
+        if (plainPinProfiles.length === 0) return;
+        Promise.all(plainPinProfiles.map(async profile => [profile.id, await createProfilePinHash(profile.pin as string)] as const))
+            .then(hashes => {
+                const hashById = new Map(hashes);
+                setProfiles(prev => prev && prev.map(profile => (typeof profile.pin === 'string' && hashById.has(profile.id) ? { ...profile, pin: hashById.get(profile.id)! } : profile)));
+            })
+            .catch(e => console.error("Failed to hash saved profile PINs:", e));
+    }, [profiles]);
+
     useEffect(() => {
+        if (!profiles) return;
         try {
-            localStorage.setItem('myWords', JSON.stringify(myWords));
+            localStorage.setItem(PROFILE_REGISTRY_KEY, JSON.stringify(profiles));
         } catch (e) {
-            console.error("Failed to save myWords to localStorage:", e);
-            addToast("커스텀 단어 저장에 실패했습니다. (localStorage 오류)", "error");
+            console.error("Failed to save learnerProfiles to localStorage:", e);
+            addToast("프로필 목록 저장에 실패했습니다. (localStorage 오류)", "error");
         }
-    }, [myWords, addToast]);
+    }, [profiles, addToast]);
+
+    // Load the active profile's data
+    useEffect(() => {
+        if (!activeProfileId) return;
+        let cancelled = false;
+        let openedStorage: AppStorage | null = null;
+        const loadSavedData = async () => {
+            openedStorage = await openAppStorage(getProfileNamespace(activeProfileId));
+            const { data, recoveryKeys, canPersist } = await loadMigratedAppData(openedStorage);
+            if (cancelled) return;
+
+            const { records, values } = data;
+            const loadedValues = {
+                trashedWords: purgeExpiredTrash(values.trashedWords || []),
+                learnedWordsHistory: values.learnedWordsHistory || [],
+                quizHistory: values.quizHistory || [],
+                speedChallengeBests: values.speedChallengeBests || {},
+                matchingGameHistory: values.matchingGameHistory || [],
+                learnSession: values.learnSession || null,
+                quizSession: values.quizSession || null,
+                userSettings: values.userSettings || null,
+                syncSettings: values.syncSettings || null,
+                wordPackPreferences: values.wordPackPreferences || DEFAULT_WORD_PACK_PREFERENCES,
+            };
+            savedRecordsRef.current = { myWords: records.myWords, wordStats: records.wordStats };
+            syncedValuesRef.current = { ...loadedValues };
+            setMyWords(records.myWords.map(record => record.value));
+            setWordStats(Object.fromEntries(records.wordStats.map(record => [record.key, record.value])));
+            setTrashedWords(loadedValues.trashedWords);
+            setLearnedWordsHistory(loadedValues.learnedWordsHistory);
+            setQuizHistory(loadedValues.quizHistory);
+            setSpeedChallengeBests(loadedValues.speedChallengeBests);
+            setMatchingGameHistory(loadedValues.matchingGameHistory);
+            setLearnSession(loadedValues.learnSession);
+            setQuizSession(loadedValues.quizSession);
+            setSyncSettings(loadedValues.syncSettings);
+            setWordPackPreferences(loadedValues.wordPackPreferences);
+            setLastSyncedAt(values.syncState?.lastSyncedAt || null);
+            setPendingSyncCount(records.syncOutbox.length);
+            const savedSettings = loadedValues.userSettings;
+            if (savedSettings) {
+                setUserSettings(savedSettings);
+                setCurrentScreen('dashboard');
+            } else {
+                setCurrentScreen('loginSetup');
+            }
+            if (recoveryKeys.length > 0) {
+                addToast(`읽을 수 없는 저장 데이터 ${recoveryKeys.length}건을 삭제하지 않고 복구용 사본으로 보관했습니다.`, "warning");
+            }
+            if (canPersist) {
+                setStorage(openedStorage);
+            } else {
+                addToast("저장된 데이터를 현재 버전으로 변환할 수 없어 이번 학습 내용은 저장되지 않습니다. 기존 데이터는 그대로 보관됩니다.", "error");
+            }
+            setIsDataLoaded(true);
+        };
+        loadSavedData().catch(e => {
+            if (cancelled) return;
+            console.error("Failed to load saved data:", e);
+            addToast("저장된 학습 데이터를 불러오지 못했습니다. 이번 학습 내용은 저장되지 않습니다.", "error");
+            setIsDataLoaded(true);
+        });
+        return () => {
+            cancelled = true;
+            openedStorage?.close();
+        };
+    }, [activeProfileId, addToast]);
+
+
+    // --- Data Persistence Effects ---
+    useEffect(() => {
+        if (!storage) return;
+        const nextRecords = toWordRecords(myWords);
+        const changes = diffStorageRecords(savedRecordsRef.current.myWords, nextRecords);
+        savedRecordsRef.current.myWords = nextRecords;
+        if (!hasRecordChanges(changes)) return;
+        const changedAt = Date.now();
+        [...changes.upserts.map(record => record.key), ...changes.removedKeys].forEach(key => localChangeTimesRef.current.myWords.set(key, changedAt));
+        storage.saveRecords('myWords', changes).then(() => publishChange({
+            type: 'records',
+            store: 'myWords',
+            upserts: changes.upserts,
+            removedKeys: changes.removedKeys,
+            order: changes.orderChanged ? nextRecords.map(record => record.key) : null,
+            changedAt,
+        })).catch(e => {
+            console.error("Failed to save myWords:", e);
+            addToast("커스텀 단어 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, myWords, addToast]);
     
     useEffect(() => {
-        try {
-            localStorage.setItem('wordStats', JSON.stringify(wordStats));
-        } catch (e) {
-            console.error("Failed to save wordStats to localStorage:", e);
-            addToast("단어 통계 저장에 실패했습니다. (localStorage 오류)", "error");
-        }
-    }, [wordStats, addToast]);
+        if (!storage) return;
+        const nextRecords = toStatRecords(wordStats);
+        const changes = diffStorageRecords(savedRecordsRef.current.wordStats, nextRecords);
+        savedRecordsRef.current.wordStats = nextRecords;
+        if (!hasRecordChanges(changes)) return;
+        const changedAt = Date.now();
+        [...changes.upserts.map(record => record.key), ...changes.removedKeys].forEach(key => localChangeTimesRef.current.wordStats.set(key, changedAt));
+        storage.saveRecords('wordStats', changes).then(() => publishChange({
+            type: 'records',
+            store: 'wordStats',
+            upserts: changes.upserts,
+            removedKeys: changes.removedKeys,
+            order: null, // Stats are keyed, so their order does not matter
+            changedAt,
+        })).catch(e => {
+            console.error("Failed to save wordStats:", e);
+            addToast("단어 통계 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, wordStats, addToast]);
     
     useEffect(() => {
-        try {
-            localStorage.setItem('learnedWordsHistory', JSON.stringify(learnedWordsHistory));
-        } catch (e) {
-            console.error("Failed to save learnedWordsHistory to localStorage:", e);
-             addToast("학습 이력 저장에 실패했습니다. (localStorage 오류)", "error");
-        }
-    }, [learnedWordsHistory, addToast]);
+        if (!storage || syncedValuesRef.current.trashedWords === trashedWords) return;
+        storage.saveValue('trashedWords', trashedWords).then(() => publishChange({ type: 'value', key: 'trashedWords', value: trashedWords, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save trashedWords:", e);
+            addToast("휴지통 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, trashedWords, addToast]);
 
     useEffect(() => {
-        try {
-            localStorage.setItem('quizHistory', JSON.stringify(quizHistory));
-        } catch (e) {
-            console.error("Failed to save quizHistory to localStorage:", e);
-            addToast("퀴즈 이력 저장에 실패했습니다. (localStorage 오류)", "error");
-        }
-    }, [quizHistory, addToast]);
+        if (!storage || syncedValuesRef.current.learnedWordsHistory === learnedWordsHistory) return;
+        storage.saveValue('learnedWordsHistory', learnedWordsHistory).then(() => publishChange({ type: 'value', key: 'learnedWordsHistory', value: learnedWordsHistory, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save learnedWordsHistory:", e);
+            addToast("학습 이력 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, learnedWordsHistory, addToast]);
+
+    useEffect(() => {
+        if (!storage || syncedValuesRef.current.quizHistory === quizHistory) return;
+        storage.saveValue('quizHistory', quizHistory).then(() => publishChange({ type: 'value', key: 'quizHistory', value: quizHistory, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save quizHistory:", e);
+            addToast("퀴즈 이력 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, quizHistory, addToast]);
+
+    useEffect(() => {
+        if (!storage || syncedValuesRef.current.speedChallengeBests === speedChallengeBests) return;
+        storage.saveValue('speedChallengeBests', speedChallengeBests).then(() => publishChange({ type: 'value', key: 'speedChallengeBests', value: speedChallengeBests, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save speedChallengeBests:", e);
+            addToast("스피드 챌린지 기록 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, speedChallengeBests, addToast]);
+
+    useEffect(() => {
+        if (!storage || syncedValuesRef.current.matchingGameHistory === matchingGameHistory) return;
+        storage.saveValue('matchingGameHistory', matchingGameHistory).then(() => publishChange({ type: 'value', key: 'matchingGameHistory', value: matchingGameHistory, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save matchingGameHistory:", e);
+            addToast("짝 맞추기 기록 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, matchingGameHistory, addToast]);
     
     useEffect(() => {
-        if (userSettings) {
-             try {
-                localStorage.setItem('userSettings', JSON.stringify(userSettings));
-            } catch (e) {
-                console.error("Failed to save userSettings to localStorage:", e);
-                addToast("사용자 설정 저장에 실패했습니다. (localStorage 오류)", "error");
-            }
-        }
-    }, [userSettings, addToast]);
+        if (!storage || syncedValuesRef.current.learnSession === learnSession) return;
+        storage.saveValue('learnSession', learnSession).then(() => publishChange({ type: 'value', key: 'learnSession', value: learnSession, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save learnSession:", e);
+        });
+    }, [storage, learnSession]);
 
-    // Initialize allWords (sample + myWords)
     useEffect(() => {
-        setAllWords([...sampleWords, ...myWords]);
-    }, [myWords]);
+        if (!storage || syncedValuesRef.current.quizSession === quizSession) return;
+        storage.saveValue('quizSession', quizSession).then(() => publishChange({ type: 'value', key: 'quizSession', value: quizSession, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save quizSession:", e);
+        });
+    }, [storage, quizSession]);
+    
+    useEffect(() => {
+        if (storage && userSettings && syncedValuesRef.current.userSettings !== userSettings) {
+            storage.saveValue('userSettings', userSettings).then(() => publishChange({ type: 'value', key: 'userSettings', value: userSettings, changedAt: Date.now() })).catch(e => {
+                console.error("Failed to save userSettings:", e);
+                addToast("사용자 설정 저장에 실패했습니다. (저장소 오류)", "error");
+            });
+        }
+    }, [storage, userSettings, addToast]);
 
+    useEffect(() => {
+        if (!storage || syncedValuesRef.current.wordPackPreferences === wordPackPreferences) return;
+        storage.saveValue('wordPackPreferences', wordPackPreferences).then(() => publishChange({ type: 'value', key: 'wordPackPreferences', value: wordPackPreferences, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save wordPackPreferences:", e);
+            addToast("단어 팩 설정 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, wordPackPreferences, addToast]);
 
-    // Initial Load Settings
     useEffect(() => {
-        try {
-            const savedSettings = localStorage.getItem('userSettings');
-            if (savedSettings) {
-                const parsedSettings = JSON.parse(savedSettings);
-                setUserSettings(parsedSettings);
-                setCurrentScreen('dashboard');
+        if (!storage || syncedValuesRef.current.syncSettings === syncSettings) return;
+        storage.saveValue('syncSettings', syncSettings).then(() => publishChange({ type: 'value', key: 'syncSettings', value: syncSettings, changedAt: Date.now() })).catch(e => {
+            console.error("Failed to save syncSettings:", e);
+            addToast("동기화 설정 저장에 실패했습니다. (저장소 오류)", "error");
+        });
+    }, [storage, syncSettings, addToast]);
+
+    // Latest state for the sync handlers, which outlive individual renders
+    const latestStateRef = useRef({ activeProfileId, myWords, wordStats, trashedWords, learnedWordsHistory, quizHistory, speedChallengeBests, matchingGameHistory, learnSession, quizSession, userSettings, syncSettings, wordPackPreferences });
+    latestStateRef.current = { activeProfileId, myWords, wordStats, trashedWords, learnedWordsHistory, quizHistory, speedChallengeBests, matchingGameHistory, learnSession, quizSession, userSettings, syncSettings, wordPackPreferences };
+
+    const scheduleServerSync = () => {
+        if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
+        syncTimeoutRef.current = window.setTimeout(() => syncNowRef.current?.(), SYNC_PUSH_DELAY_MS);
+    };
+
+    const queueRemoteChanges = (changes: RemoteChange[]) => {
+        const currentStorage = storageRef.current;
+        if (!currentStorage || changes.length === 0) return;
+        outboxQueueRef.current = outboxQueueRef.current
+            .then(() => appendSyncOutbox(currentStorage, changes))
+            .then(count => {
+                setPendingSyncCount(count);
+                scheduleServerSync();
+            })
+            .catch(e => console.error("Failed to queue changes for the sync server:", e));
+    };
+
+    // A saved change goes to the other tabs and, with server sync on, into the outbox
+    const publishChange = (message: SyncMessage) => {
+        syncChannelRef.current?.postMessage(message);
+        if (latestStateRef.current.syncSettings?.enabled) queueRemoteChanges(toRemoteChanges(message));
+    };
+
+    // Applies a change made in another tab or pulled from the sync server. Other tabs have already written theirs;
+    // server changes are written here first and then passed on to the other tabs.
+    const applyExternalChange = async (message: SyncMessage, fromServer = false) => {
+        if (fromServer) {
+            const currentStorage = storageRef.current;
+            if (!currentStorage) return;
+            if (message.type === 'value') {
+                await currentStorage.saveValue(message.key, message.value);
+            } else if (message.store === 'myWords') {
+                const { storedRecords } = applyRemoteRecordChanges(savedRecordsRef.current.myWords, message, new Map());
+                await currentStorage.saveRecords('myWords', { all: storedRecords, upserts: message.upserts, removedKeys: message.removedKeys, orderChanged: true });
             } else {
-                setCurrentScreen('loginSetup');
+                const { storedRecords } = applyRemoteRecordChanges(savedRecordsRef.current.wordStats, message, new Map());
+                await currentStorage.saveRecords('wordStats', { all: storedRecords, upserts: message.upserts, removedKeys: message.removedKeys, orderChanged: true });
             }
-        } catch (e) {
-            console.error("Failed to parse userSettings from localStorage:", e);
-            localStorage.removeItem('userSettings');
-            setCurrentScreen('loginSetup');
         }
-    }, []);
+
+        if (message.type === 'records') {
+            const localChangeTimes = localChangeTimesRef.current[message.store];
+            if (message.store === 'myWords') {
+                const { records, storedRecords } = applyRemoteRecordChanges(toWordRecords(latestStateRef.current.myWords), message, localChangeTimes);
+                savedRecordsRef.current.myWords = storedRecords;
+                setMyWords(records.map(record => record.value));
+            } else {
+                const { records, storedRecords } = applyRemoteRecordChanges(toStatRecords(latestStateRef.current.wordStats), message, localChangeTimes);
+                savedRecordsRef.current.wordStats = storedRecords;
+                setWordStats(Object.fromEntries(records.map(record => [record.key, record.value])));
+            }
+        } else {
+            const valueSetters: Partial<Record<StoredValueKey, (value: any) => void>> = {
+                trashedWords: setTrashedWords,
+                learnedWordsHistory: setLearnedWordsHistory,
+                quizHistory: setQuizHistory,
+                speedChallengeBests: setSpeedChallengeBests,
+                matchingGameHistory: setMatchingGameHistory,
+                learnSession: setLearnSession,
+                quizSession: setQuizSession,
+                userSettings: setUserSettings,
+                syncSettings: setSyncSettings,
+                wordPackPreferences: setWordPackPreferences,
+            };
+            const setValue = valueSetters[message.key];
+            if (!setValue) return;
+            const localValue = latestStateRef.current[message.key as keyof typeof latestStateRef.current];
+            const merge = SYNC_VALUE_MERGERS[message.key] as ((local: unknown, incoming: unknown) => unknown) | undefined;
+            const merged = merge && localValue && message.value ? merge(localValue, message.value) : message.value;
+            // When the merge adds nothing the incoming value is used as is; otherwise the combined value is saved and posted back
+            const hasLocalAdditions = merged !== message.value && JSON.stringify(merged) !== JSON.stringify(message.value);
+            syncedValuesRef.current[message.key] = message.value;
+            setValue(hasLocalAdditions ? merged : message.value);
+        }
+
+        if (fromServer) syncChannelRef.current?.postMessage(message);
+    };
+
+    // Live updates from other tabs showing the same profile
+    useEffect(() => {
+        if (!storage || !activeProfileId) return;
+        const channel = openSyncChannel(activeProfileId);
+        if (!channel) return;
+        channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+            applyExternalChange(event.data).catch(e => console.error("Failed to apply a change from another tab:", e));
+        };
+        syncChannelRef.current = channel;
+        return () => {
+            channel.close();
+            syncChannelRef.current = null;
+        };
+    }, [storage, activeProfileId]);
+
+    // Server sync: push the outbox, then pull what other devices changed since the last pull
+    useEffect(() => {
+        if (!storage || !activeProfileId || !syncSettings?.enabled) {
+            setSyncStatus('disabled');
+            return;
+        }
+        let stopped = false;
+        let isRunning = false;
+
+        const syncWithServer = async () => {
+            await outboxQueueRef.current; // Changes queued before this run go out with it
+            const syncState = (await storage.loadValue('syncState')) || createSyncState();
+            const outbox = await storage.loadRecords('syncOutbox');
+            if (outbox.length > 0) {
+                await pushRemoteChanges(syncSettings, syncState.deviceId, compactRemoteChanges(outbox.map(record => record.value)));
+                const removal = outboxQueueRef.current.then(() => removeFromSyncOutbox(storage, outbox.map(record => record.key)));
+                outboxQueueRef.current = removal;
+                setPendingSyncCount(await removal);
+            }
+            const { changes, serverTime } = await pullRemoteChanges(syncSettings, syncState.cursor);
+            for (const message of toSyncMessages(changes.filter(change => change.deviceId !== syncState.deviceId))) {
+                if (stopped) return;
+                await applyExternalChange(message, true);
+            }
+            const syncedAt = new Date().toISOString();
+            await storage.saveValue('syncState', { ...syncState, cursor: serverTime, lastSyncedAt: syncedAt });
+            if (!stopped) setLastSyncedAt(syncedAt);
+        };
+
+        const runSync = async () => {
+            if (isRunning || stopped) return;
+            if (!navigator.onLine) {
+                setSyncStatus('offline');
+                return;
+            }
+            isRunning = true;
+            try {
+                const didSync = await runWithSyncLock(activeProfileId, () => {
+                    setSyncStatus('syncing');
+                    return syncWithServer();
+                });
+                if (stopped) return;
+                if (didSync) {
+                    setSyncStatus('synced');
+                } else {
+                    // The other tab empties the shared outbox and records its sync time, so both are read back here
+                    const [outbox, syncState] = await Promise.all([storage.loadRecords('syncOutbox'), storage.loadValue('syncState')]);
+                    if (stopped) return;
+                    setSyncStatus('otherTab');
+                    setPendingSyncCount(outbox.length);
+                    setLastSyncedAt(syncState?.lastSyncedAt ?? null);
+                }
+            } catch (e) {
+                console.error("Server sync failed:", e);
+                if (!stopped) setSyncStatus(navigator.onLine ? 'error' : 'offline');
+            } finally {
+                isRunning = false;
+            }
+        };
+
+        const handleOnline = () => { runSync(); };
+        const handleOffline = () => setSyncStatus('offline');
+        syncNowRef.current = handleOnline;
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        const intervalId = window.setInterval(runSync, SYNC_INTERVAL_MS);
+        runSync();
+        return () => {
+            stopped = true;
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+            clearInterval(intervalId);
+            if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
+            syncNowRef.current = null;
+        };
+    }, [storage, activeProfileId, syncSettings]);
+
+    // Keep the active profile's registry entry in step with its settings; a new profile is registered on first setup
+    useEffect(() => {
+        if (!activeProfileId || !userSettings) return;
+        setProfiles(prev => {
+            const existing = prev?.find(profile => profile.id === activeProfileId);
+            if (existing) {
+                return existing.name === userSettings.username ? prev : prev!.map(profile => profile.id === activeProfileId ? { ...profile, name: userSettings.username } : profile);
+            }
+            const now = new Date().toISOString();
+            return [...(prev || []), { id: activeProfileId, name: userSettings.username, pin: null, createdAt: now, lastUsedAt: now }];
+        });
+    }, [activeProfileId, userSettings]);
+
+    // --- Word Packs ---
+    useEffect(() => {
+        fetchWordPackManifest().then(setWordPackManifest).catch(e => {
+            console.error("Failed to load the word pack manifest:", e);
+            addToast("단어 팩 목록을 불러오지 못했습니다. 기본 단어 없이 나의 단어만 사용할 수 있습니다.", "error");
+            setWordPackManifest([]);
+        });
+    }, [addToast]);
+
+    // Fetches each pack once; a failed pack can be retried by opening a screen that needs it again.
+    // Resolves with the requested packs once they are loaded, null for each pack that failed.
+    const loadWordPacks = useCallback((packs: WordPackInfo[]) => Promise.all(packs.map(pack => {
+        const pending = packRequestsRef.current.get(pack.id);
+        if (pending) return pending;
+        setLoadingPackIds(prev => [...prev, pack.id]);
+        const request = fetchWordPack(pack)
+            .then(loaded => {
+                setLoadedWordPacks(prev => ({ ...prev, [pack.id]: loaded }));
+                return loaded;
+            })
+            .catch(e => {
+                console.error(`Failed to load word pack ${pack.id}:`, e);
+                packRequestsRef.current.delete(pack.id);
+                addToast(`'${pack.title}' 단어 팩을 불러오지 못했습니다.`, "error");
+                return null;
+            })
+            .finally(() => setLoadingPackIds(prev => prev.filter(id => id !== pack.id)));
+        packRequestsRef.current.set(pack.id, request);
+        return request;
+    })), [addToast]);
+
+    const requiredWordPacks = useMemo(
+        () => (wordPackManifest && userSettings ? getRequiredWordPacks(wordPackManifest, wordPackPreferences, currentScreen, userSettings.grade) : []),
+        [wordPackManifest, wordPackPreferences, currentScreen, userSettings]
+    );
+    const isLoadingRequiredPacks = requiredWordPacks.some(pack => loadingPackIds.includes(pack.id));
+
+    useEffect(() => {
+        loadWordPacks(requiredWordPacks);
+    }, [requiredWordPacks, loadWordPacks]);
+
+    const packWords = useMemo(
+        () => (wordPackManifest || []).filter(pack => isWordPackEnabled(pack, wordPackPreferences)).flatMap(pack => loadedWordPacks[pack.id]?.words || []),
+        [wordPackManifest, wordPackPreferences, loadedWordPacks]
+    );
+
+    // Initialize allWords (enabled packs + myWords)
+    useEffect(() => {
+        setAllWords([...packWords, ...myWords]);
+    }, [packWords, myWords]);
+
+    // A pack version this profile has not seen yet may have renamed entries; their stats follow them
+    useEffect(() => {
+        if (!storage) return;
+        const updatedPacks = Object.entries(loadedWordPacks).filter(([packId, pack]) => (wordPackPreferences.seenVersions[packId] ?? 0) < pack.version);
+        if (updatedPacks.length === 0) return;
+        const movedIds = Object.assign({}, ...updatedPacks.map(([, pack]) => pack.movedIds));
+        setWordStats(prev => applyMovedWordIds(prev, movedIds));
+        setWordPackPreferences(prev => ({
+            ...prev,
+            seenVersions: { ...prev.seenVersions, ...Object.fromEntries(updatedPacks.map(([packId, pack]) => [packId, pack.version])) },
+        }));
+        updatedPacks.filter(([packId]) => wordPackPreferences.seenVersions[packId] !== undefined).forEach(([packId, pack]) => {
+            const title = wordPackManifest?.find(info => info.id === packId)?.title || packId;
+            addToast(`'${title}' 단어 팩이 v${pack.version}(으)로 업데이트되었습니다. 학습 기록은 그대로 유지됩니다.`, "info");
+        });
+    }, [storage, loadedWordPacks, wordPackPreferences, wordPackManifest, addToast]);
+
+    const handleToggleWordPack = (packId: string, enabled: boolean) => {
+        setWordPackPreferences(prev => ({
+            ...prev,
+            disabledPackIds: enabled ? prev.disabledPackIds.filter(id => id !== packId) : [...prev.disabledPackIds, packId],
+        }));
+    };
 
     // --- Navigation ---
     const handleNavigate = (screen: AppScreen, params: any = null) => {
@@ -3036,6 +7708,85 @@ const App = (): React.ReactElement => {
         setScreenParams(params);
     };
 
+    // --- Profile Management ---
+    const handleSelectProfile = (profileId: string) => {
+        setProfiles(prev => prev && prev.map(profile => profile.id === profileId ? { ...profile, lastUsedAt: new Date().toISOString() } : profile));
+        setActiveProfileId(profileId);
+    };
+
+    const handleCreateProfile = () => {
+        setCurrentScreen('loginSetup');
+        setActiveProfileId(createProfileId());
+    };
+
+    // Clears everything in memory; persistence stops before the next profile's data arrives
+    const handleSwitchProfile = () => {
+        if (activeProfileId && !profiles?.some(profile => profile.id === activeProfileId)) {
+            // A new profile abandoned before setup leaves nothing behind
+            deleteAppStorage(getProfileNamespace(activeProfileId)).catch(e => console.error("Failed to remove abandoned profile data:", e));
+        }
+        setStorage(null);
+        setIsDataLoaded(false);
+        setActiveProfileId(null);
+        savedRecordsRef.current = { myWords: [], wordStats: [] };
+        syncedValuesRef.current = {};
+        localChangeTimesRef.current = { myWords: new Map(), wordStats: new Map() };
+        outboxQueueRef.current = Promise.resolve();
+        setSyncSettings(null);
+        setWordPackPreferences(DEFAULT_WORD_PACK_PREFERENCES);
+        setPendingSyncCount(0);
+        setLastSyncedAt(null);
+        setUserSettings(null);
+        setMyWords([]);
+        setWordStats({});
+        setTrashedWords([]);
+        setLearnedWordsHistory([]);
+        setQuizHistory([]);
+        setSpeedChallengeBests({});
+        setMatchingGameHistory([]);
+        setLearnSession(null);
+        setQuizSession(null);
+        setIsEditSettingsModalOpen(false);
+        setCurrentScreen('loginSetup');
+        setScreenParams(null);
+    };
+
+    const handleRenameProfile = async (profileId: string, name: string) => {
+        setProfiles(prev => prev && prev.map(profile => profile.id === profileId ? { ...profile, name } : profile));
+        // The name is also the username inside that profile's settings
+        let profileStorage: AppStorage | null = null;
+        try {
+            profileStorage = await openAppStorage(getProfileNamespace(profileId));
+            const savedSettings = await profileStorage.loadValue('userSettings');
+            if (savedSettings) await profileStorage.saveValue('userSettings', { ...savedSettings, username: name });
+            addToast(`프로필 이름을 '${name}'(으)로 변경했습니다.`, "success");
+        } catch (e) {
+            console.error("Failed to rename profile:", e);
+            addToast("프로필 설정에 새 이름을 저장하지 못했습니다.", "error");
+        } finally {
+            profileStorage?.close();
+        }
+    };
+
+    const handleSetProfilePin = (profileId: string, pin: ProfilePinHash | null) => {
+        savePinLockout(profileId, null);
+        setProfiles(prev => prev && prev.map(profile => profile.id === profileId ? { ...profile, pin } : profile));
+        addToast(pin ? "PIN을 설정했습니다." : "PIN을 해제했습니다.", "success");
+    };
+
+    const handleDeleteProfile = async (profileId: string) => {
+        const profile = profiles?.find(p => p.id === profileId);
+        setProfiles(prev => prev && prev.filter(p => p.id !== profileId));
+        savePinLockout(profileId, null);
+        try {
+            await deleteAppStorage(getProfileNamespace(profileId));
+            addToast(`'${profile?.name || ''}' 프로필을 삭제했습니다.`, "success");
+        } catch (e) {
+            console.error("Failed to delete profile data:", e);
+            addToast("프로필은 목록에서 지웠지만 저장된 데이터를 모두 삭제하지는 못했습니다.", "warning");
+        }
+    };
+
     // --- User Settings Management ---
     const handleSetupComplete = (settings: UserSettings) => {
         setUserSettings(settings);
@@ -3048,6 +7799,98 @@ const App = (): React.ReactElement => {
         setIsEditSettingsModalOpen(false);
         addToast("설정이 성공적으로 저장되었습니다.", "success");
     };
+
+    // --- Backup & Restore ---
+    // Read through the ref so a restore that waited for word packs merges into the latest data
+    const getBackupData = (): BackupData => {
+        const { myWords, wordStats, learnedWordsHistory, quizHistory, speedChallengeBests, matchingGameHistory, userSettings } = latestStateRef.current;
+        return {
+            myWords,
+            wordStats: wordStats as Record<string, WordStat>,
+            learnedWordsHistory,
+            quizHistory,
+            speedChallengeBests,
+            matchingGameHistory,
+            userSettings,
+        };
+    };
+
+    const handleExportBackup = () => {
+        const fileName = `단어학습_백업_${userSettings?.username || '사용자'}_${getTodayDateString()}.json`;
+        downloadTextFile(JSON.stringify(createBackupFile(getBackupData()), null, 2), fileName, 'application/json');
+        addToast("백업 파일을 내보냈습니다.", "success");
+    };
+
+    const handleRestoreBackup = async (backup: BackupData, mode: RestoreMode) => {
+        // Merging matches custom words against every enabled pack, not just the packs the current screen loaded
+        let builtInWords: Word[] = [];
+        if (mode === 'merge') {
+            const enabledPacks = wordPackManifest && userSettings ? getRequiredWordPacks(wordPackManifest, wordPackPreferences, 'allWords', userSettings.grade) : [];
+            setGlobalLoading(true);
+            const loadedPacks = await loadWordPacks(enabledPacks);
+            setGlobalLoading(false);
+            if (loadedPacks.some(pack => !pack)) {
+                addToast("단어 팩을 모두 불러오지 못해 백업을 합치지 않았습니다. 잠시 후 다시 시도해주세요.", "error");
+                return;
+            }
+            builtInWords = loadedPacks.flatMap(pack => pack?.words || []);
+        }
+        const restored = mode === 'merge' ? mergeBackupData(getBackupData(), backup, builtInWords) : backup;
+        setMyWords(restored.myWords);
+        setWordStats(restored.wordStats);
+        setLearnedWordsHistory(restored.learnedWordsHistory);
+        setQuizHistory(restored.quizHistory);
+        setSpeedChallengeBests(restored.speedChallengeBests);
+        setMatchingGameHistory(restored.matchingGameHistory);
+        if (mode === 'replace') {
+            // Saved sessions point at words that may no longer exist
+            setLearnSession(null);
+            setQuizSession(null);
+            if (restored.userSettings) setUserSettings(restored.userSettings);
+        }
+        setIsEditSettingsModalOpen(false);
+        handleNavigate('dashboard');
+        addToast(mode === 'merge' ? "백업 데이터를 현재 데이터와 합쳤습니다." : "백업 데이터로 복원했습니다.", "success");
+    };
+
+    // --- Server Sync ---
+    // Linking to a new server or account starts over: everything is pulled again and all local data is offered to it
+    const handleSaveSyncSettings = async (nextSettings: SyncSettings) => {
+        if (!storage) {
+            addToast("저장소를 사용할 수 없어 서버 동기화를 설정할 수 없습니다.", "error");
+            return;
+        }
+        const isNewLink = nextSettings.enabled && (!syncSettings?.enabled || syncSettings.endpoint !== nextSettings.endpoint || syncSettings.accountId !== nextSettings.accountId);
+        try {
+            if (isNewLink) {
+                const syncState = (await storage.loadValue('syncState')) || createSyncState();
+                await storage.saveValue('syncState', { ...syncState, cursor: 0, lastSyncedAt: null });
+                const { myWords: currentWords, wordStats: currentStats, ...currentValues } = latestStateRef.current;
+                const snapshot = createSyncSnapshot(currentWords, currentStats, currentValues);
+                const relink = outboxQueueRef.current.then(async () => {
+                    const previous = await storage.loadRecords('syncOutbox');
+                    await removeFromSyncOutbox(storage, previous.map(record => record.key));
+                    return appendSyncOutbox(storage, snapshot);
+                });
+                outboxQueueRef.current = relink;
+                setPendingSyncCount(await relink);
+                setLastSyncedAt(null);
+            }
+            setSyncSettings(nextSettings);
+            addToast(nextSettings.enabled ? "서버 동기화 설정을 저장했습니다." : "서버 동기화를 껐습니다.", "success");
+        } catch (e) {
+            console.error("Failed to set up server sync:", e);
+            addToast("서버 동기화 설정에 실패했습니다. (저장소 오류)", "error");
+        }
+    };
+
+    const handleSyncNow = () => {
+        if (!syncNowRef.current) {
+            addToast("서버 동기화가 꺼져 있습니다. 설정에서 켤 수 있습니다.", "info");
+            return;
+        }
+        syncNowRef.current();
+    };
     
     // --- Word Management ---
     const handleSaveCustomWord = async (wordData: Partial<Word>, gradeLevelForNew: string = userSettings?.grade || 'middle1'): Promise<boolean> => {
@@ -3094,7 +7937,7 @@ const App = (): React.ReactElement => {
                 }
                 
                 finalWordData = {
-                    id: Date.now().toString(), // Simple unique ID for custom words
+                    id: createWordId(),
                     term: fetchedDetails?.term?.trim() || term?.trim() || "N/A",
                     pronunciation: fetchedDetails?.pronunciation || pronunciation,
                     partOfSpeech: fetchedDetails?.partOfSpeech?.trim() || partOfSpeech?.trim() || "N/A",
@@ -3131,7 +7974,7 @@ const App = (): React.ReactElement => {
         }
     };
     
-    const handleDeleteCustomWord = (wordId: number | string) => {
+    const handleDeleteCustomWord = (wordId: WordId) => {
         const wordToDelete = myWords.find(w => w.id === wordId);
         if (!wordToDelete) {
             addToast("삭제할 단어를 찾지 못했습니다.", "error");
@@ -3143,10 +7986,53 @@ const App = (): React.ReactElement => {
             delete newStats[wordId];
             return newStats;
         });
-        addToast(`'${wordToDelete.term}' 단어가 삭제되었습니다.`, "success");
+        const trashedItem: TrashedWord = { word: wordToDelete, stat: wordStats[wordId] || null, deletedAt: new Date().toISOString() };
+        setTrashedWords(prev => [...prev.filter(item => item.word.id !== wordId), trashedItem]);
+        const deletedInProfileId = activeProfileId;
+        addToast(`'${wordToDelete.term}' 단어를 휴지통으로 옮겼습니다.`, "success", {
+            label: "실행 취소",
+            onClick: () => {
+                // The toast outlives a profile switch; the word must not be restored into another learner's list
+                if (latestStateRef.current.activeProfileId !== deletedInProfileId) {
+                    addToast("다른 프로필로 바뀌어 삭제를 취소할 수 없습니다. 휴지통에서 복원해주세요.", "warning");
+                    return;
+                }
+                restoreFromTrash(trashedItem);
+                addToast(`'${wordToDelete.term}' 단어 삭제를 취소했습니다.`, "info");
+            },
+        });
+    };
+
+    // Only functional updates, since the undo toast calls this from an older render
+    const restoreFromTrash = (item: TrashedWord) => {
+        const wordId = item.word.id;
+        setTrashedWords(prev => prev.filter(trashed => trashed.word.id !== wordId));
+        setMyWords(prev => (prev.some(w => w.id === wordId) ? prev : [...prev, item.word]));
+        if (item.stat) setWordStats(prev => ({ ...prev, [wordId]: item.stat! }));
+    };
+
+    const handleRestoreTrashedWord = (wordId: WordId) => {
+        const item = trashedWords.find(trashed => trashed.word.id === wordId);
+        if (!item) return;
+        if (allWords.some(w => w.term.toLowerCase() === item.word.term.toLowerCase())) {
+            addToast(`"${item.word.term}" 단어가 이미 목록에 있어 복원할 수 없습니다. 기존 단어를 먼저 삭제해주세요.`, "warning");
+            return;
+        }
+        restoreFromTrash(item);
+        addToast(`'${item.word.term}' 단어를 복원했습니다.`, "success");
+    };
+
+    const handlePurgeTrashedWord = (wordId: WordId) => {
+        setTrashedWords(prev => prev.filter(item => item.word.id !== wordId));
+        addToast("단어를 영구 삭제했습니다.", "success");
+    };
+
+    const handleEmptyTrash = () => {
+        setTrashedWords([]);
+        addToast("휴지통을 비웠습니다.", "success");
     };
 
-    const updateWordStat = (wordId: string | number, newStatData: Partial<Omit<WordStat, 'id'>>) => {
+    const updateWordStat = (wordId: WordId, newStatData: Partial<Omit<WordStat, 'id'>>) => {
         setWordStats(prev => ({
             ...prev,
             [wordId]: {
@@ -3157,10 +8043,29 @@ const App = (): React.ReactElement => {
         }));
     };
     
+    const handleWordReviewed = (wordId: WordId, quality: RecallQuality, direction?: CardDirection) => {
+        setWordStats(prev => {
+            const currentStat = prev[wordId] || getDefaultWordStat(wordId);
+            const updatedStat: WordStat = { ...currentStat, ...scheduleReview(currentStat, quality), id: wordId };
+            if (direction) {
+                const directionStat = currentStat.directionStats[direction];
+                updatedStat.directionStats = {
+                    ...currentStat.directionStats,
+                    [direction]: {
+                        reviewCount: directionStat.reviewCount + 1,
+                        failedCount: directionStat.failedCount + (quality < 3 ? 1 : 0),
+                        lastReviewed: updatedStat.lastReviewed,
+                    },
+                };
+            }
+            return { ...prev, [wordId]: updatedStat };
+        });
+    };
+    
     // --- Learning & Quiz Callbacks ---
-    const handleWordLearned = (wordId: number | string, isQuickReview: boolean = false) => {
+    const handleWordLearned = (wordId: WordId, quality: RecallQuality, isQuickReview: boolean = false, direction: CardDirection = 'enToKo') => {
         const today = getTodayDateString();
-        updateWordStat(wordId, { lastReviewed: new Date().toISOString() });
+        handleWordReviewed(wordId, quality, direction);
 
         if (!isQuickReview) {
             setLearnedWordsHistory(prev => {
@@ -3176,12 +8081,25 @@ const App = (): React.ReactElement => {
         }
     };
 
-    const handleQuizComplete = (finalScore: number, totalQuestions: number, incorrectWordsFromQuiz: Word[]) => {
+    const handleQuizComplete = (finalScore: number, totalQuestions: number, incorrectWordsFromQuiz: Word[], mode: QuizMode, details: QuizAttemptDetails) => {
         const today = getTodayDateString();
-        setQuizHistory(prev => [...prev, { date: today, score: finalScore, total: totalQuestions }]);
+        setQuizHistory(prev => [...prev, { date: today, score: finalScore, total: totalQuestions, mode, ...details }]);
         addToast(`퀴즈 완료! ${totalQuestions} 문제 중 ${finalScore}개를 맞혔습니다.`, "success");
     };
 
+    const handleMatchingGameComplete = (record: MatchingGameRecord) => {
+        setMatchingGameHistory(prev => [...prev, record]);
+    };
+
+    const handleSpeedChallengeComplete = (grade: string, record: SpeedChallengeRecord) => {
+        setSpeedChallengeBests(prev => ({
+            ...prev,
+            [grade]: [...(prev[grade] || []), record]
+                .sort((a, b) => b.points - a.points)
+                .slice(0, SPEED_CHALLENGE_BESTS_PER_GRADE),
+        }));
+    };
+
 
     const learnedWordsTodayCount = useMemo(() => {
         const today = getTodayDateString();
@@ -3193,11 +8111,27 @@ const App = (): React.ReactElement => {
          return learnedWordsHistory.reduce((sum, item) => sum + item.count, 0);
     }, [learnedWordsHistory]);
 
+    const dueWordsCount = useMemo(() => {
+        return userSettings ? getDueWords(allWords, wordStats, userSettings.grade).length : 0;
+    }, [allWords, wordStats, userSettings]);
+
 
     // Render current screen
     const renderScreen = () => {
+        if (!activeProfileId) {
+            return profiles === null
+                ? <p className="p-8 text-center text-slate-400">프로필을 불러오는 중...</p>
+                : <ProfilePickerScreen profiles={profiles} onSelectProfile={handleSelectProfile} onCreateProfile={handleCreateProfile} onRenameProfile={handleRenameProfile} onSetProfilePin={handleSetProfilePin} onDeleteProfile={handleDeleteProfile} addToast={addToast} />;
+        }
+        if (!isDataLoaded) {
+            return <p className="p-8 text-center text-slate-400">학습 데이터를 불러오는 중...</p>;
+        }
         if (!userSettings && currentScreen !== 'loginSetup') {
-            return <LoginSetupScreen onNavigate={handleNavigate} onSetupComplete={handleSetupComplete} addToast={addToast} />;
+            return <LoginSetupScreen onNavigate={handleNavigate} onSetupComplete={handleSetupComplete} onBackToProfiles={profiles?.length ? handleSwitchProfile : undefined} addToast={addToast} />;
+        }
+        
+        if (userSettings && isLoadingRequiredPacks) {
+            return <p className="p-8 text-center text-slate-400">단어 팩을 불러오는 중...</p>;
         }
         
         const screenProps: ScreenProps = { 
@@ -3211,21 +8145,29 @@ const App = (): React.ReactElement => {
 
         switch (currentScreen) {
             case 'loginSetup':
-                return <LoginSetupScreen onNavigate={handleNavigate} onSetupComplete={handleSetupComplete} addToast={addToast} />;
+                return <LoginSetupScreen onNavigate={handleNavigate} onSetupComplete={handleSetupComplete} onBackToProfiles={profiles?.length ? handleSwitchProfile : undefined} addToast={addToast} />;
             case 'dashboard':
-                return <DashboardScreen {...screenProps} myWords={myWords} learnedWordsToday={learnedWordsTodayCount} totalWordsLearned={totalWordsLearnedOverall} />;
+                return <DashboardScreen {...screenProps} myWords={myWords} learnedWordsToday={learnedWordsTodayCount} totalWordsLearned={totalWordsLearnedOverall} dueCount={dueWordsCount} learnSession={learnSession} quizSession={quizSession} />;
             case 'learnWords':
-                return <LearnWordsScreen {...screenProps} words={allWords} wordStats={wordStats} onWordLearned={handleWordLearned} updateWordStat={updateWordStat} />;
+                return <LearnWordsScreen {...screenProps} words={allWords} wordStats={wordStats} onWordLearned={handleWordLearned} updateWordStat={updateWordStat} reviewWordIds={screenParams?.reviewWordIds} resumeSession={screenParams?.resumeSession} onSessionChange={setLearnSession} />;
+            case 'review':
+                return <ReviewScreen {...screenProps} allWords={allWords} wordStats={wordStats} />;
             case 'quiz':
-                return <QuizScreen {...screenProps} words={allWords} wordStats={wordStats} onQuizComplete={handleQuizComplete} updateWordStat={updateWordStat} />;
+                return <QuizScreen {...screenProps} words={allWords} wordStats={wordStats} onQuizComplete={handleQuizComplete} updateWordStat={updateWordStat} onWordReviewed={handleWordReviewed} resumeSession={screenParams?.resumeSession} presetConfig={screenParams?.quizConfig} onSessionChange={setQuizSession} speedChallengeBests={speedChallengeBests} onSpeedChallengeComplete={handleSpeedChallengeComplete} />;
+            case 'wrongNotes':
+                return <WrongNotesScreen {...screenProps} allWords={allWords} wordStats={wordStats} />;
+            case 'printTest':
+                return <PrintTestScreen {...screenProps} allWords={allWords} wordStats={wordStats} />;
+            case 'matchingGame':
+                return <MatchingGameScreen {...screenProps} allWords={allWords} wordStats={wordStats} updateWordStat={updateWordStat} matchingGameHistory={matchingGameHistory} onMatchingGameComplete={handleMatchingGameComplete} />;
             case 'allWords':
                 return <AllWordsScreen {...screenProps} allWords={allWords} wordStats={wordStats} onDeleteCustomWord={handleDeleteCustomWord} onSaveCustomWord={handleSaveCustomWord} updateWordStat={updateWordStat} />;
             case 'stats':
                 return <StatsScreen {...screenProps} learnedWordsHistory={learnedWordsHistory} quizHistory={quizHistory} allWords={allWords} wordStats={wordStats} />;
             case 'manageWords':
-                 return <ManageWordsScreen {...screenProps} myWords={myWords} allWords={allWords} wordStats={wordStats} onSaveCustomWord={handleSaveCustomWord} onDeleteCustomWord={handleDeleteCustomWord} updateWordStat={updateWordStat} />;
+                 return <ManageWordsScreen {...screenProps} myWords={myWords} allWords={allWords} wordStats={wordStats} onSaveCustomWord={handleSaveCustomWord} onDeleteCustomWord={handleDeleteCustomWord} updateWordStat={updateWordStat} trashedWords={trashedWords} onRestoreTrashedWord={handleRestoreTrashedWord} onPurgeTrashedWord={handlePurgeTrashedWord} onEmptyTrash={handleEmptyTrash} wordPackManifest={wordPackManifest} loadedWordPacks={loadedWordPacks} loadingPackIds={loadingPackIds} wordPackPreferences={wordPackPreferences} onToggleWordPack={handleToggleWordPack} />;
             default:
-                return <LoginSetupScreen onNavigate={handleNavigate} onSetupComplete={handleSetupComplete} addToast={addToast} />;
+                return <LoginSetupScreen onNavigate={handleNavigate} onSetupComplete={handleSetupComplete} onBackToProfiles={profiles?.length ? handleSwitchProfile : undefined} addToast={addToast} />;
         }
     };
 
@@ -3233,7 +8175,7 @@ const App = (): React.ReactElement => {
 
     return (
         <div className={`w-full h-full ${isDarkMode ? 'bg-slate-800' : 'bg-white'} transition-colors duration-300`}>
-            {userSettings && <NavBar currentScreen={currentScreen} onNavigate={handleNavigate} userSettings={userSettings} onOpenSettings={() => setIsEditSettingsModalOpen(true)} />}
+            {userSettings && <NavBar currentScreen={currentScreen} onNavigate={handleNavigate} userSettings={userSettings} onOpenSettings={() => setIsEditSettingsModalOpen(true)} onSwitchProfile={handleSwitchProfile} dueCount={dueWordsCount} syncStatus={syncStatus} pendingSyncCount={pendingSyncCount} onSyncNow={handleSyncNow} />}
             <main className="flex-grow overflow-y-auto">
                 {renderScreen()}
             </main>
@@ -3244,6 +8186,15 @@ const App = (): React.ReactElement => {
                     currentSettings={userSettings}
                     onSave={handleSaveSettings}
                     onCancel={() => setIsEditSettingsModalOpen(false)}
+                    onExportBackup={handleExportBackup}
+                    onRestoreBackup={handleRestoreBackup}
+                    syncSettings={syncSettings}
+                    defaultSyncAccountId={activeProfileId || ''}
+                    syncStatus={syncStatus}
+                    pendingSyncCount={pendingSyncCount}
+                    lastSyncedAt={lastSyncedAt}
+                    onSaveSyncSettings={handleSaveSyncSettings}
+                    onSyncNow={handleSyncNow}
                     addToast={addToast}
                 />
             )}
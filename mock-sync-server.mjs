@@ -0,0 +1,136 @@
+// Minimal in-memory sync server for developing and testing the app's optional server sync.
+// Run with `npm run mock-sync` and enter http://localhost:8787 as the server address in the app's settings.
+// PORT changes the port; SYNC_TOKEN makes the server require `Authorization: Bearer <token>`.
+//
+// Protocol (per account, all JSON):
+//   POST /accounts/:accountId/changes  { changes: Change[] }     -> { accepted, serverTime }
+//   GET  /accounts/:accountId/changes?since=<serverTime>          -> { changes: Change[], serverTime }
+//   DELETE /accounts/:accountId                                   -> 204, forgets the account
+//   GET  /health                                                  -> { ok: true }
+// A change is { id, store, key, value, changedAt, deviceId }. The server keeps the latest change per store/key,
+// ignoring changes older than the one it has, and stamps each accepted change with an increasing serverTime.
+// Pulls return every kept change with a serverTime after `since`; clients store the returned serverTime as their cursor.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const accounts = new Map(); // accountId -> Map(`${store}/${key}` -> change)
+let lastServerTime = 0;
+
+// Strictly increasing, so two changes accepted in the same millisecond still get distinct cursors
+const nextServerTime = () => {
+    lastServerTime = Math.max(Date.now(), lastServerTime + 1);
+    return lastServerTime;
+};
+
+const isValidChange = (change) => change && typeof change === 'object'
+    && typeof change.id === 'string'
+    && typeof change.store === 'string'
+    && typeof change.key === 'string'
+    && typeof change.changedAt === 'number'
+    && 'value' in change;
+
+const sendJson = (response, status, body) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+};
+
+const readJsonBody = (request) => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    request.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new Error('Request body too large'));
+            request.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    request.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch (error) {
+            reject(error);
+        }
+    });
+    request.on('error', reject);
+});
+
+const acceptChanges = (accountId, changes) => {
+    if (!accounts.has(accountId)) accounts.set(accountId, new Map());
+    const entries = accounts.get(accountId);
+    let accepted = 0;
+    changes.forEach(change => {
+        const entryKey = `${change.store}/${change.key}`;
+        const existing = entries.get(entryKey);
+        if (existing && existing.changedAt >= change.changedAt) return;
+        entries.set(entryKey, { ...change, serverTime: nextServerTime() });
+        accepted += 1;
+    });
+    return accepted;
+};
+
+const server = http.createServer(async (request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    if (request.method === 'OPTIONS') {
+        response.writeHead(204);
+        response.end();
+        return;
+    }
+
+    const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+    if (url.pathname === '/health') {
+        sendJson(response, 200, { ok: true });
+        return;
+    }
+    if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+        sendJson(response, 401, { error: 'Unauthorized' });
+        return;
+    }
+
+    const match = url.pathname.match(/^\/accounts\/([^/]+)(\/changes)?$/);
+    if (!match) {
+        sendJson(response, 404, { error: 'Not found' });
+        return;
+    }
+    const accountId = decodeURIComponent(match[1]);
+    const isChangesPath = Boolean(match[2]);
+
+    try {
+        if (isChangesPath && request.method === 'GET') {
+            const since = Number(url.searchParams.get('since')) || 0;
+            const changes = [...(accounts.get(accountId)?.values() || [])]
+                .filter(change => change.serverTime > since)
+                .sort((a, b) => a.serverTime - b.serverTime);
+            sendJson(response, 200, { changes, serverTime: Math.max(since, lastServerTime) });
+        } else if (isChangesPath && request.method === 'POST') {
+            const body = await readJsonBody(request);
+            if (!Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+                sendJson(response, 400, { error: 'Expected { changes: Change[] }' });
+                return;
+            }
+            const accepted = acceptChanges(accountId, body.changes);
+            console.log(`[${accountId}] accepted ${accepted} of ${body.changes.length} changes`);
+            sendJson(response, 200, { accepted, serverTime: lastServerTime });
+        } else if (!isChangesPath && request.method === 'DELETE') {
+            accounts.delete(accountId);
+            response.writeHead(204);
+            response.end();
+        } else {
+            sendJson(response, 405, { error: 'Method not allowed' });
+        }
+    } catch (error) {
+        console.error('Failed to handle request:', error);
+        sendJson(response, 400, { error: 'Invalid request' });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock sync server listening on http://localhost:${PORT}${TOKEN ? ' (bearer token required)' : ''}`);
+});
@@ -0,0 +1,101 @@
+// Smoke test for mock-sync-server.mjs: starts it on a free port and checks push, cursor pulls and conflict handling.
+// Run with `npm run test:mock-sync`.
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import net from 'node:net';
+
+const TOKEN = 'smoke-test-token';
+let server;
+let baseUrl;
+
+const findFreePort = () => new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+        const { port } = probe.address();
+        probe.close(() => resolve(port));
+    });
+});
+
+const request = async (path, init = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}`, ...init.headers },
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+const push = (accountId, changes) => request(`/accounts/${accountId}/changes`, { method: 'POST', body: JSON.stringify({ changes }) });
+const pull = (accountId, since = 0) => request(`/accounts/${accountId}/changes?since=${since}`);
+
+const change = (key, value, changedAt, deviceId = 'd1') => ({ id: `${key}-${changedAt}`, store: 'myWords', key, value, changedAt, deviceId });
+
+before(async () => {
+    const port = await findFreePort();
+    baseUrl = `http://localhost:${port}`;
+    server = spawn(process.execPath, [new URL('./mock-sync-server.mjs', import.meta.url).pathname], {
+        env: { ...process.env, PORT: String(port), SYNC_TOKEN: TOKEN },
+        stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    await new Promise((resolve, reject) => {
+        server.once('exit', code => reject(new Error(`Mock sync server exited with code ${code}`)));
+        server.stdout.on('data', chunk => {
+            if (chunk.toString().includes('listening')) resolve();
+        });
+    });
+});
+
+after(() => {
+    server?.kill();
+});
+
+test('rejects requests without the token', async () => {
+    const response = await fetch(`${baseUrl}/accounts/a/changes`);
+    assert.equal(response.status, 401);
+});
+
+test('pulls pushed changes and only newer ones after the cursor', async () => {
+    const first = await push('cursor', [change('w1', { term: 'apple' }, 100)]);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.accepted, 1);
+
+    const initial = await pull('cursor');
+    assert.deepEqual(initial.body.changes.map(c => c.key), ['w1']);
+    const cursor = initial.body.serverTime;
+
+    await push('cursor', [change('w2', { term: 'banana' }, 200)]);
+    const next = await pull('cursor', cursor);
+    assert.deepEqual(next.body.changes.map(c => c.key), ['w2']);
+    assert.ok(next.body.serverTime > cursor);
+
+    const empty = await pull('cursor', next.body.serverTime);
+    assert.deepEqual(empty.body.changes, []);
+});
+
+test('keeps the change with the latest changedAt', async () => {
+    await push('conflict', [change('w1', { term: 'new' }, 300, 'd1')]);
+    const older = await push('conflict', [change('w1', { term: 'old' }, 200, 'd2')]);
+    assert.equal(older.body.accepted, 0);
+    const tie = await push('conflict', [change('w1', { term: 'tie' }, 300, 'd2')]);
+    assert.equal(tie.body.accepted, 0);
+    const newer = await push('conflict', [change('w1', { term: 'newest' }, 400, 'd2')]);
+    assert.equal(newer.body.accepted, 1);
+
+    const { body } = await pull('conflict');
+    assert.equal(body.changes.length, 1);
+    assert.deepEqual(body.changes[0].value, { term: 'newest' });
+});
+
+test('rejects malformed changes and forgets deleted accounts', async () => {
+    const malformed = await push('delete', [{ store: 'myWords', key: 'w1' }]);
+    assert.equal(malformed.status, 400);
+
+    await push('delete', [change('w1', { term: 'apple' }, 100)]);
+    const deleted = await request('/accounts/delete', { method: 'DELETE' });
+    assert.equal(deleted.status, 204);
+    const { body } = await pull('delete');
+    assert.deepEqual(body.changes, []);
+});